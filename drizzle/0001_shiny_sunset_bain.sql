@@ -0,0 +1,2 @@
+CREATE INDEX IF NOT EXISTS "items_user_category_idx" ON "items" ("user_id","category");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "items_tags_idx" ON "items" USING gin ("tags");
\ No newline at end of file
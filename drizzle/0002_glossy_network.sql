@@ -0,0 +1,7 @@
+ALTER TABLE "items" ADD COLUMN "search_vector" "tsvector";--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "items_search_idx" ON "items" USING gin ("search_vector");--> statement-breakpoint
+UPDATE "items" SET "search_vector" =
+	setweight(to_tsvector('english', coalesce("items"."title", '')), 'A') ||
+	setweight(to_tsvector('english', coalesce("items"."summary", '') || ' ' || coalesce("items"."user_notes", '')), 'B') ||
+	setweight(to_tsvector('english', coalesce("items"."content", '')), 'C') ||
+	setweight(to_tsvector('english', coalesce((SELECT "transcript" FROM "video_data" WHERE "video_data"."item_id" = "items"."id"), '')), 'D');
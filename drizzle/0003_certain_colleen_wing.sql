@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS "item_embeddings" (
+	"item_id" text PRIMARY KEY NOT NULL,
+	"model" text NOT NULL,
+	"embedding" real[] NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "item_embeddings" ADD CONSTRAINT "item_embeddings_item_id_items_id_fk" FOREIGN KEY ("item_id") REFERENCES "items"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
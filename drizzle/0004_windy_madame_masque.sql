@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS "user_categories" (
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"position" integer NOT NULL,
+	CONSTRAINT "user_categories_user_id_name_pk" PRIMARY KEY("user_id","name")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "user_categories" ADD CONSTRAINT "user_categories_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
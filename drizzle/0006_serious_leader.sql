@@ -0,0 +1,2 @@
+ALTER TABLE "video_data" ADD COLUMN "segments" jsonb;--> statement-breakpoint
+ALTER TABLE "video_data" ADD COLUMN "chapters" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "items" ADD COLUMN "structured_content" jsonb;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "link_articles" (
+	"item_id" text PRIMARY KEY NOT NULL,
+	"content" text NOT NULL,
+	"text" text NOT NULL,
+	"word_count" integer NOT NULL,
+	"reading_time_minutes" integer NOT NULL,
+	"author" text,
+	"published_at" timestamp with time zone,
+	"site_name" text
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "link_articles" ADD CONSTRAINT "link_articles_item_id_items_id_fk" FOREIGN KEY ("item_id") REFERENCES "items"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1 @@
+ALTER TABLE "items" ADD COLUMN "link_data" jsonb;
\ No newline at end of file
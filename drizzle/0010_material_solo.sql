@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "apple_sub" text;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_apple_sub_unique" UNIQUE("apple_sub");
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE IF NOT EXISTS "user_identities" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"provider" text NOT NULL,
+	"subject" text NOT NULL,
+	"email" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_used_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" DROP CONSTRAINT "users_apple_sub_unique";--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "user_identities_provider_subject_idx" ON "user_identities" ("provider","subject");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "user_identities_user_idx" ON "user_identities" ("user_id");--> statement-breakpoint
+INSERT INTO "user_identities" ("id", "user_id", "provider", "subject", "email")
+	SELECT 'identity-' || floor(extract(epoch from now()) * 1000)::bigint || '-' || substr(md5(random()::text || "id"), 1, 9),
+		"id", 'apple', "apple_sub", CASE WHEN "email" LIKE '%@appleid.invalid' THEN NULL ELSE "email" END
+	FROM "users" WHERE "apple_sub" IS NOT NULL
+	ON CONFLICT DO NOTHING;--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN IF EXISTS "apple_sub";--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "user_identities" ADD CONSTRAINT "user_identities_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "magic_link_tokens" (
+	"id" text PRIMARY KEY NOT NULL,
+	"email" text NOT NULL,
+	"token_hash" text NOT NULL,
+	"ip_address" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"used_at" timestamp with time zone,
+	CONSTRAINT "magic_link_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "magic_link_tokens_email_idx" ON "magic_link_tokens" ("email","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "magic_link_tokens_ip_idx" ON "magic_link_tokens" ("ip_address","created_at");
\ No newline at end of file
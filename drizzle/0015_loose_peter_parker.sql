@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "ai_usage" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"kind" text NOT NULL,
+	"model" text NOT NULL,
+	"tokens" integer DEFAULT 0 NOT NULL,
+	"audio_seconds" real DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ai_usage_user_created_idx" ON "ai_usage" ("user_id","created_at");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ai_usage" ADD CONSTRAINT "ai_usage_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
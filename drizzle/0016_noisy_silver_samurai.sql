@@ -0,0 +1 @@
+ALTER TABLE "items" ADD COLUMN "ai_fallback" boolean DEFAULT false NOT NULL;
\ No newline at end of file
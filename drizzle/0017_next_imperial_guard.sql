@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS "ai_cache" (
+	"key" text PRIMARY KEY NOT NULL,
+	"kind" text NOT NULL,
+	"version" integer NOT NULL,
+	"value" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ai_cache_expires_idx" ON "ai_cache" ("expires_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "items" ADD COLUMN "canonical_url" text;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "items_user_canonical_url_idx" ON "items" ("user_id","canonical_url") WHERE canonical_url IS NOT NULL AND status <> 'failed';
\ No newline at end of file
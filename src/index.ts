@@ -13,6 +13,9 @@ if (process.env.NODE_ENV !== 'production') {
 console.log('\n📋 Environment Check:');
 console.log(`   NODE_ENV: ${process.env.NODE_ENV || 'development'}`);
 console.log(`   PORT: ${process.env.PORT || '3000'}`);
+console.log(`   DATABASE_URL: ${process.env.DATABASE_URL ? '✅ Set (PostgreSQL storage)' : '❌ NOT SET (in-memory storage)'}`);
+console.log(`   JWT_SECRET: ${process.env.JWT_SECRET ? `✅ Set (${process.env.JWT_SECRET.length} chars)` : '❌ NOT SET (development secret)'}`);
+console.log(`   AI_PROVIDER: ${process.env.AI_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : '❌ NOT SET (fallback analysis)')}`);
 console.log(`   OPENAI_API_KEY: ${process.env.OPENAI_API_KEY ? `✅ Set (${process.env.OPENAI_API_KEY.length} chars)` : '❌ NOT SET'}`);
 if (process.env.OPENAI_API_KEY) {
   console.log(`   OPENAI_API_KEY prefix: ${process.env.OPENAI_API_KEY.substring(0, 7)}...`);
@@ -22,16 +25,28 @@ console.log('');
 import express from 'express';
 import cors from 'cors';
 import routes from './server/routes';
+import { storage } from './server/storage';
+import { PgStorage } from './server/pgStorage';
+import { jobQueue } from './server/jobs';
+import { runVideoIngest, markVideoIngestFailed } from './server/ingest';
+import { assertJwtSecretConfigured } from './server/jwt';
 
 const app = express();
 const PORT = parseInt(process.env.PORT || '3000', 10);
 
+// Railway terminates TLS at a proxy: trust one hop of X-Forwarded-For so req.ip (rate limits,
+// session and magic link IPs) is the client, not the proxy. TRUST_PROXY overrides the hop count
+const trustProxy = process.env.TRUST_PROXY ?? (process.env.NODE_ENV === 'production' ? '1' : '');
+if (trustProxy) {
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? parseInt(trustProxy, 10) : trustProxy);
+}
+
 // Middleware
 app.use(cors({
   origin: '*',
   credentials: true,
   methods: ['GET', 'POST', 'DELETE', 'PUT', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Dev-Token'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Dev-Token', 'X-API-Key'],
 }));
 
 app.use(express.json());
@@ -42,6 +57,7 @@ app.use((req, res, next) => {
   console.log('Headers:', {
     'x-dev-token': req.headers['x-dev-token'],
     'authorization': req.headers['authorization'] ? 'Bearer ***' : undefined,
+    'x-api-key': req.headers['x-api-key'] ? '***' : undefined,
   });
   next();
 });
@@ -49,13 +65,29 @@ app.use((req, res, next) => {
 // API routes
 app.use('/api', routes);
 
-// Start server
-app.listen(PORT, '0.0.0.0', () => {
-  console.log(`🚀 SmartVault Backend running on http://localhost:${PORT}`);
-  console.log(`📡 API available at http://localhost:${PORT}/api`);
-  console.log(`✅ Health check: http://localhost:${PORT}/api/health`);
-  console.log(`🌐 Also accessible via: http://127.0.0.1:${PORT}`);
-  console.log(`\n🔧 Environment: ${process.env.NODE_ENV || 'development'}`);
-  console.log(`🔑 Dev token enabled: ${process.env.NODE_ENV !== 'production' ? 'YES' : 'NO'}`);
-});
+// Start server (after applying database migrations when using PostgreSQL)
+async function start() {
+  assertJwtSecretConfigured();
+
+  if (storage instanceof PgStorage) {
+    await storage.migrate();
+  }
+
+  // Background worker for video ingestion
+  jobQueue.register('video_ingest', runVideoIngest, markVideoIngestFailed);
+  await jobQueue.start();
 
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`🚀 SmartVault Backend running on http://localhost:${PORT}`);
+    console.log(`📡 API available at http://localhost:${PORT}/api`);
+    console.log(`✅ Health check: http://localhost:${PORT}/api/health`);
+    console.log(`🌐 Also accessible via: http://127.0.0.1:${PORT}`);
+    console.log(`\n🔧 Environment: ${process.env.NODE_ENV || 'development'}`);
+    console.log(`🔑 Dev token enabled: ${process.env.NODE_ENV !== 'production' ? 'YES' : 'NO'}`);
+  });
+}
+
+start().catch((error) => {
+  console.error('❌ Failed to start server:', error);
+  process.exit(1);
+});
@@ -1,14 +1,32 @@
 // AI integration for categorization and summarization
 
+import { normalizeTags, MAX_AI_TAGS } from './tags';
+import { DEFAULT_CATEGORY, matchCategory } from './categories';
+import { getAIProvider } from './aiProvider';
+import { aiAnalysisSchema, chatWithSchema } from './aiSchemas';
+import { cachedAIResult, contentCacheKey } from './aiCache';
+import { canonicalUrl } from './urls';
+
 export interface AIAnalysis {
   category: string;
   summary: string;
+  tags: string[];
+  fallback: boolean; // AI unavailable or its reply unusable: summary and category are placeholders
 }
 
 export interface AnalyzeContentOptions {
   url?: string; // Full URL for better context
+  categories?: string[] | null; // User's preferred category list; when set, the category must come from it
+  userId?: string; // Token usage is metered against this user
 }
 
+// Bump when the prompt or the cleanup of its output changes: cached analyses from older
+// versions are then ignored (see aiCache.ts)
+const ANALYZE_PROMPT_VERSION = 1;
+
+// Content sent to the model is capped (~3k tokens); full article text is summarized from its start
+const MAX_CONTENT_CHARS = 12000;
+
 // Fixed categories (use these first if they match)
 const FIXED_CATEGORIES = [
   'Technology',
@@ -30,7 +48,7 @@ const FIXED_CATEGORIES = [
 ];
 
 // Mock AI function (replace with real OpenAI API)
-// COMMENTED OUT - Using real OpenAI below
+// COMMENTED OUT - Using the AI provider below (see aiProvider.ts)
 /*
 export async function analyzeContent(
   title: string,
@@ -77,51 +95,17 @@ export async function analyzeContent(
 }
 */
 
-// Real OpenAI integration
-import OpenAI from 'openai';
-
-// Initialize OpenAI client lazily (after env vars are loaded)
-let openai: OpenAI | null = null;
-let initializationAttempted = false;
-
-function initializeOpenAI(): OpenAI | null {
-  if (initializationAttempted) {
-    return openai;
-  }
-  
-  initializationAttempted = true;
-  
-  try {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      console.error('❌ OPENAI_API_KEY is not set in environment variables');
-      console.error('   Please create a .env file in the backend directory with:');
-      console.error('   OPENAI_API_KEY=sk-proj-...');
-      return null;
-    }
-    
-    openai = new OpenAI({
-      apiKey: apiKey,
-    });
-    console.log('✅ OpenAI client initialized successfully');
-    console.log(`   API Key length: ${apiKey.length} characters`);
-    console.log(`   API Key prefix: ${apiKey.substring(0, 7)}...`);
-    return openai;
-  } catch (error) {
-    console.error('❌ Failed to initialize OpenAI client:', error);
-    return null;
-  }
-}
-
-// Fallback analysis when OpenAI fails
+// Fallback analysis when no AI provider is configured or every model fails
 function fallbackAnalysis(title: string, content: string | null, url?: string): AIAnalysis {
   // Generate summary from content or title
   const textSource = content || title || '';
   const summary = textSource.slice(0, 160).trim() || 'No summary available.';
   
   return {
-    category: 'General',
+    category: DEFAULT_CATEGORY,
     summary: summary.length > 200 ? summary.substring(0, 197) + '...' : summary,
+    tags: [],
+    fallback: true,
   };
 }
 
@@ -226,31 +210,53 @@ function validateSummary(summary: string, title: string, content: string | null)
   return cleaned || 'No summary available.';
 }
 
+// Analysis shared between users saving the same page with the same category list (fallback
+// analyses are not cached, so the next save tries the AI again). Content without a URL is the
+// user's own (a note) and never goes into the shared cache
 export async function analyzeContent(
   title: string,
   content: string | null,
   options?: AnalyzeContentOptions
 ): Promise<AIAnalysis> {
-  const url = options?.url;
-  
-  // Initialize OpenAI client if not already done
-  const client = initializeOpenAI();
-  if (!client) {
-    console.error('❌ OpenAI client not initialized - using fallback analysis');
-    console.error('   Reason: OPENAI_API_KEY not set or invalid');
-    return fallbackAnalysis(title, content, url);
+  if (!options?.url) {
+    return requestAnalysis(title, content, options);
   }
 
-  // Check if API key is set
-  if (!process.env.OPENAI_API_KEY) {
-    console.error('❌ OPENAI_API_KEY environment variable not set - using fallback analysis');
+  const categories = options.categories?.length ? options.categories : null;
+  const key = contentCacheKey('analysis', [
+    title,
+    content?.substring(0, MAX_CONTENT_CHARS) ?? null,
+    canonicalUrl(options.url),
+    categories,
+  ]);
+  return cachedAIResult(
+    { kind: 'analysis', key, version: ANALYZE_PROMPT_VERSION, shouldCache: analysis => !analysis.fallback },
+    () => requestAnalysis(title, content, options)
+  );
+}
+
+async function requestAnalysis(
+  title: string,
+  content: string | null,
+  options?: AnalyzeContentOptions
+): Promise<AIAnalysis> {
+  const url = options?.url;
+  const allowedCategories = options?.categories?.length ? options.categories : null;
+  
+  try {
+    getAIProvider();
+  } catch (error: any) {
+    console.error(`❌ ${error.message} - using fallback analysis`);
     return fallbackAnalysis(title, content, url);
   }
 
-  // Build system prompt
-  const systemPrompt = `You are a content categorization and summarization assistant.
-
-CATEGORY RULES:
+  // Category rules: the user's own list when they have one, otherwise fixed + generated categories
+  const categoryRules = allowedCategories
+    ? `CATEGORY RULES:
+1. The category MUST be exactly one of: ${allowedCategories.join(', ')}
+2. Pick the closest match; never invent a new category
+3. If nothing fits at all, use "${DEFAULT_CATEGORY}"`
+    : `CATEGORY RULES:
 1. First, check if the content matches one of these fixed categories: ${FIXED_CATEGORIES.join(', ')}
 2. If none truly fit, generate a NEW category that:
    - Is 1-2 words maximum
@@ -258,7 +264,12 @@ CATEGORY RULES:
    - Capitalized (e.g., "Crypto", "Travel", "Gaming", "Web3")
    - Broad, not niche
    - Does NOT duplicate any fixed category
-   - Makes sense as a topic label
+   - Makes sense as a topic label`;
+
+  // Build system prompt
+  const systemPrompt = `You are a content categorization and summarization assistant.
+
+${categoryRules}
 
 SUMMARY RULES:
 - 1-2 sentences maximum
@@ -268,11 +279,18 @@ SUMMARY RULES:
 - Must NOT repeat the title
 - Clear and simple language
 
+TAG RULES:
+- 3 to 6 tags
+- Lowercase, 1-3 words each, words joined with hyphens (e.g. "meal-prep", "react", "index-funds")
+- Specific topics, ingredients, tools or techniques from the content
+- Must NOT repeat the category
+
 OUTPUT FORMAT:
 You MUST return ONLY valid JSON in this exact structure:
 {
   "summary": "string here",
-  "category": "string here"
+  "category": "string here",
+  "tags": ["tag-one", "tag-two", "tag-three"]
 }
 
 No explanations, no markdown code blocks, no additional text. Only the JSON object.`;
@@ -281,14 +299,12 @@ No explanations, no markdown code blocks, no additional text. Only the JSON obje
   const userPrompt = `Analyze this content:
 
 Title: "${title}"
-${content ? `Content: "${content.substring(0, 1000)}"` : ''}
+${content ? `Content: "${content.substring(0, MAX_CONTENT_CHARS)}"` : ''}
 ${url ? `URL: "${url}"` : ''}
 
-Return JSON with "summary" and "category" fields only.`;
+Return JSON with "summary", "category" and "tags" fields only.`;
 
-  // Try models in order: gpt-4o-mini -> gpt-4-turbo -> gpt-3.5-turbo
-  // Note: gpt-4.1-mini doesn't exist, using gpt-4o-mini instead
-  const models = ['gpt-4o-mini', 'gpt-4-turbo', 'gpt-3.5-turbo'];
+  // Models are tried in order (AI_MODELS_ANALYZE, see aiProvider.ts)
   let lastError: any = null;
 
   console.log('🤖 Starting AI analysis...');
@@ -296,93 +312,46 @@ Return JSON with "summary" and "category" fields only.`;
   console.log(`   Content length: ${content?.length || 0} chars`);
   console.log(`   URL: ${url || 'N/A'}`);
 
-  for (const model of models) {
-    try {
-      console.log(`   Trying model: ${model}...`);
-      
-      const response = await client.chat.completions.create({
-        model: model,
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt,
-          },
-          {
-            role: 'user',
-            content: userPrompt,
-          },
-        ],
-        temperature: 0.7,
-        max_tokens: 300,
-        response_format: { type: 'json_object' }, // Force JSON response
-      });
-
-      const aiContent = response.choices[0].message.content || '{}';
-      console.log(`   ✅ Model ${model} responded successfully`);
-      console.log(`   Raw response: ${aiContent.substring(0, 100)}...`);
-      
-      // Parse JSON
-      let result: any;
-      try {
-        result = JSON.parse(aiContent);
-        console.log(`   ✅ Parsed JSON successfully`);
-        console.log(`   Raw category: "${result.category}"`);
-        console.log(`   Raw summary: "${result.summary?.substring(0, 50)}..."`);
-      } catch (parseError) {
-        console.warn(`   ⚠️ JSON parse failed, trying to extract from markdown...`);
-        // Try to extract JSON from markdown code blocks
-        const jsonMatch = aiContent.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          result = JSON.parse(jsonMatch[0]);
-          console.log(`   ✅ Extracted JSON from markdown`);
-        } else {
-          throw new Error('Invalid JSON response - no JSON found');
-        }
-      }
+  try {
+    // Parsed against aiAnalysisSchema; an invalid reply gets one repair attempt
+    const { data: result } = await chatWithSchema('analyze', {
+      system: systemPrompt,
+      user: userPrompt,
+      temperature: 0.7,
+      maxTokens: 300,
+    }, aiAnalysisSchema, options?.userId);
+    console.log(`   Raw category: "${result.category}"`);
+    console.log(`   Raw summary: "${result.summary.substring(0, 50)}..."`);
 
-      // Validate and clean response
-      const validatedCategory = validateCategory(result.category || '');
-      const validatedSummary = validateSummary(
-        result.summary || '',
-        title,
-        content
-      );
-
-      console.log(`   ✅ Final category: "${validatedCategory}"`);
-      console.log(`   ✅ Final summary: "${validatedSummary.substring(0, 50)}..."`);
-      console.log('🤖 AI analysis completed successfully');
-
-      return {
-        category: validatedCategory,
-        summary: validatedSummary,
-      };
-    } catch (error: any) {
-      lastError = error;
-      
-      // Detailed error logging
-      console.error(`   ❌ Model ${model} failed:`);
-      console.error(`      Error type: ${error.constructor?.name || 'Unknown'}`);
-      console.error(`      Error message: ${error.message || 'No message'}`);
-      console.error(`      Error status: ${error.status || 'N/A'}`);
-      console.error(`      Error code: ${error.code || 'N/A'}`);
-      if (error.response?.data) {
-        console.error(`      Error response data:`, JSON.stringify(error.response.data, null, 2));
-      }
-      
-      // If it's a model-specific error (like model not found), try next model
-      if (error.message?.includes('model') || error.status === 404 || error.code === 'model_not_found') {
-        console.warn(`   ⚠️ Model ${model} not available, trying next model...`);
-        continue;
-      }
-      
-      // For other errors, break and use fallback
-      console.error(`   ❌ Non-model error, stopping model attempts`);
-      break;
-    }
+    // Validate and clean response
+    const validatedCategory = allowedCategories
+      ? matchCategory(result.category, allowedCategories) || DEFAULT_CATEGORY
+      : validateCategory(result.category);
+    const validatedSummary = validateSummary(
+      result.summary,
+      title,
+      content
+    );
+    const validatedTags = normalizeTags(result.tags, MAX_AI_TAGS)
+      .filter(tag => tag !== validatedCategory.toLowerCase());
+
+    console.log(`   ✅ Final category: "${validatedCategory}"`);
+    console.log(`   ✅ Final summary: "${validatedSummary.substring(0, 50)}..."`);
+    console.log(`   ✅ Final tags: ${validatedTags.join(', ') || '(none)'}`);
+    console.log('🤖 AI analysis completed successfully');
+
+    return {
+      category: validatedCategory,
+      summary: validatedSummary,
+      tags: validatedTags,
+      fallback: false,
+    };
+  } catch (error: any) {
+    lastError = error;
   }
 
-  // All models failed, use fallback
-  console.error('❌ All AI models failed, using fallback analysis');
+  // Every model failed, or the reply was still invalid after a repair attempt
+  console.error('❌ AI analysis failed, using fallback analysis');
   console.error(`   Last error: ${lastError?.message || 'Unknown error'}`);
   console.error(`   Last error status: ${lastError?.status || 'N/A'}`);
   console.error(`   Last error code: ${lastError?.code || 'N/A'}`);
@@ -0,0 +1,123 @@
+// Shared cache of AI pipeline results
+// Page metadata and video transcripts are keyed by canonical URL; analyses and structured content
+// by a hash of the exact input (content, categories and AI provider), so two users saving the same
+// viral video or popular article pay for Whisper and the chat models once. Only what the pipeline
+// derives from the content is cached: items are still created per user, so notes and tag edits
+// stay on the item. Each entry records the version of the extractor or prompt that produced it
+// and is ignored once that version is bumped. AI_CACHE=off disables the cache
+
+import { createHash } from 'crypto';
+import { AICacheKind } from '../shared/schema';
+import { storage } from './storage';
+import { canonicalUrl } from './urls';
+import { getAIProvider } from './aiProvider';
+
+export interface CacheOptions<T> {
+  kind: AICacheKind;
+  key: string; // from urlCacheKey or contentCacheKey
+  version: number; // bump in the producing module when its output changes
+  // Results to keep (e.g. not fallback analyses); default all
+  shouldCache?: (value: T) => boolean;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+// Time to live per kind; tune with AI_CACHE_*_TTL_HOURS
+function ttlHours(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function ttlMs(kind: AICacheKind): number {
+  switch (kind) {
+    case 'metadata':
+      return ttlHours('AI_CACHE_METADATA_TTL_HOURS', 24) * HOUR; // pages change
+    case 'transcript':
+      return ttlHours('AI_CACHE_TRANSCRIPT_TTL_HOURS', 30 * 24) * HOUR; // videos don't
+    default:
+      return ttlHours('AI_CACHE_ANALYSIS_TTL_HOURS', 30 * 24) * HOUR;
+  }
+}
+
+export function isAICacheEnabled(): boolean {
+  return process.env.AI_CACHE !== 'off';
+}
+
+// Key for a result derived from what is at a URL
+export function urlCacheKey(kind: AICacheKind, url: string): string {
+  return `${kind}:${canonicalUrl(url)}`;
+}
+
+// Key for a result derived from AI input; `parts` must cover everything the prompt depends on
+export function contentCacheKey(kind: AICacheKind, parts: unknown[]): string {
+  let provider = 'none';
+  try {
+    provider = getAIProvider().name;
+  } catch {
+    // Not configured: nothing will be cached anyway (fallback results)
+  }
+  const hash = createHash('sha256').update(JSON.stringify([provider, ...parts])).digest('hex');
+  return `${kind}:${hash}`;
+}
+
+// Results being computed in this instance, so concurrent saves of the same video share the work
+const pending = new Map<string, Promise<unknown>>();
+
+// Expired entries are deleted at most this often (per instance)
+const PRUNE_INTERVAL_MS = HOUR;
+let lastPruneAt = 0;
+
+function pruneExpired(now: number): void {
+  if (now - lastPruneAt < PRUNE_INTERVAL_MS) return;
+  lastPruneAt = now;
+  storage.deleteExpiredAICacheEntries(new Date(now)).catch(error => {
+    console.warn('⚠️ Failed to clean up expired AI cache entries:', error.message);
+  });
+}
+
+// Cached result of `compute`; errors are not cached. Cache failures are logged and never fail
+// the caller
+export async function cachedAIResult<T>(options: CacheOptions<T>, compute: () => Promise<T>): Promise<T> {
+  if (!isAICacheEnabled()) {
+    return compute();
+  }
+
+  const { kind, key, version } = options;
+  const inFlight = pending.get(key);
+  if (inFlight) {
+    console.log(`♻️ Waiting for ${kind} already being computed`);
+    return inFlight as Promise<T>;
+  }
+
+  const run = async (): Promise<T> => {
+    try {
+      const entry = await storage.getAICacheEntry(key);
+      if (entry && entry.version === version) {
+        console.log(`♻️ Using cached ${kind} (${entry.createdAt.toISOString()})`);
+        return entry.value as T;
+      }
+    } catch (error: any) {
+      console.warn(`⚠️ AI cache lookup failed: ${error.message}`);
+    }
+
+    const value = await compute();
+    if (!options.shouldCache || options.shouldCache(value)) {
+      const now = Date.now();
+      try {
+        await storage.setAICacheEntry({ key, kind, version, value, expiresAt: new Date(now + ttlMs(kind)) });
+      } catch (error: any) {
+        console.warn(`⚠️ Failed to cache ${kind}: ${error.message}`);
+      }
+      pruneExpired(now);
+    }
+    return value;
+  };
+
+  const promise = run();
+  pending.set(key, promise);
+  try {
+    return await promise;
+  } finally {
+    pending.delete(key);
+  }
+}
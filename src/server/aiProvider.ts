@@ -0,0 +1,315 @@
+// AI provider layer: chat (JSON), transcription and embeddings behind one interface
+// AI_PROVIDER picks the backend: openai (default when OPENAI_API_KEY is set), local (any
+// OpenAI-compatible server such as Ollama or llama.cpp, at AI_BASE_URL) or fake (deterministic
+// canned output for tests). Each task tries a chain of models in order, configured with
+// AI_MODELS_<TASK> (comma-separated), falling through only when a model is unavailable.
+// Usage of every call is metered against the user (see usage.ts)
+
+import OpenAI, { toFile } from 'openai';
+import { TokenUsage, recordChatUsage, recordTranscriptionUsage } from './usage';
+import { LocalEmbeddingProvider } from './embeddings';
+
+export type AITask = 'analyze' | 'structure' | 'condense' | 'transcribe' | 'embed';
+
+export interface ChatRequest {
+  system: string;
+  user: string;
+  temperature: number;
+  maxTokens: number;
+  json?: boolean; // Ask for a single JSON object
+}
+
+export interface ChatResult {
+  content: string;
+  usage?: TokenUsage;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  duration: number; // seconds of audio
+  segments: Array<{ start: number; end: number; text: string }>;
+}
+
+export interface EmbeddingResult {
+  vectors: number[][];
+  tokens: number;
+}
+
+export interface AIProvider {
+  name: string;
+  // Model chain per task when AI_MODELS_<TASK> isn't set
+  defaultModels: Record<AITask, string[]>;
+  chat(model: string, request: ChatRequest): Promise<ChatResult>;
+  transcribe(model: string, audio: Buffer, format: string): Promise<TranscriptionResult>;
+  embed(model: string, texts: string[]): Promise<EmbeddingResult>;
+}
+
+// No provider is configured, or the configuration is invalid; retrying won't help
+export class AIProviderError extends Error {
+  readonly retryable = false;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
+
+const OPENAI_CHAT_MODELS = ['gpt-4o-mini', 'gpt-4-turbo', 'gpt-3.5-turbo'];
+
+const OPENAI_MODELS: Record<AITask, string[]> = {
+  analyze: OPENAI_CHAT_MODELS,
+  structure: OPENAI_CHAT_MODELS,
+  condense: OPENAI_CHAT_MODELS,
+  transcribe: ['whisper-1'],
+  embed: [process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small'],
+};
+
+// Ollama model names; llama.cpp serves whatever model it was started with under any name
+const LOCAL_MODELS: Record<AITask, string[]> = {
+  analyze: ['llama3.1'],
+  structure: ['llama3.1'],
+  condense: ['llama3.1'],
+  transcribe: ['whisper-1'],
+  embed: ['nomic-embed-text'],
+};
+
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1'; // Ollama
+
+// OpenAI, or any server implementing the same API (baseURL)
+export class OpenAIProvider implements AIProvider {
+  name: string;
+  defaultModels: Record<AITask, string[]>;
+  private client: OpenAI;
+
+  constructor(options: { apiKey: string; baseURL?: string; name?: string; defaultModels?: Record<AITask, string[]> }) {
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+    this.name = options.name || 'openai';
+    this.defaultModels = options.defaultModels || OPENAI_MODELS;
+  }
+
+  async chat(model: string, request: ChatRequest): Promise<ChatResult> {
+    const response = await this.client.chat.completions.create({
+      model: model,
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.user },
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json && { response_format: { type: 'json_object' as const } }),
+    });
+    return {
+      content: response.choices[0]?.message.content || '',
+      usage: response.usage,
+    };
+  }
+
+  async transcribe(model: string, audio: Buffer, format: string): Promise<TranscriptionResult> {
+    const transcription = await this.client.audio.transcriptions.create({
+      file: await toFile(audio, `audio.${format}`),
+      model: model,
+      language: 'en', // Optional: specify language
+      response_format: 'verbose_json',
+    });
+
+    const segments = (transcription.segments || []).map(segment => ({
+      start: segment.start,
+      end: segment.end,
+      text: segment.text.trim(),
+    }));
+    return {
+      text: transcription.text.trim(),
+      duration: transcription.duration || segments[segments.length - 1]?.end || 0,
+      segments,
+    };
+  }
+
+  async embed(model: string, texts: string[]): Promise<EmbeddingResult> {
+    // Floats explicitly: the SDK otherwise asks for base64, which local servers may ignore
+    const response = await this.client.embeddings.create({ model, input: texts, encoding_format: 'float' });
+    return {
+      vectors: response.data
+        .sort((a, b) => a.index - b.index)
+        .map(entry => entry.embedding),
+      tokens: response.usage?.total_tokens || 0,
+    };
+  }
+}
+
+export interface FakeAIOptions {
+  // Reply to chat requests; the default is a valid analysis derived from a hash of the prompt
+  reply?: (request: ChatRequest, model: string) => string;
+  transcription?: TranscriptionResult;
+  // Reject these models as not found (e.g. to test model chains)
+  unavailableModels?: string[];
+  // Make every call reject with this error
+  error?: Error;
+}
+
+// FNV-1a, so the fake's output changes with its input but never between runs
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// Deterministic canned output, no network; records every call
+export class FakeAIProvider implements AIProvider {
+  name = 'fake';
+  defaultModels: Record<AITask, string[]> = {
+    analyze: ['fake-chat'],
+    structure: ['fake-chat'],
+    condense: ['fake-chat'],
+    transcribe: ['fake-transcribe'],
+    embed: ['fake-embed'],
+  };
+  calls: Array<{ method: 'chat' | 'transcribe' | 'embed'; model: string }> = [];
+  private embeddings = new LocalEmbeddingProvider();
+
+  constructor(private options: FakeAIOptions = {}) {}
+
+  private record(method: 'chat' | 'transcribe' | 'embed', model: string): void {
+    this.calls.push({ method, model });
+    if (this.options.error) {
+      throw this.options.error;
+    }
+    if (this.options.unavailableModels?.includes(model)) {
+      throw Object.assign(new Error(`The model \`${model}\` does not exist`), { status: 404, code: 'model_not_found' });
+    }
+  }
+
+  async chat(model: string, request: ChatRequest): Promise<ChatResult> {
+    this.record('chat', model);
+    const content = this.options.reply
+      ? this.options.reply(request, model)
+      : JSON.stringify({
+        title: 'Fake Result',
+        type: 'general',
+        category: 'General',
+        summary: `Deterministic summary ${hashString(request.system + request.user)}.`,
+        tags: ['fake-ai'],
+      });
+    const promptTokens = Math.ceil((request.system.length + request.user.length) / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+    return {
+      content,
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+    };
+  }
+
+  async transcribe(model: string, audio: Buffer): Promise<TranscriptionResult> {
+    this.record('transcribe', model);
+    return this.options.transcription ?? {
+      text: 'Fake transcript.',
+      duration: 30,
+      segments: [{ start: 0, end: 30, text: 'Fake transcript.' }],
+    };
+  }
+
+  async embed(model: string, texts: string[]): Promise<EmbeddingResult> {
+    this.record('embed', model);
+    return {
+      vectors: await this.embeddings.embed(texts),
+      tokens: texts.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0),
+    };
+  }
+}
+
+let provider: AIProvider | null = null;
+
+export function getAIProvider(): AIProvider {
+  if (provider) {
+    return provider;
+  }
+
+  const configured = process.env.AI_PROVIDER || 'openai';
+  if (configured === 'fake') {
+    console.log('🧪 Using fake AI provider (deterministic output)');
+    provider = new FakeAIProvider();
+  } else if (configured === 'local') {
+    const baseURL = process.env.AI_BASE_URL || DEFAULT_LOCAL_BASE_URL;
+    console.log(`🖥️  Using local AI provider at ${baseURL}`);
+    provider = new OpenAIProvider({
+      name: 'local',
+      apiKey: process.env.AI_API_KEY || 'local', // most local servers ignore it
+      baseURL,
+      defaultModels: LOCAL_MODELS,
+    });
+  } else if (configured === 'openai') {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new AIProviderError('No AI provider configured: set OPENAI_API_KEY, or AI_PROVIDER=local|fake');
+    }
+    provider = new OpenAIProvider({ apiKey, baseURL: process.env.AI_BASE_URL || undefined });
+  } else {
+    throw new AIProviderError(`Unknown AI_PROVIDER "${configured}" (expected openai, local or fake)`);
+  }
+  return provider;
+}
+
+// Override the provider (e.g. inject FakeAIProvider in tests)
+export function setAIProvider(override: AIProvider | null): void {
+  provider = override;
+}
+
+// Whether AI calls can be made at all (without them, saves use fallback analysis)
+export function isAIProviderConfigured(): boolean {
+  return Boolean(provider || process.env.AI_PROVIDER || process.env.OPENAI_API_KEY);
+}
+
+// Models to try for a task, in order
+export function modelChain(task: AITask, aiProvider: AIProvider = getAIProvider()): string[] {
+  const configured = (process.env[`AI_MODELS_${task.toUpperCase()}`] || '')
+    .split(',')
+    .map(model => model.trim())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : aiProvider.defaultModels[task];
+}
+
+// Model missing or not enabled for this key: worth trying the next model in the chain
+function isModelUnavailable(error: any): boolean {
+  return error.message?.includes('model') || error.status === 404 || error.code === 'model_not_found';
+}
+
+// Run `call` with each model of the task's chain until one works
+async function withModelChain<T>(task: AITask, call: (aiProvider: AIProvider, model: string) => Promise<T>): Promise<{ result: T; model: string }> {
+  const aiProvider = getAIProvider();
+  let lastError: any = null;
+
+  for (const model of modelChain(task, aiProvider)) {
+    try {
+      console.log(`   Trying model: ${model} (${aiProvider.name})...`);
+      const result = await call(aiProvider, model);
+      console.log(`   ✅ Model ${model} responded successfully`);
+      return { result, model };
+    } catch (error: any) {
+      lastError = error;
+      console.error(`   ❌ Model ${model} failed: ${error.message || 'No message'}`);
+      console.error(`      Error status: ${error.status || 'N/A'}, code: ${error.code || 'N/A'}`);
+      if (isModelUnavailable(error)) {
+        console.warn(`   ⚠️ Model ${model} not available, trying next model...`);
+        continue;
+      }
+      break;
+    }
+  }
+
+  throw lastError || new AIProviderError(`No model configured for ${task}`);
+}
+
+// One chat completion with the task's model chain; token usage is metered against userId
+export async function chatWithFallback(task: AITask, request: ChatRequest, userId?: string): Promise<{ content: string; model: string }> {
+  const { result, model } = await withModelChain(task, (aiProvider, model) => aiProvider.chat(model, request));
+  await recordChatUsage(userId, model, result.usage);
+  return { content: result.content, model };
+}
+
+// Transcribe audio with the transcription model chain; audio length is metered against userId
+export async function transcribeWithFallback(audio: Buffer, format: string, userId?: string): Promise<TranscriptionResult> {
+  const { result, model } = await withModelChain('transcribe', (aiProvider, model) => aiProvider.transcribe(model, audio, format));
+  await recordTranscriptionUsage(userId, model, result.duration);
+  return result;
+}
@@ -0,0 +1,177 @@
+// Runtime schemas for AI outputs (zod)
+// Model replies are parsed against these instead of being patched field by field. Slips with one
+// obvious reading are coerced (numbers sent as strings, null for a missing optional field);
+// anything else is a validation error, which chatWithSchema feeds back to the model for one
+// repair attempt before the caller falls back
+
+import { z } from 'zod';
+import { AITask, ChatRequest, chatWithFallback } from './aiProvider';
+
+// Optional field: null and missing both become undefined
+function optional<T extends z.ZodTypeAny>(schema: T) {
+  return schema.nullish().transform((value): z.output<T> | undefined => value ?? undefined);
+}
+
+const text = z.string().trim();
+
+// Free-text field models sometimes send as a number ("reps": 12)
+const looseText = z.union([z.string(), z.number()]).transform(value => String(value).trim());
+
+// Whole number, also from strings like "serves 4"; unreadable values are dropped
+const count = z.union([z.number(), z.string()]).nullish().transform(value => {
+  const parsed = typeof value === 'string' ? parseInt(value.match(/\d+/)?.[0] || '', 10) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed >= 0 ? Math.round(parsed) : undefined;
+});
+
+// Seconds into the video; checked against the video's length by the caller (see cleanStart)
+const start = z.unknown().optional();
+
+// Name or title the model may leave out: fall back to a generic label
+function label(fallback: string) {
+  return z.string().nullish().transform(value => value?.trim() || fallback);
+}
+
+// Link and note analysis (ai.ts)
+export const aiAnalysisSchema = z.object({
+  summary: text.min(1),
+  category: text.min(1),
+  tags: optional(z.array(z.string())).transform(tags => tags ?? []),
+});
+
+export type AIAnalysisOutput = z.output<typeof aiAnalysisSchema>;
+
+const recipeSchema = z.object({
+  name: label('Untitled Recipe'),
+  ingredients: z.array(text.min(1)),
+  // Plain strings, or { text, start } when the transcript is timed
+  instructions: z.array(z.union([text.min(1), z.object({ text: text.min(1), start })])),
+  servings: count,
+  prepTime: optional(looseText),
+  cookTime: optional(looseText),
+});
+
+const workoutSchema = z.object({
+  name: label('Workout'),
+  exercises: z.array(z.object({
+    name: text.min(1),
+    sets: count,
+    reps: optional(looseText),
+    duration: optional(looseText),
+    rest: optional(looseText),
+    start,
+  })),
+  duration: optional(looseText),
+  difficulty: optional(looseText),
+});
+
+const tutorialSchema = z.object({
+  title: label('Tutorial'),
+  steps: z.array(z.object({
+    step: count,
+    description: text.min(1),
+    tips: optional(text),
+    start,
+  })),
+  tools: optional(z.array(text)),
+  difficulty: optional(looseText),
+});
+
+// Structured video (or page) content (videoAI.ts)
+export const videoAnalysisSchema = z.object({
+  title: optional(text),
+  type: z.enum(['recipe', 'workout', 'tutorial', 'general']),
+  category: optional(text),
+  summary: optional(text),
+  tags: optional(z.array(z.string())).transform(tags => tags ?? []),
+  chapters: z.unknown().optional(), // cleaned against the video's length (see cleanChapters)
+  recipe: optional(recipeSchema),
+  workout: optional(workoutSchema),
+  tutorial: optional(tutorialSchema),
+}).superRefine((value, ctx) => {
+  if (value.type !== 'general' && !value[value.type]) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [value.type], message: `Required when type is "${value.type}"` });
+  }
+});
+
+export type VideoAnalysisOutput = z.output<typeof videoAnalysisSchema>;
+
+export type AIParseResult<T> = { success: true; data: T } | { success: false; errors: string[] };
+
+// Issues reported back to the model are capped so a badly broken reply doesn't blow up the prompt
+const MAX_REPORTED_ISSUES = 10;
+
+// Parse a model reply as JSON (also when wrapped in a markdown code block) and validate it
+export function parseAIOutput<T extends z.ZodTypeAny>(content: string, schema: T): AIParseResult<z.output<T>> {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    const match = content.match(/\{[\s\S]*\}/);
+    try {
+      json = match ? JSON.parse(match[0]) : undefined;
+    } catch {
+      json = undefined;
+    }
+    if (json === undefined) {
+      return { success: false, errors: ['The reply is not a valid JSON object'] };
+    }
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.issues
+      .slice(0, MAX_REPORTED_ISSUES)
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+  };
+}
+
+// The model's reply didn't match the schema, even after a repair attempt
+export class AIOutputError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`AI output failed validation: ${errors.join('; ')}`);
+    this.name = 'AIOutputError';
+  }
+}
+
+// Chat reply parsed against `schema`; an invalid reply is retried once with the validation
+// errors fed back. `repaired` is set when the second reply was the one used
+export async function chatWithSchema<T extends z.ZodTypeAny>(
+  task: AITask,
+  request: ChatRequest,
+  schema: T,
+  userId?: string
+): Promise<{ data: z.output<T>; model: string; repaired: boolean }> {
+  const first = await chatWithFallback(task, { ...request, json: true }, userId);
+  const parsed = parseAIOutput(first.content, schema);
+  if (parsed.success) {
+    return { data: parsed.data, model: first.model, repaired: false };
+  }
+
+  console.warn(`   ⚠️ Invalid ${task} output from ${first.model}, asking for a repair:`);
+  parsed.errors.forEach(error => console.warn(`      - ${error}`));
+
+  const repair = await chatWithFallback(task, {
+    ...request,
+    json: true,
+    user: `${request.user}
+
+Your previous reply was:
+${first.content.substring(0, 4000)}
+
+It does not match the required JSON structure:
+${parsed.errors.map(error => `- ${error}`).join('\n')}
+
+Return the corrected JSON object only.`,
+  }, userId);
+  const repaired = parseAIOutput(repair.content, schema);
+  if (repaired.success) {
+    console.log(`   🔧 Repaired ${task} output from ${repair.model}`);
+    return { data: repaired.data, model: repair.model, repaired: true };
+  }
+
+  throw new AIOutputError(repaired.errors);
+}
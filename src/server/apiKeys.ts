@@ -0,0 +1,103 @@
+// Personal API keys for scripts, iOS Shortcuts and browser extensions
+// Keys look like "sv_<random>" and are sent as `Authorization: Bearer sv_...` or `X-API-Key`.
+// Only a SHA-256 hash is stored, so a key is shown once at creation. Each key carries scopes, and
+// routes opt in with allowApiKeys(...): everything else (account, sessions, edits, deletes, key
+// management) stays reserved for signed-in devices
+
+import { createHash, randomBytes } from 'crypto';
+import { NextFunction, Response } from 'express';
+import { ApiKey, ApiKeyScope, User } from '../shared/schema';
+import { storage } from './storage';
+import type { AuthRequest } from './jwtMiddleware';
+
+export const API_KEY_PREFIX = 'sv_';
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'save'];
+const MAX_KEYS_PER_USER = 25;
+const MAX_NAME_LENGTH = 100;
+const DISPLAY_PREFIX_LENGTH = 11; // "sv_" plus 8 characters
+// last_used_at is written at most this often per key (not on every request)
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+// Invalid key name or scopes, or too many keys
+export class ApiKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+// Create a key; the plaintext key is only returned here
+export async function createApiKey(userId: string, name: unknown, scopes: unknown): Promise<{ apiKey: ApiKey; key: string }> {
+  const cleanName = typeof name === 'string' ? name.trim() : '';
+  if (!cleanName || cleanName.length > MAX_NAME_LENGTH) {
+    throw new ApiKeyError(`name is required (max ${MAX_NAME_LENGTH} characters)`);
+  }
+  if (
+    !Array.isArray(scopes) ||
+    scopes.length === 0 ||
+    !scopes.every(scope => API_KEY_SCOPES.includes(scope))
+  ) {
+    throw new ApiKeyError(`scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}`);
+  }
+
+  const existing = await storage.getApiKeys(userId);
+  if (existing.length >= MAX_KEYS_PER_USER) {
+    throw new ApiKeyError(`You can have at most ${MAX_KEYS_PER_USER} API keys`);
+  }
+
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const apiKey = await storage.createApiKey({
+    userId,
+    name: cleanName,
+    prefix: key.substring(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashKey(key),
+    scopes: Array.from(new Set(scopes as ApiKeyScope[])),
+  });
+
+  console.log(`🔑 API key ${apiKey.id} (${apiKey.scopes.join(', ')}) created for user ${userId}`);
+  return { apiKey, key };
+}
+
+// The active key and its owner, or null if the key is unknown or revoked
+export async function authenticateApiKey(key: string): Promise<{ apiKey: ApiKey; user: User } | null> {
+  const apiKey = await storage.getApiKeyByHash(hashKey(key));
+  if (!apiKey) return null;
+
+  const user = await storage.getUserById(apiKey.userId);
+  if (!user) return null;
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > TOUCH_INTERVAL_MS) {
+    storage.touchApiKey(apiKey.id).catch(error => {
+      console.warn(`⚠️ Failed to record API key use: ${error.message}`);
+    });
+  }
+  return { apiKey, user };
+}
+
+// Let API keys with any of these scopes call the route (must come before jwtAuthMiddleware)
+export function allowApiKeys(...scopes: ApiKeyScope[]) {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    req.apiKeyScopes = scopes;
+    next();
+  };
+}
+
+// Client-facing shape (never includes the hash)
+export function serializeApiKey(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    createdAt: apiKey.createdAt,
+    lastUsedAt: apiKey.lastUsedAt,
+  };
+}
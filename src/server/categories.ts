@@ -0,0 +1,44 @@
+// Category helpers shared by AI analysis and the category management API
+
+// Catch-all category for uncategorized items (also where deleted categories' items go)
+export const DEFAULT_CATEGORY = 'General';
+export const MAX_PREFERRED_CATEGORIES = 50;
+const MAX_CATEGORY_LENGTH = 40;
+
+// Clean a user-supplied category name: trimmed, single spaces, bounded length
+export function cleanCategoryName(name: unknown): string | null {
+  if (typeof name !== 'string') return null;
+  const cleaned = name.trim().replace(/\s+/g, ' ').substring(0, MAX_CATEGORY_LENGTH).trim();
+  return cleaned.length > 0 ? cleaned : null;
+}
+
+// Clean and de-duplicate (case-insensitively) a list of category names
+export function cleanCategoryList(names: unknown): string[] {
+  if (!Array.isArray(names)) return [];
+
+  const result: string[] = [];
+  for (const name of names) {
+    const cleaned = cleanCategoryName(name);
+    if (cleaned && !result.some(existing => existing.toLowerCase() === cleaned.toLowerCase())) {
+      result.push(cleaned);
+    }
+    if (result.length >= MAX_PREFERRED_CATEGORIES) break;
+  }
+  return result;
+}
+
+// Map a model-suggested category onto the user's allowed list
+// Exact (case-insensitive) match first, then containment either way ("Web3" -> "Crypto & Web3")
+export function matchCategory(candidate: string, allowed: string[]): string | null {
+  const lower = candidate.trim().toLowerCase();
+  if (!lower) return null;
+
+  const exact = allowed.find(category => category.toLowerCase() === lower);
+  if (exact) return exact;
+
+  const partial = allowed.find(category => {
+    const allowedLower = category.toLowerCase();
+    return allowedLower.includes(lower) || lower.includes(allowedLower);
+  });
+  return partial || null;
+}
@@ -0,0 +1,202 @@
+// PostgreSQL table definitions (Drizzle ORM)
+// Run `npm run db:generate` after changing this file to create a new migration in ./drizzle
+
+import { sql } from 'drizzle-orm';
+import { pgTable, text, timestamp, jsonb, real, integer, boolean, index, primaryKey, uniqueIndex, customType } from 'drizzle-orm/pg-core';
+import type { VideoStructuredContent } from './videoAI';
+import type { AICacheKind, AIUsageKind, ApiKeyScope, IdentityProvider, ItemStatus, Job, JobStatus, LinkData, SessionRevokeReason, TranscriptSegment, VideoChapter } from '../shared/schema';
+
+// Full-text search document (maintained by PgStorage, see refreshSearchVector)
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
+
+export const users = pgTable('users', {
+  id: text('id').primaryKey(),
+  email: text('email').notNull().unique(),
+  firstName: text('first_name'),
+  lastName: text('last_name'),
+  profileImageUrl: text('profile_image_url'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+export const items = pgTable('items', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: text('type').$type<'link' | 'note' | 'video'>().notNull(),
+  status: text('status').$type<ItemStatus>().notNull().default('ready'),
+  // AI analysis was unavailable or invalid and placeholder summary/category were saved
+  aiFallback: boolean('ai_fallback').notNull().default(false),
+  title: text('title').notNull(),
+  summary: text('summary').notNull(),
+  category: text('category').notNull(),
+  tags: text('tags').array().notNull().default(sql`'{}'::text[]`),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  userNotes: text('user_notes'),
+  url: text('url'),
+  // url in canonical form (see urls.ts); null for notes and for duplicates saved with force
+  canonicalUrl: text('canonical_url'),
+  imageUrl: text('image_url'),
+  // Link items: schema.org Recipe/HowTo/ExercisePlan data (videos keep theirs in video_data)
+  structuredContent: jsonb('structured_content').$type<VideoStructuredContent>(),
+  // Link items: typed data from a per-domain extractor (GitHub, product pages, X, Reddit, podcasts)
+  linkData: jsonb('link_data').$type<LinkData>(),
+  content: text('content'),
+  searchVector: tsvector('search_vector'),
+}, (table) => ({
+  userCreatedIdx: index('items_user_created_idx').on(table.userId, table.createdAt),
+  userCategoryIdx: index('items_user_category_idx').on(table.userId, table.category),
+  tagsIdx: index('items_tags_idx').on(table.tags).using(sql`gin`),
+  searchIdx: index('items_search_idx').on(table.searchVector).using(sql`gin`),
+  // One saved item per URL and user; failed items don't count, so they can be saved again
+  userCanonicalUrlIdx: uniqueIndex('items_user_canonical_url_idx')
+    .on(table.userId, table.canonicalUrl)
+    .where(sql`canonical_url IS NOT NULL AND status <> 'failed'`),
+}));
+
+// Video-specific data lives in its own table, one row per video item
+export const videoData = pgTable('video_data', {
+  itemId: text('item_id').primaryKey().references(() => items.id, { onDelete: 'cascade' }),
+  platform: text('platform').$type<'tiktok' | 'instagram' | 'youtube'>().notNull(),
+  transcript: text('transcript'),
+  segments: jsonb('segments').$type<TranscriptSegment[]>(),
+  chapters: jsonb('chapters').$type<VideoChapter[]>(),
+  structuredContent: jsonb('structured_content').$type<VideoStructuredContent>(),
+});
+
+// Readable article text of link items, one row per link (kept out of items so list queries stay small)
+export const linkArticles = pgTable('link_articles', {
+  itemId: text('item_id').primaryKey().references(() => items.id, { onDelete: 'cascade' }),
+  content: text('content').notNull(),
+  text: text('text').notNull(),
+  wordCount: integer('word_count').notNull(),
+  readingTimeMinutes: integer('reading_time_minutes').notNull(),
+  author: text('author'),
+  publishedAt: timestamp('published_at', { withTimezone: true }),
+  siteName: text('site_name'),
+});
+
+// One embedding per item; vectors from different models are never compared
+export const itemEmbeddings = pgTable('item_embeddings', {
+  itemId: text('item_id').primaryKey().references(() => items.id, { onDelete: 'cascade' }),
+  model: text('model').notNull(),
+  embedding: real('embedding').array().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Per-user preferred category list (AI categorization is constrained to it when present)
+export const userCategories = pgTable('user_categories', {
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  position: integer('position').notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.name] }),
+}));
+
+// Persistent background job queue (video ingestion)
+export const jobs = pgTable('jobs', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: text('type').$type<Job['type']>().notNull(),
+  status: text('status').$type<JobStatus>().notNull().default('queued'),
+  stage: text('stage'),
+  payload: jsonb('payload').$type<Record<string, any>>().notNull(),
+  itemId: text('item_id').references(() => items.id, { onDelete: 'set null' }),
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull().default(3),
+  error: text('error'),
+  runAt: timestamp('run_at', { withTimezone: true }).notNull().defaultNow(),
+  lockedAt: timestamp('locked_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  queueIdx: index('jobs_queue_idx').on(table.status, table.runAt),
+}));
+
+// Device sessions (refresh token chains); revoked rows are kept for reuse detection
+export const authSessions = pgTable('auth_sessions', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  deviceName: text('device_name'),
+  userAgent: text('user_agent'),
+  ipAddress: text('ip_address'),
+  refreshTokenHash: text('refresh_token_hash').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  lastUsedAt: timestamp('last_used_at', { withTimezone: true }).notNull().defaultNow(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  revokedReason: text('revoked_reason').$type<SessionRevokeReason>(),
+}, (table) => ({
+  userIdx: index('auth_sessions_user_idx').on(table.userId),
+}));
+
+// Sign-in provider accounts (Google, Apple) linked to users
+export const userIdentities = pgTable('user_identities', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  provider: text('provider').$type<IdentityProvider>().notNull(),
+  subject: text('subject').notNull(),
+  email: text('email'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  lastUsedAt: timestamp('last_used_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  providerSubjectIdx: uniqueIndex('user_identities_provider_subject_idx').on(table.provider, table.subject),
+  userIdx: index('user_identities_user_idx').on(table.userId),
+}));
+
+// Email sign-in links (see magicLink.ts)
+export const magicLinkTokens = pgTable('magic_link_tokens', {
+  id: text('id').primaryKey(),
+  email: text('email').notNull(),
+  tokenHash: text('token_hash').notNull().unique(),
+  ipAddress: text('ip_address'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  usedAt: timestamp('used_at', { withTimezone: true }),
+}, (table) => ({
+  emailIdx: index('magic_link_tokens_email_idx').on(table.email, table.createdAt),
+  ipIdx: index('magic_link_tokens_ip_idx').on(table.ipAddress, table.createdAt),
+}));
+
+// Personal API keys (see apiKeys.ts)
+export const apiKeys = pgTable('api_keys', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  prefix: text('prefix').notNull(),
+  keyHash: text('key_hash').notNull().unique(),
+  scopes: text('scopes').array().$type<ApiKeyScope[]>().notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+}, (table) => ({
+  userIdx: index('api_keys_user_idx').on(table.userId),
+}));
+
+// Metered OpenAI requests, summed per user for quotas (see usage.ts)
+export const aiUsage = pgTable('ai_usage', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  kind: text('kind').$type<AIUsageKind>().notNull(),
+  model: text('model').notNull(),
+  tokens: integer('tokens').notNull().default(0),
+  audioSeconds: real('audio_seconds').notNull().default(0),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  userCreatedIdx: index('ai_usage_user_created_idx').on(table.userId, table.createdAt),
+}));
+
+// Shared AI results (page metadata, transcripts, analyses), not tied to a user (see aiCache.ts)
+export const aiCache = pgTable('ai_cache', {
+  key: text('key').primaryKey(),
+  kind: text('kind').$type<AICacheKind>().notNull(),
+  version: integer('version').notNull(),
+  value: jsonb('value').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+}, (table) => ({
+  expiresIdx: index('ai_cache_expires_idx').on(table.expiresAt),
+}));
@@ -0,0 +1,333 @@
+// Video downloading (captions, audio, metadata) behind an injectable interface
+// The yt-dlp implementation spawns the binary with argument arrays (no shell), so URLs are
+// never interpreted by a shell; FakeVideoDownloader serves canned data for tests
+
+import { spawn } from 'child_process';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { assertPublicUrl } from './safeFetch';
+
+export interface VideoInfo {
+  durationSeconds: number | null;
+  // Size of the best audio stream if yt-dlp knows it up front
+  audioBytes: number | null;
+  title?: string;
+}
+
+export interface CaptionFile {
+  format: 'vtt' | 'srt' | 'ttml' | 'json3';
+  content: string;
+}
+
+export interface AudioFile {
+  buffer: Buffer;
+  format: string;
+}
+
+export interface VideoLimits {
+  maxDurationSeconds: number;
+  maxAudioBytes: number;
+}
+
+export interface VideoDownloader {
+  probe(url: string): Promise<VideoInfo>;
+  // English captions/subtitles if the platform has any
+  fetchCaptions(url: string): Promise<CaptionFile | null>;
+  // Best audio stream; rejects with VideoLimitError if the video is too long or too large
+  downloadAudio(url: string): Promise<AudioFile>;
+}
+
+// A video outside the configured limits; retrying will not help
+export class VideoLimitError extends Error {
+  readonly retryable = false;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'VideoLimitError';
+  }
+}
+
+// In order of preference (TTML has no parser)
+const CAPTION_FORMATS: CaptionFile['format'][] = ['vtt', 'srt', 'json3', 'ttml'];
+const AUDIO_FORMATS = ['m4a', 'webm', 'opus', 'ogg', 'mp3'];
+const PROBE_TIMEOUT_MS = 30 * 1000;
+const CAPTIONS_TIMEOUT_MS = 30 * 1000;
+const AUDIO_TIMEOUT_MS = 10 * 60 * 1000;
+// Most output a command may produce (yt-dlp --dump-json can be large)
+const MAX_OUTPUT_BYTES = 5 * 1024 * 1024;
+
+export function getVideoLimits(): VideoLimits {
+  return {
+    maxDurationSeconds: parseInt(process.env.VIDEO_MAX_DURATION_SECONDS || '3600', 10),
+    maxAudioBytes: parseInt(process.env.VIDEO_MAX_AUDIO_MB || '100', 10) * 1024 * 1024,
+  };
+}
+
+function formatMinutes(seconds: number): string {
+  return `${Math.round(seconds / 60)} min`;
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+// Shared by every implementation so limits behave the same in tests
+export function checkVideoLimits(info: VideoInfo, limits: VideoLimits): void {
+  if (info.durationSeconds !== null && info.durationSeconds > limits.maxDurationSeconds) {
+    throw new VideoLimitError(
+      `Video is too long (${formatMinutes(info.durationSeconds)}, limit ${formatMinutes(limits.maxDurationSeconds)})`
+    );
+  }
+  if (info.audioBytes !== null && info.audioBytes > limits.maxAudioBytes) {
+    throw new VideoLimitError(
+      `Video audio is too large (${formatMegabytes(info.audioBytes)}, limit ${formatMegabytes(limits.maxAudioBytes)})`
+    );
+  }
+}
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+}
+
+// Run a binary with an argument array (no shell); rejects on non-zero exit, timeout or more than
+// MAX_OUTPUT_BYTES of output (cut-off JSON would only fail later with a parse error)
+export function runCommand(command: string, args: string[], timeoutMs: number): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    // Collected as Buffers and decoded once, so multi-byte characters split across chunks survive
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let stdoutBytes = 0;
+    let stderrBytes = 0;
+    let timedOut = false;
+    let tooLarge = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, timeoutMs);
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdoutBytes += chunk.length;
+      if (stdoutBytes > MAX_OUTPUT_BYTES) {
+        if (!tooLarge) {
+          tooLarge = true;
+          child.kill('SIGKILL');
+        }
+        return;
+      }
+      stdout.push(chunk);
+    });
+    // Only the end of stderr is reported, so it is simply capped
+    child.stderr.on('data', (chunk: Buffer) => {
+      if (stderrBytes < MAX_OUTPUT_BYTES) {
+        stderr.push(chunk);
+        stderrBytes += chunk.length;
+      }
+    });
+
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+
+    child.on('close', code => {
+      clearTimeout(timer);
+      const errorOutput = Buffer.concat(stderr).toString('utf-8');
+      if (timedOut) {
+        reject(new Error(`${command} timed out after ${timeoutMs / 1000}s`));
+      } else if (tooLarge) {
+        reject(new Error(`${command} output too large (over ${formatMegabytes(MAX_OUTPUT_BYTES)})`));
+      } else if (code !== 0) {
+        const detail = errorOutput.trim().split('\n').slice(-3).join(' ');
+        reject(new Error(`${command} exited with code ${code}: ${detail}`));
+      } else {
+        resolve({ stdout: Buffer.concat(stdout).toString('utf-8'), stderr: errorOutput });
+      }
+    });
+  });
+}
+
+// Locations checked when YTDLP_PATH is not set (PATH first, then common install dirs)
+const YTDLP_CANDIDATES = [
+  'yt-dlp',
+  '/usr/bin/yt-dlp', // Alpine Linux pip install location
+  '/usr/local/bin/yt-dlp', // Common pip/Homebrew location
+  '/opt/homebrew/bin/yt-dlp', // Apple Silicon Homebrew location
+];
+
+export class YtDlpDownloader implements VideoDownloader {
+  private binary: Promise<string> | null = null;
+
+  constructor(private limits: VideoLimits = getVideoLimits(), private binaryPath = process.env.YTDLP_PATH) {}
+
+  // Resolve the yt-dlp binary once; later calls reuse the result
+  private resolveBinary(): Promise<string> {
+    if (!this.binary) {
+      this.binary = this.detectBinary();
+      // Allow a retry if yt-dlp gets installed while the server is running
+      this.binary.catch(() => {
+        this.binary = null;
+      });
+    }
+    return this.binary;
+  }
+
+  private async detectBinary(): Promise<string> {
+    const candidates = this.binaryPath ? [this.binaryPath] : YTDLP_CANDIDATES;
+    for (const candidate of candidates) {
+      try {
+        const { stdout } = await runCommand(candidate, ['--version'], 10 * 1000);
+        console.log(`   Using yt-dlp: ${candidate} (${stdout.trim()})`);
+        return candidate;
+      } catch {
+        // Try next candidate
+      }
+    }
+    throw new Error(`yt-dlp not found (tried ${candidates.join(', ')}); install it or set YTDLP_PATH`);
+  }
+
+  // yt-dlp does its own fetching, so the URL is checked for private/local addresses up front
+  private async run(url: string, args: string[], timeoutMs: number): Promise<CommandResult> {
+    await assertPublicUrl(url);
+    const binary = await this.resolveBinary();
+    return runCommand(binary, ['--no-playlist', ...args, '--', url], timeoutMs);
+  }
+
+  async probe(url: string): Promise<VideoInfo> {
+    const { stdout } = await this.run(
+      url,
+      ['--dump-single-json', '--skip-download', '-f', 'bestaudio/best'],
+      PROBE_TIMEOUT_MS
+    );
+    const info = JSON.parse(stdout);
+    const audioBytes = info.filesize ?? info.filesize_approx;
+    return {
+      durationSeconds: typeof info.duration === 'number' ? info.duration : null,
+      audioBytes: typeof audioBytes === 'number' ? audioBytes : null,
+      title: typeof info.title === 'string' ? info.title : undefined,
+    };
+  }
+
+  async fetchCaptions(url: string): Promise<CaptionFile | null> {
+    const dir = mkdtempSync(join(tmpdir(), 'captions-'));
+    try {
+      // Prefer English manual subtitles, fall back to auto-generated ones
+      await this.run(
+        url,
+        [
+          '--write-auto-sub', '--write-sub',
+          '--sub-lang', 'en,en-US,en-GB',
+          '--skip-download',
+          '-o', join(dir, 'captions.%(ext)s'),
+        ],
+        CAPTIONS_TIMEOUT_MS
+      );
+
+      const files = readdirSync(dir);
+      for (const format of CAPTION_FORMATS) {
+        const file = files.find(name => name.endsWith(`.${format}`));
+        if (file) {
+          return { format, content: readFileSync(join(dir, file), 'utf-8') };
+        }
+      }
+      return null;
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }
+
+  async downloadAudio(url: string): Promise<AudioFile> {
+    checkVideoLimits(await this.probe(url), this.limits);
+
+    const dir = mkdtempSync(join(tmpdir(), 'audio-'));
+    try {
+      // -f bestaudio gets audio directly without requiring ffmpeg; prefer m4a/webm
+      await this.run(
+        url,
+        [
+          '-f', 'bestaudio[ext=m4a]/bestaudio[ext=webm]/bestaudio',
+          '--max-filesize', String(this.limits.maxAudioBytes),
+          '-o', join(dir, 'audio.%(ext)s'),
+        ],
+        AUDIO_TIMEOUT_MS
+      );
+
+      // yt-dlp skips (exit 0, no file) downloads over --max-filesize
+      const file = readdirSync(dir).find(name => !name.endsWith('.part'));
+      if (!file) {
+        throw new VideoLimitError(`Video audio is too large (limit ${formatMegabytes(this.limits.maxAudioBytes)})`);
+      }
+
+      const path = join(dir, file);
+      const bytes = statSync(path).size;
+      if (bytes > this.limits.maxAudioBytes) {
+        throw new VideoLimitError(
+          `Video audio is too large (${formatMegabytes(bytes)}, limit ${formatMegabytes(this.limits.maxAudioBytes)})`
+        );
+      }
+
+      const ext = file.split('.').pop()?.toLowerCase() || 'm4a';
+      return {
+        buffer: readFileSync(path),
+        format: AUDIO_FORMATS.includes(ext) ? ext : 'm4a',
+      };
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+export interface FakeVideoOptions {
+  info?: Partial<VideoInfo>;
+  captions?: CaptionFile | null;
+  audio?: AudioFile;
+  // Make every call reject with this error (e.g. to test retries)
+  error?: Error;
+}
+
+// Canned responses, no network or binary; records the URLs it was asked for
+export class FakeVideoDownloader implements VideoDownloader {
+  calls: Array<{ method: keyof VideoDownloader; url: string }> = [];
+
+  constructor(private options: FakeVideoOptions = {}, private limits: VideoLimits = getVideoLimits()) {}
+
+  private record(method: keyof VideoDownloader, url: string): void {
+    this.calls.push({ method, url });
+    if (this.options.error) {
+      throw this.options.error;
+    }
+  }
+
+  async probe(url: string): Promise<VideoInfo> {
+    this.record('probe', url);
+    return { durationSeconds: 30, audioBytes: null, ...this.options.info };
+  }
+
+  async fetchCaptions(url: string): Promise<CaptionFile | null> {
+    this.record('fetchCaptions', url);
+    return this.options.captions ?? null;
+  }
+
+  async downloadAudio(url: string): Promise<AudioFile> {
+    checkVideoLimits(await this.probe(url), this.limits);
+    this.record('downloadAudio', url);
+    return this.options.audio ?? { buffer: Buffer.alloc(1024), format: 'm4a' };
+  }
+}
+
+let downloader: VideoDownloader | null = null;
+
+export function getVideoDownloader(): VideoDownloader {
+  if (!downloader) {
+    downloader = new YtDlpDownloader();
+  }
+  return downloader;
+}
+
+// Override the downloader (e.g. inject FakeVideoDownloader in tests)
+export function setVideoDownloader(override: VideoDownloader | null): void {
+  downloader = override;
+}
@@ -0,0 +1,68 @@
+// Duplicate detection
+// Links and videos are the same item when their URLs canonicalize to the same form (see urls.ts):
+// saves of a URL already in the vault are refused unless forced. Items store their canonical URL
+// and storage keeps it unique per user, so concurrent saves can't both get through (forced saves
+// store none). The duplicates report also lists near-duplicates: link and video items with the
+// same title under different URLs (e.g. an article syndicated on two sites)
+
+import { Item } from '../shared/schema';
+import { storage } from './storage';
+import { canonicalUrl } from './urls';
+
+export interface DuplicateGroup {
+  reason: 'url' | 'title';
+  key: string; // canonical URL, or normalized title
+  items: Item[]; // newest first
+}
+
+// Titles shorter than this ("Video", "Untitled") are too generic to match on
+const MIN_TITLE_KEY_LENGTH = 12;
+
+// The user's item saved under the same canonical URL (null if none). Videos whose processing
+// failed don't count, so they can be saved again
+export async function findSavedItem(userId: string, url: string): Promise<Item | null> {
+  return storage.getItemByCanonicalUrl(userId, canonicalUrl(url));
+}
+
+function titleKey(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+// Items with an equal key, in groups of two or more
+function groupBy(items: Item[], key: (item: Item) => string | null): Map<string, Item[]> {
+  const groups = new Map<string, Item[]>();
+  for (const item of items) {
+    const value = key(item);
+    if (!value) continue;
+    groups.set(value, [...(groups.get(value) || []), item]);
+  }
+  for (const [value, group] of groups) {
+    if (group.length < 2) groups.delete(value);
+  }
+  return groups;
+}
+
+// Duplicate and near-duplicate items already in the vault
+export async function findDuplicateGroups(userId: string): Promise<DuplicateGroup[]> {
+  const items = (await storage.getItemsByUserId(userId))
+    .filter(item => item.type !== 'note' && item.status !== 'failed');
+
+  const byUrl = groupBy(items, item => (item.url ? canonicalUrl(item.url) : null));
+  const groups: DuplicateGroup[] = Array.from(byUrl, ([key, group]) => ({ reason: 'url' as const, key, items: group }));
+
+  // Same title is reported only when it adds something: not for items that already share a URL
+  const urlGroupOf = new Map<string, string>();
+  byUrl.forEach((group, key) => group.forEach(item => urlGroupOf.set(item.id, key)));
+  const byTitle = groupBy(items, item => {
+    const key = titleKey(item.title);
+    return key.length >= MIN_TITLE_KEY_LENGTH ? key : null;
+  });
+  for (const [key, group] of byTitle) {
+    const urlGroups = new Set(group.map(item => urlGroupOf.get(item.id) ?? item.id));
+    if (urlGroups.size > 1) {
+      groups.push({ reason: 'title', key, items: group });
+    }
+  }
+
+  return groups;
+}
@@ -0,0 +1,152 @@
+// Text embeddings for semantic search and related items
+// Provider is chosen by EMBEDDING_PROVIDER: ai (the configured AI provider, see aiProvider.ts;
+// "openai" is accepted too) or local (a deterministic hashing stub, no network, stable output).
+// Defaults to the AI provider when one is configured, otherwise to the stub
+
+import { Item } from '../shared/schema';
+import { tokenize } from './searchIndex';
+import { recordEmbeddingUsage } from './usage';
+import { AIProvider, getAIProvider, isAIProviderConfigured, modelChain } from './aiProvider';
+
+export interface EmbeddingProvider {
+  // Identifies the vector space; embeddings from different models are never compared
+  model: string;
+  // onUsage receives the billed token count, for providers that report one
+  embed(texts: string[], onUsage?: (tokens: number) => void): Promise<number[][]>;
+}
+
+export interface ItemEmbedding {
+  model: string;
+  vector: number[];
+}
+
+export interface SimilarItem {
+  item: Item;
+  score: number;
+}
+
+// Max characters of item text sent for embedding (well under the model's token limit)
+const MAX_EMBEDDING_INPUT = 8000;
+const LOCAL_DIMENSIONS = 256;
+
+// Embeddings from the AI provider, with the first model of its embed chain (vectors from
+// different models can't be compared, so there is no fallback to the next one)
+export class AIEmbeddingProvider implements EmbeddingProvider {
+  model: string;
+
+  constructor(private aiProvider: AIProvider, model = modelChain('embed', aiProvider)[0]) {
+    this.model = model;
+  }
+
+  async embed(texts: string[], onUsage?: (tokens: number) => void): Promise<number[][]> {
+    const { vectors, tokens } = await this.aiProvider.embed(this.model, texts);
+    onUsage?.(tokens);
+    return vectors;
+  }
+}
+
+// FNV-1a hash, used to map terms onto vector dimensions
+function hashTerm(term: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Deterministic bag-of-words embedding (feature hashing); good enough for keyword-level
+// similarity in development and tests, with no API key or network required
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  model = `local-hash-${LOCAL_DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+      for (const term of tokenize(text)) {
+        const hash = hashTerm(term);
+        vector[hash % LOCAL_DIMENSIONS] += (hash & 0x80000000) ? -1 : 1;
+      }
+      return normalize(vector);
+    });
+  }
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// Top-k candidates by cosine similarity to the query vector (shared by both storage backends)
+export function rankBySimilarity<T = Item>(
+  query: number[],
+  candidates: Array<{ item: T; vector: number[] }>,
+  limit: number
+): Array<{ item: T; score: number }> {
+  return candidates
+    .map(({ item, vector }) => ({ item, score: cosineSimilarity(query, vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+let provider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (provider) {
+    return provider;
+  }
+
+  const configured = process.env.EMBEDDING_PROVIDER;
+  if (configured === 'local' || (!configured && !isAIProviderConfigured())) {
+    console.log('🧭 Using local embedding provider (deterministic stub)');
+    provider = new LocalEmbeddingProvider();
+  } else {
+    // Throws if no AI provider is configured
+    provider = new AIEmbeddingProvider(getAIProvider());
+  }
+  return provider;
+}
+
+// Override the provider (e.g. inject LocalEmbeddingProvider in tests)
+export function setEmbeddingProvider(override: EmbeddingProvider | null): void {
+  provider = override;
+}
+
+// Text that represents an item in embedding space
+export function itemEmbeddingText(item: Item): string {
+  const parts = [
+    item.title,
+    item.summary,
+    item.category,
+    item.tags.join(', '),
+    item.userNotes,
+    item.content,
+    item.article?.text,
+    item.videoData?.transcript,
+  ];
+  return parts.filter(Boolean).join('\n').substring(0, MAX_EMBEDDING_INPUT);
+}
+
+// Token usage is metered against userId when the provider reports it
+export async function embedText(text: string, userId?: string): Promise<ItemEmbedding> {
+  const embeddingProvider = getEmbeddingProvider();
+  let tokens = 0;
+  const [vector] = await embeddingProvider.embed([text.substring(0, MAX_EMBEDDING_INPUT)], used => { tokens = used; });
+  if (tokens > 0) {
+    await recordEmbeddingUsage(userId, embeddingProvider.model, tokens);
+  }
+  return { model: embeddingProvider.model, vector };
+}
@@ -0,0 +1,126 @@
+// Sign-in identities: Google and Apple accounts (and magic-link email addresses) linked to SmartVault users
+// Users are found by provider + subject (the provider's stable user id). Email only matters the
+// first time an identity is seen: a verified address that belongs to an existing user attaches
+// the identity to that user. Other providers are added explicitly with linkIdentity, which is how
+// an Apple private-relay sign-in joins the same vault as a Google one
+
+import { IdentityProvider, User, UserIdentity } from '../shared/schema';
+import { storage } from './storage';
+
+// A provider account whose token has been verified
+export interface VerifiedIdentity {
+  provider: IdentityProvider;
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+}
+
+// Profile fields to store on the user; omitted fields are left unchanged
+export type ProfileUpdate = Partial<Pick<User, 'firstName' | 'lastName' | 'profileImageUrl'>>;
+
+// Linking or unlinking that would merge or orphan accounts
+export class AccountLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountLinkError';
+  }
+}
+
+const PROVIDER_LABELS: Record<IdentityProvider, string> = {
+  google: 'Google',
+  apple: 'Apple',
+  email: 'email',
+};
+
+// Users without a usable address get a unique placeholder (users.email is required and unique)
+const PLACEHOLDER_DOMAINS: Record<IdentityProvider, string> = {
+  google: 'google.invalid',
+  apple: 'appleid.invalid',
+  email: 'email.invalid', // unused: email identities are always verified
+};
+
+// The user a verified sign-in belongs to, created on first sign-in
+export async function signInWithIdentity(verified: VerifiedIdentity, profile: ProfileUpdate = {}): Promise<User> {
+  const existing = await storage.getUserIdentity(verified.provider, verified.subject);
+  if (existing) {
+    const user = await storage.getUserById(existing.userId);
+    if (!user) {
+      throw new Error(`User ${existing.userId} not found`);
+    }
+    await storage.touchUserIdentity(existing.id, verified.email);
+    return Object.keys(profile).length > 0
+      ? storage.upsertUser({ email: user.email, ...profile })
+      : user;
+  }
+
+  // First sign-in with this identity: attach it to the account with the same verified email,
+  // otherwise create one. Unverified addresses are never trusted for either
+  const email = verified.email && verified.emailVerified
+    ? verified.email
+    : `${verified.subject}@${PLACEHOLDER_DOMAINS[verified.provider]}`;
+  const owner = await storage.getUserByEmail(email);
+  if (owner) {
+    const linked = await storage.getUserIdentities(owner.id);
+    if (linked.some(identity => identity.provider === verified.provider)) {
+      throw new AccountLinkError(`This email is already linked to a different ${PROVIDER_LABELS[verified.provider]} account`);
+    }
+  }
+
+  const user = await storage.upsertUser({
+    email,
+    ...(owner ? profile : { firstName: null, lastName: null, ...profile }),
+  });
+  await storage.createUserIdentity({
+    userId: user.id,
+    provider: verified.provider,
+    subject: verified.subject,
+    email: verified.email,
+  });
+
+  console.log(`🔗 ${PROVIDER_LABELS[verified.provider]} identity linked to ${owner ? 'existing' : 'new'} user ${user.id}`);
+  return user;
+}
+
+// Add a verified identity to the signed-in user
+export async function linkIdentity(userId: string, verified: VerifiedIdentity): Promise<UserIdentity> {
+  const existing = await storage.getUserIdentity(verified.provider, verified.subject);
+  if (existing) {
+    if (existing.userId !== userId) {
+      throw new AccountLinkError(`This ${PROVIDER_LABELS[verified.provider]} account is already linked to another SmartVault account`);
+    }
+    await storage.touchUserIdentity(existing.id, verified.email);
+    return existing;
+  }
+
+  const identity = await storage.createUserIdentity({
+    userId,
+    provider: verified.provider,
+    subject: verified.subject,
+    email: verified.email,
+  });
+  console.log(`🔗 ${PROVIDER_LABELS[verified.provider]} identity linked to user ${userId}`);
+  return identity;
+}
+
+// Remove an identity from the user; the last one can't be removed (the account would be unreachable)
+export async function unlinkIdentity(userId: string, identityId: string): Promise<boolean> {
+  const identities = await storage.getUserIdentities(userId);
+  if (!identities.some(identity => identity.id === identityId)) {
+    return false;
+  }
+  if (identities.length === 1) {
+    throw new AccountLinkError('Cannot unlink your only sign-in method');
+  }
+  return storage.deleteUserIdentity(identityId, userId);
+}
+
+// Client-facing shape (the provider's subject id stays on the server)
+export function serializeIdentity(identity: UserIdentity) {
+  return {
+    id: identity.id,
+    provider: identity.provider,
+    email: identity.email,
+    createdAt: identity.createdAt,
+    lastUsedAt: identity.lastUsedAt,
+  };
+}
@@ -0,0 +1,268 @@
+// Ingestion pipeline steps shared by the save routes and background jobs
+
+import { Item, StructuredContent } from '../shared/schema';
+import { storage } from './storage';
+import { extractMetadata, Metadata } from './metadata';
+import { looksLikeInstructions } from './structuredData';
+import { linkDataText } from './linkExtractors';
+import { analyzeContent } from './ai';
+import { processVideo } from './video';
+import { VideoLimitError } from './downloader';
+import { SafeFetchError } from './safeFetch';
+import { transformVideoContent } from './videoAI';
+import { embedText, itemEmbeddingText } from './embeddings';
+import { JobContext } from './jobs';
+import { ProgressReporter } from './progress';
+import { QuotaExceededError, assertWithinQuota } from './usage';
+import { canonicalUrl } from './urls';
+
+export interface VideoIngestPayload {
+  url: string;
+  platform: 'tiktok' | 'instagram' | 'youtube';
+}
+
+// Helper function to clean and summarize video titles
+export function cleanVideoTitle(rawTitle: string): string {
+  if (!rawTitle) return '';
+
+  let cleaned = rawTitle;
+
+  // Remove hashtags (words starting with #)
+  cleaned = cleaned.replace(/#\w+/g, '').trim();
+
+  // Remove common social media prefixes (e.g., "Jake Hurley on Instagram:")
+  cleaned = cleaned.replace(/^[^:]+:\s*/i, '').trim();
+
+  // Remove quotes if the entire title is wrapped in them
+  cleaned = cleaned.replace(/^["']|["']$/g, '').trim();
+
+  // Remove extra whitespace and normalize
+  cleaned = cleaned.replace(/\s+/g, ' ').trim();
+
+  // Truncate to max 100 characters, but try to break at word boundary
+  const maxLength = 100;
+  if (cleaned.length > maxLength) {
+    cleaned = cleaned.substring(0, maxLength);
+    const lastSpace = cleaned.lastIndexOf(' ');
+    if (lastSpace > maxLength * 0.7) { // Only truncate at word if we're not losing too much
+      cleaned = cleaned.substring(0, lastSpace);
+    }
+    cleaned = cleaned.trim() + '...';
+  }
+
+  return cleaned || 'Video';
+}
+
+// Generate and store an item's embedding; failures are logged, never fail the save
+export async function embedItem(item: Item): Promise<void> {
+  try {
+    const embedding = await embedText(itemEmbeddingText(item), item.userId);
+    await storage.setItemEmbedding(item.id, embedding);
+  } catch (error: any) {
+    console.warn(`⚠️ Failed to embed item ${item.id}: ${error.message}`);
+  }
+}
+
+// User-facing explanation of an AI analysis failure
+export function describeAIError(error: any, fallback: string): string {
+  if (error.message?.includes('quota') || error.message?.includes('billing')) {
+    return 'OpenAI quota exceeded. Please check your billing or use a different API key. The app will use fallback categorization.';
+  }
+  if (error.message?.includes('model') || error.message?.includes('gpt')) {
+    return 'AI service error. Please check your OpenAI API key and model access.';
+  }
+  return error.message || fallback;
+}
+
+// Category, summary, tags and (when found) structured content for a fetched page
+// schema.org data on the page wins; the AI only extracts steps itself when there is none
+// and the page text looks like a recipe, workout or how-to
+async function analyzeLink(
+  userId: string,
+  url: string,
+  metadata: Metadata,
+  categories: string[] | null
+): Promise<{ category: string; summary: string; tags: string[]; fallback: boolean; structuredContent?: StructuredContent }> {
+  // The extracted article is cleaner than the whole page text (no menus, comments, footers)
+  const pageText = metadata.article?.text || metadata.text;
+  if (!metadata.structuredContent && looksLikeInstructions(pageText)) {
+    try {
+      const analysis = await transformVideoContent(pageText, url, { categories, source: 'page', userId });
+      if (analysis.structuredContent.type !== 'general') {
+        return {
+          category: analysis.category,
+          summary: analysis.summary,
+          tags: analysis.tags,
+          fallback: false,
+          structuredContent: analysis.structuredContent,
+        };
+      }
+    } catch (error: any) {
+      console.warn(`⚠️ AI structuring failed for ${url}: ${error.message}`);
+    }
+  }
+
+  // Summarize the full article and extracted text (README, thread) when there is some, not just the meta description
+  const content = [
+    metadata.description,
+    metadata.linkData && linkDataText(metadata.linkData),
+    metadata.article?.text,
+  ].filter(Boolean).join('\n\n') || null;
+  const aiAnalysis = await analyzeContent(
+    metadata.title,
+    content,
+    { url: url, categories, userId }
+  );
+  return {
+    category: aiAnalysis.category,
+    summary: aiAnalysis.summary,
+    tags: aiAnalysis.tags,
+    fallback: aiAnalysis.fallback,
+    ...(metadata.structuredContent && { structuredContent: metadata.structuredContent }),
+  };
+}
+
+// Fetch, analyze and save a link; stages are reported for streamed (SSE) saves
+// Rejects with DuplicateItemError if the URL got saved in the meantime, unless `force` is set
+export async function ingestLink(
+  userId: string,
+  url: string,
+  report: ProgressReporter = () => {},
+  options: { force?: boolean } = {}
+): Promise<Item> {
+  // Extract metadata (including schema.org Recipe/HowTo/ExercisePlan data and the article text)
+  report('fetching_metadata');
+  const metadata = await extractMetadata(url);
+
+  // Analyze with AI (pass URL for better context, constrain to the user's categories)
+  report('analyzing', {
+    title: metadata.title,
+    structuredData: metadata.structuredContent?.type ?? null,
+    linkData: metadata.linkData?.kind ?? null,
+  });
+  const categories = await storage.getPreferredCategories(userId);
+  const analysis = await analyzeLink(userId, url, metadata, categories);
+
+  // Save to database
+  report('saving');
+  const item = await storage.createItem({
+    userId: userId,
+    type: 'link',
+    title: metadata.title,
+    summary: analysis.summary,
+    category: analysis.category,
+    tags: analysis.tags,
+    aiFallback: analysis.fallback,
+    url: url,
+    canonicalUrl: options.force ? undefined : canonicalUrl(url),
+    imageUrl: metadata.imageUrl || undefined,
+    structuredContent: analysis.structuredContent,
+    article: metadata.article || undefined,
+    linkData: metadata.linkData || undefined,
+  });
+
+  await embedItem(item);
+  return item;
+}
+
+// User-facing explanation of a video pipeline failure
+export function describeVideoError(error: any): string {
+  if (error instanceof VideoLimitError || error instanceof SafeFetchError || error instanceof QuotaExceededError) {
+    return error.message;
+  }
+  if (error.message?.includes('yt-dlp') || error.message?.includes('extract')) {
+    return 'Failed to extract audio from video. Make sure yt-dlp is installed and the video is accessible.';
+  }
+  if (error.message?.includes('Whisper') || error.message?.includes('transcribe')) {
+    return 'Failed to transcribe audio. Please check your OpenAI API key and Whisper access.';
+  }
+  if (error.message?.includes('quota') || error.message?.includes('billing')) {
+    return 'OpenAI quota exceeded. Please check your billing.';
+  }
+  return error.message || 'Failed to save video';
+}
+
+// Job handler: transcribe, structure and fill in a 'processing' video item
+export async function runVideoIngest({ job, setStage, report }: JobContext): Promise<void> {
+  const { url, platform } = job.payload as VideoIngestPayload;
+  if (!job.itemId) {
+    throw new Error('Video ingest job has no item');
+  }
+
+  // The user may have deleted the placeholder item while the job was queued
+  const existing = await storage.getItemById(job.itemId, job.userId);
+  if (!existing) {
+    console.log(`   Item ${job.itemId} no longer exists, skipping`);
+    return;
+  }
+
+  // Checked again here: the quota may have run out while the job was queued (not retried)
+  await assertWithinQuota(job.userId, { audio: true });
+
+  console.log(`📹 Processing ${platform} video: ${url}`);
+
+  // Step 1: Extract captions, or audio + transcription (reports its own stages)
+  const { text: transcript, segments } = await processVideo(url, report, job.userId);
+
+  if (!transcript || transcript.trim().length === 0) {
+    throw new Error('Failed to transcribe video audio');
+  }
+
+  // Step 2: Transform transcript into structured content (includes AI-generated title)
+  await setStage('structuring');
+  const categories = await storage.getPreferredCategories(job.userId);
+  const aiAnalysis = await transformVideoContent(transcript, url, { categories, segments, userId: job.userId });
+
+  // Step 3: Use AI-generated title (prioritized) or fallback to metadata
+  await setStage('metadata');
+  let title = aiAnalysis.title || `Video from ${platform}`;
+  let imageUrl: string | undefined;
+
+  try {
+    const metadata = await extractMetadata(url);
+    // Only use metadata title if AI didn't generate a good one
+    if (!aiAnalysis.title || aiAnalysis.title === 'Video' || aiAnalysis.title.length < 5) {
+      if (metadata.title) {
+        // Clean and summarize title: remove hashtags, emojis, and truncate
+        title = cleanVideoTitle(metadata.title);
+      }
+    }
+    imageUrl = metadata.imageUrl || undefined;
+  } catch (e) {
+    // Metadata extraction is optional, continue without it
+    console.warn('Metadata extraction failed, using AI-generated title');
+  }
+
+  // Step 4: Fill in the item
+  await setStage('saving');
+  const item = await storage.updateItem(job.itemId, job.userId, {
+    status: 'ready',
+    title: title,
+    summary: aiAnalysis.summary,
+    category: aiAnalysis.category,
+    tags: aiAnalysis.tags,
+    aiFallback: aiAnalysis.fallback,
+    imageUrl: imageUrl,
+    videoData: {
+      platform: platform,
+      transcript: transcript,
+      segments: segments,
+      chapters: aiAnalysis.chapters,
+      structuredContent: aiAnalysis.structuredContent,
+    },
+  });
+
+  if (item) {
+    await embedItem(item);
+    console.log(`✅ Video saved successfully: ${item.id}`);
+  }
+}
+
+// Final failure: keep the item (with its URL) but mark it failed with a readable reason
+export async function markVideoIngestFailed(job: { itemId: string | null; userId: string }, error: Error): Promise<void> {
+  if (!job.itemId) return;
+  await storage.updateItem(job.itemId, job.userId, {
+    status: 'failed',
+    summary: describeVideoError(error),
+  });
+}
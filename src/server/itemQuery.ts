@@ -0,0 +1,191 @@
+// Item list query: filters, sorting and cursor-based pagination shared by both storage backends
+
+import { Item } from '../shared/schema';
+import { normalizeTag } from './tags';
+
+export type ItemSort = 'newest' | 'oldest' | 'title_asc' | 'title_desc';
+
+export interface ItemFilters {
+  type?: Item['type'];
+  category?: string;
+  tag?: string;
+  platform?: 'tiktok' | 'instagram' | 'youtube';
+  contentType?: 'recipe' | 'workout' | 'tutorial' | 'general';
+  aiFallback?: boolean; // items saved with fallback output instead of the AI's analysis
+  createdAfter?: Date; // inclusive
+  createdBefore?: Date; // exclusive
+}
+
+export interface ItemQuery extends ItemFilters {
+  sort: ItemSort;
+  limit: number;
+  cursor?: ItemCursor;
+}
+
+export interface ItemPage {
+  items: Item[];
+  nextCursor: string | null;
+}
+
+// Position of the last item on a page: its sort key plus id as a tie-breaker
+export interface ItemCursor {
+  key: string;
+  id: string;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+const ITEM_TYPES: Item['type'][] = ['link', 'note', 'video'];
+const PLATFORMS: ItemFilters['platform'][] = ['tiktok', 'instagram', 'youtube'];
+const CONTENT_TYPES: ItemFilters['contentType'][] = ['recipe', 'workout', 'tutorial', 'general'];
+const SORTS: ItemSort[] = ['newest', 'oldest', 'title_asc', 'title_desc'];
+
+// Sort key for an item under the given sort order (what the cursor records)
+export function sortKey(item: Item, sort: ItemSort): string {
+  return sort === 'title_asc' || sort === 'title_desc'
+    ? item.title
+    : item.createdAt.toISOString();
+}
+
+export function encodeCursor(item: Item, sort: ItemSort): string {
+  const cursor: ItemCursor = { key: sortKey(item, sort), id: item.id };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(value: string): ItemCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'));
+    if (typeof parsed?.key === 'string' && typeof parsed?.id === 'string') {
+      return { key: parsed.key, id: parsed.id };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+// Whether the sort order is descending (newest first / Z-A)
+export function isDescending(sort: ItemSort): boolean {
+  return sort === 'newest' || sort === 'title_desc';
+}
+
+function parseDate(value: unknown): Date | null | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function parseEnum<T>(value: unknown, allowed: T[]): T | null | undefined {
+  if (value === undefined || value === '') return undefined;
+  return allowed.includes(value as T) ? (value as T) : null;
+}
+
+function parseBoolean(value: unknown): boolean | null | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return null;
+}
+
+function parseString(value: unknown): string | null | undefined {
+  if (value === undefined || value === '') return undefined;
+  return typeof value === 'string' ? value : null;
+}
+
+// Parse and validate filter parameters from a request query string
+export function parseItemFilters(query: Record<string, unknown>): { filters?: ItemFilters; error?: string } {
+  const filters: ItemFilters = {};
+
+  const type = parseEnum(query.type, ITEM_TYPES);
+  if (type === null) return { error: `type must be one of: ${ITEM_TYPES.join(', ')}` };
+  if (type) filters.type = type;
+
+  const category = parseString(query.category);
+  if (category === null) return { error: 'category must be a string' };
+  if (category) filters.category = category;
+
+  const tag = parseString(query.tag);
+  if (tag === null) return { error: 'tag must be a string' };
+  if (tag) filters.tag = normalizeTag(tag) || tag;
+
+  const platform = parseEnum(query.platform, PLATFORMS);
+  if (platform === null) return { error: `platform must be one of: ${PLATFORMS.join(', ')}` };
+  if (platform) filters.platform = platform;
+
+  const contentType = parseEnum(query.contentType, CONTENT_TYPES);
+  if (contentType === null) return { error: `contentType must be one of: ${CONTENT_TYPES.join(', ')}` };
+  if (contentType) filters.contentType = contentType;
+
+  const aiFallback = parseBoolean(query.aiFallback);
+  if (aiFallback === null) return { error: 'aiFallback must be true or false' };
+  if (aiFallback !== undefined) filters.aiFallback = aiFallback;
+
+  const from = parseDate(query.from);
+  if (from === null) return { error: 'from must be an ISO 8601 date' };
+  if (from) filters.createdAfter = from;
+
+  const to = parseDate(query.to);
+  if (to === null) return { error: 'to must be an ISO 8601 date' };
+  if (to) filters.createdBefore = to;
+
+  return { filters };
+}
+
+// Parse and validate GET /items query parameters (filters + sort + pagination)
+export function parseItemQuery(query: Record<string, unknown>): { query?: ItemQuery; error?: string } {
+  const { filters, error } = parseItemFilters(query);
+  if (!filters) return { error };
+
+  const sort = parseEnum(query.sort, SORTS);
+  if (sort === null) return { error: `sort must be one of: ${SORTS.join(', ')}` };
+
+  let limit = DEFAULT_PAGE_SIZE;
+  if (query.limit !== undefined) {
+    limit = parseInt(String(query.limit), 10);
+    if (isNaN(limit) || limit < 1) return { error: 'limit must be a positive integer' };
+    limit = Math.min(limit, MAX_PAGE_SIZE);
+  }
+
+  let cursor: ItemCursor | undefined;
+  if (query.cursor !== undefined && query.cursor !== '') {
+    const decoded = typeof query.cursor === 'string' ? decodeCursor(query.cursor) : null;
+    if (!decoded) return { error: 'Invalid cursor' };
+    cursor = decoded;
+  }
+
+  return { query: { ...filters, sort: sort || 'newest', limit, cursor } };
+}
+
+// In-memory filter predicate (used by MemStorage)
+export function matchesFilters(item: Item, filters: ItemFilters): boolean {
+  if (filters.type && item.type !== filters.type) return false;
+  if (filters.category && item.category !== filters.category) return false;
+  if (filters.tag && !item.tags.includes(filters.tag)) return false;
+  if (filters.platform && item.videoData?.platform !== filters.platform) return false;
+  if (filters.contentType && (item.structuredContent || item.videoData?.structuredContent)?.type !== filters.contentType) return false;
+  if (filters.aiFallback !== undefined && Boolean(item.aiFallback) !== filters.aiFallback) return false;
+  if (filters.createdAfter && item.createdAt < filters.createdAfter) return false;
+  if (filters.createdBefore && item.createdAt >= filters.createdBefore) return false;
+  return true;
+}
+
+// Ascending comparison of (sort key, id) pairs
+function compareKeys(keyA: string, idA: string, keyB: string, idB: string): number {
+  if (keyA !== keyB) return keyA < keyB ? -1 : 1;
+  if (idA !== idB) return idA < idB ? -1 : 1;
+  return 0;
+}
+
+// In-memory comparator matching the SQL ORDER BY used by PgStorage
+export function compareItems(a: Item, b: Item, sort: ItemSort): number {
+  const result = compareKeys(sortKey(a, sort), a.id, sortKey(b, sort), b.id);
+  return isDescending(sort) ? -result : result;
+}
+
+// Whether an item comes strictly after the cursor position in the given sort order
+export function isAfterCursor(item: Item, cursor: ItemCursor, sort: ItemSort): boolean {
+  const result = compareKeys(sortKey(item, sort), item.id, cursor.key, cursor.id);
+  return isDescending(sort) ? result < 0 : result > 0;
+}
@@ -0,0 +1,226 @@
+// Persistent background job queue
+// Jobs are stored through IStorage (PostgreSQL survives restarts); a polling worker claims
+// due jobs, runs the registered handler and retries failures with exponential backoff.
+// Workers renew the locks of their running jobs every minute; a job whose lock goes stale
+// belonged to a worker that died and is requeued (or failed, after its last attempt)
+
+import { Job } from '../shared/schema';
+import { storage, NewJob } from './storage';
+import { progressBus, ProgressReporter } from './progress';
+
+export interface JobContext {
+  job: Job;
+  // Record the current pipeline stage (GET /api/jobs/:id) and publish it to SSE subscribers
+  setStage(stage: string, detail?: Record<string, any>): Promise<void>;
+  // Fire-and-forget variant of setStage for pipeline callbacks
+  report: ProgressReporter;
+}
+
+// Handlers fail a job by throwing; errors with `retryable: false` skip the remaining attempts
+export type JobHandler = (context: JobContext) => Promise<void>;
+
+// Called once a job has failed for the last time (e.g. to mark its item as failed)
+export type JobFailureHandler = (job: Job, error: Error) => Promise<void>;
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000', 10);
+const CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || '2', 10);
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+// A running job whose lock wasn't renewed for this long is assumed to belong to a dead worker
+const STALE_JOB_MS = 15 * 60 * 1000;
+const STALE_CHECK_INTERVAL_MS = 60 * 1000;
+const INTERRUPTED_ERROR = 'The server stopped while processing this job';
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Public view of a job for API responses
+export function serializeJob(job: Job) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    stage: job.stage,
+    itemId: job.itemId,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
+
+export class JobQueue {
+  private handlers: Map<Job['type'], { run: JobHandler; onFailure?: JobFailureHandler }> = new Map();
+  private running = 0;
+  private active: Set<string> = new Set(); // ids of the jobs this worker is running
+  private timer: NodeJS.Timeout | null = null;
+  private staleTimer: NodeJS.Timeout | null = null;
+  private stopped = true;
+  private polling = false;
+
+  constructor(private options: { staleCheckIntervalMs?: number } = {}) {}
+
+  register(type: Job['type'], run: JobHandler, onFailure?: JobFailureHandler): void {
+    this.handlers.set(type, { run, onFailure });
+  }
+
+  async enqueue(job: Omit<NewJob, 'maxAttempts'> & { maxAttempts?: number }): Promise<Job> {
+    const created = await storage.createJob({
+      ...job,
+      maxAttempts: job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    });
+    console.log(`📥 Job queued: ${created.id} (${created.type})`);
+    this.poll();
+    return created;
+  }
+
+  async start(): Promise<void> {
+    if (!this.stopped) return;
+    this.stopped = false;
+
+    await this.recoverStaleJobs();
+    this.staleTimer = setInterval(() => void this.recoverStaleJobs(), this.options.staleCheckIntervalMs ?? STALE_CHECK_INTERVAL_MS);
+
+    console.log(`⚙️  Job worker started (concurrency ${CONCURRENCY})`);
+    this.schedule();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.staleTimer) {
+      clearInterval(this.staleTimer);
+      this.staleTimer = null;
+    }
+  }
+
+  // Renew the locks of this worker's jobs, then requeue or fail the jobs of dead workers
+  private async recoverStaleJobs(): Promise<void> {
+    try {
+      for (const id of this.active) {
+        await storage.updateJob(id, { lockedAt: new Date() });
+      }
+
+      const lockedBefore = new Date(Date.now() - STALE_JOB_MS);
+      const { requeued, failed } = await storage.recoverStaleJobs(lockedBefore, INTERRUPTED_ERROR);
+      if (requeued > 0) {
+        console.log(`♻️  Requeued ${requeued} interrupted job(s)`);
+        this.poll();
+      }
+      for (const job of failed) {
+        console.error(`❌ Job ${job.id} failed permanently: interrupted on its last attempt`);
+        await this.notifyFailure(job, new Error(INTERRUPTED_ERROR));
+      }
+    } catch (error: any) {
+      console.error('❌ Stale job check failed:', error.message);
+    }
+  }
+
+  private schedule(): void {
+    if (this.stopped) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.poll(), POLL_INTERVAL_MS);
+  }
+
+  // Claim and start jobs until the concurrency limit is reached or the queue is empty
+  private async poll(): Promise<void> {
+    if (this.stopped || this.polling) return;
+    this.polling = true;
+
+    try {
+      while (this.running < CONCURRENCY) {
+        const job = await storage.claimNextJob();
+        if (!job) break;
+        this.running++;
+        this.active.add(job.id);
+        // execute() records the job's outcome; if that update itself fails (e.g. the database is
+        // down) the job stays running until the next start requeues it
+        this.execute(job).catch((error: any) => {
+          console.error(`❌ Job ${job.id} could not be recorded:`, error?.message || error);
+        }).finally(() => {
+          this.running--;
+          this.active.delete(job.id);
+          this.poll();
+        });
+      }
+    } catch (error: any) {
+      console.error('❌ Job queue poll failed:', error.message);
+    } finally {
+      this.polling = false;
+    }
+
+    this.schedule();
+  }
+
+  private async execute(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      await storage.updateJob(job.id, { status: 'failed', error: `No handler for job type ${job.type}`, lockedAt: null });
+      return;
+    }
+
+    console.log(`▶️  Job ${job.id} started (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    const setStage = async (stage: string, detail?: Record<string, any>) => {
+      job.stage = stage;
+      progressBus.publish(job.id, { type: 'stage', stage, detail });
+      try {
+        await storage.updateJob(job.id, { stage });
+      } catch (error: any) {
+        console.warn(`   ⚠️ Failed to record stage for job ${job.id}: ${error.message}`);
+      }
+    };
+    const context: JobContext = {
+      job,
+      setStage,
+      report: (stage, detail) => {
+        void setStage(stage, detail);
+      },
+    };
+
+    try {
+      await handler.run(context);
+      await storage.updateJob(job.id, { status: 'completed', stage: 'done', error: null, lockedAt: null });
+      progressBus.publish(job.id, { type: 'completed' });
+      console.log(`✅ Job ${job.id} completed`);
+    } catch (error: any) {
+      const message = error?.message || 'Unknown error';
+
+      if (job.attempts < job.maxAttempts && error?.retryable !== false) {
+        // Exponential backoff: 30s, 60s, 120s, ...
+        const delay = RETRY_BASE_DELAY_MS * Math.pow(2, job.attempts - 1);
+        await storage.updateJob(job.id, {
+          status: 'queued',
+          error: message,
+          lockedAt: null,
+          runAt: new Date(Date.now() + delay),
+        });
+        progressBus.publish(job.id, { type: 'retrying', error: message, detail: { attempt: job.attempts, delayMs: delay } });
+        console.warn(`⚠️ Job ${job.id} failed (attempt ${job.attempts}), retrying in ${delay / 1000}s: ${message}`);
+        return;
+      }
+
+      const failed = await storage.updateJob(job.id, { status: 'failed', error: message, lockedAt: null });
+      console.error(`❌ Job ${job.id} failed permanently: ${message}`);
+      await this.notifyFailure(failed || job, error);
+    }
+  }
+
+  // Run the failure handler of a job that failed for the last time and tell subscribers
+  private async notifyFailure(job: Job, error: Error): Promise<void> {
+    const onFailure = this.handlers.get(job.type)?.onFailure;
+    if (onFailure) {
+      try {
+        await onFailure(job, error);
+      } catch (hookError: any) {
+        console.error(`   Failure handler for job ${job.id} threw: ${hookError.message}`);
+      }
+    }
+    progressBus.publish(job.id, { type: 'failed', error: error?.message || 'Unknown error' });
+  }
+}
+
+// Singleton queue used by the routes and started from index.ts
+export const jobQueue = new JobQueue();
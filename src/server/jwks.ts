@@ -0,0 +1,94 @@
+// JSON Web Key Set (JWKS) fetching and caching, used to verify Apple identity tokens
+// Keys are cached for a day; an unknown key id triggers a refetch (key rotation), at most once
+// per cooldown so tokens with made-up key ids can't hammer the key endpoint
+
+import { createPublicKey, KeyObject } from 'crypto';
+import { safeFetch } from './safeFetch';
+
+export interface Jwk {
+  kty: string;
+  kid?: string;
+  use?: string;
+  alg?: string;
+  [parameter: string]: unknown;
+}
+
+export type JwksFetcher = () => Promise<Jwk[]>;
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REFRESH_COOLDOWN_MS = 5 * 60 * 1000;
+const MAX_JWKS_BYTES = 256 * 1024;
+
+// Key set served over HTTPS (e.g. https://appleid.apple.com/auth/keys)
+export function httpJwksFetcher(url: string): JwksFetcher {
+  return async () => {
+    const response = await safeFetch(url, {
+      timeoutMs: 5000,
+      maxBytes: MAX_JWKS_BYTES,
+      allowedContentTypes: ['application/json'],
+    });
+    if (!response.ok) {
+      throw new Error(`JWKS request failed: HTTP ${response.status}`);
+    }
+    const body = JSON.parse(response.body.toString('utf-8'));
+    if (!Array.isArray(body?.keys)) {
+      throw new Error('JWKS response has no keys');
+    }
+    return body.keys;
+  };
+}
+
+export class JwksCache {
+  private keys = new Map<string, KeyObject>();
+  private fetchedAt = 0;
+  private pending: Promise<void> | null = null;
+
+  constructor(
+    private fetchKeys: JwksFetcher,
+    private ttlMs = DEFAULT_TTL_MS,
+    private refreshCooldownMs = DEFAULT_REFRESH_COOLDOWN_MS
+  ) {}
+
+  // Public key for a key id, or null if the key set doesn't have it
+  async getKey(kid: string): Promise<KeyObject | null> {
+    const age = Date.now() - this.fetchedAt;
+    const expired = age > this.ttlMs;
+    const rotated = !this.keys.has(kid) && age > this.refreshCooldownMs;
+
+    if (expired || rotated) {
+      try {
+        await this.refresh();
+      } catch (error: any) {
+        // Stale keys are better than none while the key endpoint is unreachable
+        if (this.keys.size === 0) throw error;
+        console.warn(`⚠️ JWKS refresh failed, using cached keys: ${error.message}`);
+      }
+    }
+
+    return this.keys.get(kid) || null;
+  }
+
+  // Concurrent callers share one request
+  private refresh(): Promise<void> {
+    if (!this.pending) {
+      this.pending = this.load().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async load(): Promise<void> {
+    const keys = new Map<string, KeyObject>();
+    for (const jwk of await this.fetchKeys()) {
+      if (!jwk.kid || jwk.kty !== 'RSA' || (jwk.use && jwk.use !== 'sig')) continue;
+      try {
+        keys.set(jwk.kid, createPublicKey({ key: jwk as any, format: 'jwk' }));
+      } catch {
+        // Skip malformed keys
+      }
+    }
+    this.keys = keys;
+    this.fetchedAt = Date.now();
+  }
+}
@@ -1,27 +1,52 @@
 // JWT token generation and verification
+// Access tokens are short-lived and tied to a device session (see sessions.ts), so logging out
+// or revoking a device takes effect immediately rather than when a long-lived token expires
 
 import jwt from 'jsonwebtoken';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
-const JWT_EXPIRY = process.env.JWT_EXPIRY || '30d';
+const DEV_JWT_SECRET = 'dev-secret-change-in-production';
+const MIN_SECRET_LENGTH = 32;
+
+const JWT_SECRET = process.env.JWT_SECRET || DEV_JWT_SECRET;
+export const ACCESS_TOKEN_EXPIRY = process.env.JWT_ACCESS_EXPIRY || '15m';
 
 export interface JWTPayload {
   userId: string;
   email: string;
+  sessionId: string;
+}
+
+// Refuse to run in production with the development fallback or a guessable secret
+export function assertJwtSecretConfigured(): void {
+  if (process.env.NODE_ENV !== 'production') return;
+
+  const secret = process.env.JWT_SECRET;
+  if (!secret || secret === DEV_JWT_SECRET) {
+    throw new Error('JWT_SECRET must be set in production');
+  }
+  if (secret.length < MIN_SECRET_LENGTH) {
+    throw new Error(`JWT_SECRET must be at least ${MIN_SECRET_LENGTH} characters`);
+  }
 }
 
 export function generateToken(payload: JWTPayload): string {
   return jwt.sign(payload, JWT_SECRET, {
-    expiresIn: JWT_EXPIRY,
+    expiresIn: ACCESS_TOKEN_EXPIRY,
+    algorithm: 'HS256',
   } as jwt.SignOptions);
 }
 
 export function verifyToken(token: string): JWTPayload | null {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
+    const decoded = jwt.verify(token, JWT_SECRET, { algorithms: ['HS256'] }) as JWTPayload;
     return decoded;
   } catch (error) {
     return null;
   }
 }
 
+// Lifetime of a freshly issued access token in seconds (for the client's refresh timer)
+export function accessTokenLifetime(token: string): number {
+  const decoded = jwt.decode(token) as { iat?: number; exp?: number } | null;
+  return decoded?.exp && decoded.iat ? decoded.exp - decoded.iat : 0;
+}
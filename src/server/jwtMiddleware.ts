@@ -2,6 +2,9 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken } from './jwt';
+import { isSessionActive } from './sessions';
+import { authenticateApiKey, isApiKey } from './apiKeys';
+import type { ApiKeyScope } from '../shared/schema';
 import { storage } from './storage';
 
 export interface AuthRequest extends Request {
@@ -11,6 +14,18 @@ export interface AuthRequest extends Request {
     firstName: string | null;
     lastName: string | null;
   };
+  sessionId?: string; // device session of the access token (absent for the dev token and API keys)
+  apiKeyId?: string; // set when authenticated with a personal API key
+  apiKeyScopes?: ApiKeyScope[]; // scopes the route accepts API keys with (see allowApiKeys)
+}
+
+// Storage failed (e.g. the database is down). Express 4 doesn't handle rejected promises from
+// middleware, so errors are answered here instead of leaving the request hanging
+function authUnavailable(res: Response, error: any): void {
+  console.error('Authentication error:', error?.message || error);
+  if (!res.headersSent) {
+    res.status(503).json({ error: 'Authentication is unavailable right now' });
+  }
 }
 
 export async function jwtAuthMiddleware(
@@ -18,45 +33,94 @@ export async function jwtAuthMiddleware(
   res: Response,
   next: NextFunction
 ): Promise<void> {
-  // Check for dev token first (development only)
-  const devToken = req.headers['x-dev-token'];
-  if (devToken === 'dev' && process.env.NODE_ENV !== 'production') {
-    // Create or get dev user
-    const devUser = await storage.upsertUser({
-      id: 'dev-user-123',
-      email: 'dev@smartvault.app',
-      firstName: 'Dev',
-      lastName: 'User',
-    });
+  try {
+    // Check for dev token first (development only)
+    const devToken = req.headers['x-dev-token'];
+    if (devToken === 'dev' && process.env.NODE_ENV !== 'production') {
+      // Create or get dev user
+      const devUser = await storage.upsertUser({
+        id: 'dev-user-123',
+        email: 'dev@smartvault.app',
+        firstName: 'Dev',
+        lastName: 'User',
+      });
+
+      req.user = {
+        id: devUser.id,
+        email: devUser.email,
+        firstName: devUser.firstName,
+        lastName: devUser.lastName,
+      };
+      return next();
+    }
+
+    // Check for JWT token (or a personal API key, as Bearer token or X-API-Key header)
+    const authHeader = req.headers.authorization;
+    const apiKeyHeader = req.headers['x-api-key'];
+    const bearer = authHeader && authHeader.startsWith('Bearer ') ? authHeader.substring(7) : null;
+    if (typeof apiKeyHeader === 'string' || (bearer && isApiKey(bearer))) {
+      return await apiKeyAuth(req, res, next, typeof apiKeyHeader === 'string' ? apiKeyHeader : bearer!);
+    }
+
+    if (!bearer) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const payload = verifyToken(bearer);
+
+    if (!payload || !payload.sessionId) {
+      res.status(401).json({ error: 'Invalid token' });
+      return;
+    }
+
+    // Logged-out and revoked devices lose access immediately, not when the token expires
+    if (!(await isSessionActive(payload.sessionId, payload.userId))) {
+      res.status(401).json({ error: 'Session has ended' });
+      return;
+    }
+
+    // Get user from database
+    const user = await storage.getUserById(payload.userId);
+    if (!user) {
+      res.status(401).json({ error: 'User not found' });
+      return;
+    }
 
     req.user = {
-      id: devUser.id,
-      email: devUser.email,
-      firstName: devUser.firstName,
-      lastName: devUser.lastName,
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
     };
-    return next();
+    req.sessionId = payload.sessionId;
+
+    next();
+  } catch (error: any) {
+    authUnavailable(res, error);
   }
+}
 
-  // Check for JWT token
-  const authHeader = req.headers.authorization;
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    res.status(401).json({ error: 'Unauthorized' });
+async function apiKeyAuth(req: AuthRequest, res: Response, next: NextFunction, key: string): Promise<void> {
+  let result;
+  try {
+    result = await authenticateApiKey(key);
+  } catch (error: any) {
+    authUnavailable(res, error);
     return;
   }
-
-  const token = authHeader.substring(7);
-  const payload = verifyToken(token);
-
-  if (!payload) {
-    res.status(401).json({ error: 'Invalid token' });
+  if (!result) {
+    res.status(401).json({ error: 'Invalid API key' });
     return;
   }
 
-  // Get user from database
-  const user = await storage.getUserById(payload.userId);
-  if (!user) {
-    res.status(401).json({ error: 'User not found' });
+  const { apiKey, user } = result;
+  if (!req.apiKeyScopes) {
+    res.status(403).json({ error: 'API keys cannot access this endpoint' });
+    return;
+  }
+  if (!req.apiKeyScopes.some(scope => apiKey.scopes.includes(scope))) {
+    res.status(403).json({ error: `API key lacks the required scope (${req.apiKeyScopes.join(' or ')})` });
     return;
   }
 
@@ -66,7 +130,7 @@ export async function jwtAuthMiddleware(
     firstName: user.firstName,
     lastName: user.lastName,
   };
+  req.apiKeyId = apiKey.id;
 
   next();
 }
-
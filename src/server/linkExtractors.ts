@@ -0,0 +1,411 @@
+// Per-domain link extractors: typed data for known sites (GitHub repos, product pages,
+// X/Twitter and Reddit posts, podcast episodes), stored on the item as `linkData`
+// Extractors only read the already-fetched page; the first one that matches and returns data wins
+
+import type { CheerioAPI } from 'cheerio';
+import { LinkData } from '../shared/schema';
+import { SchemaNode, asArray, jsonLdNodes, nodeTypes, text as schemaText } from './structuredData';
+
+export interface LinkExtractorContext {
+  url: URL;
+  $: CheerioAPI;
+}
+
+export interface LinkExtractor {
+  name: string;
+  // Whether this extractor handles the page (by host, or by page markup for generic page types)
+  matches(context: LinkExtractorContext): boolean;
+  extract(context: LinkExtractorContext): LinkData | null;
+}
+
+const MAX_README = 5000;
+const MAX_POST_TEXT = 5000;
+const MAX_REPLIES = 10;
+
+function clean(value: string | undefined | null): string {
+  return (value || '').replace(/\s+/g, ' ').trim();
+}
+
+function meta($: CheerioAPI, key: string): string {
+  return clean($(`meta[property="${key}"]`).attr('content') || $(`meta[name="${key}"]`).attr('content'));
+}
+
+function host(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^(www|m|mobile|old|new|np)\./, '');
+}
+
+// "12,345", "12.3k", "1.2M" -> number
+export function parseCount(value: string | undefined | null): number | undefined {
+  const match = clean(value).replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*([kKmM])?/);
+  if (!match) return undefined;
+  const multiplier = match[2] ? (match[2].toLowerCase() === 'k' ? 1000 : 1000000) : 1;
+  return Math.round(parseFloat(match[1]) * multiplier);
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '€': 'EUR', '£': 'GBP', '₹': 'INR', '₩': 'KRW' };
+
+// "$1,299.99", "12,99 €", "EUR 12.99" -> price and currency (symbol kept when ambiguous, e.g. "$")
+export function parsePrice(value: string | undefined | null): { price?: number; currency?: string } {
+  const raw = clean(value);
+  const amount = raw.match(/\d[\d.,\s]*/)?.[0].replace(/\s/g, '');
+  if (!amount) return {};
+
+  let normalized = amount.replace(/[.,]$/, '');
+  const lastComma = normalized.lastIndexOf(',');
+  const lastDot = normalized.lastIndexOf('.');
+  if (lastComma > lastDot && normalized.length - lastComma - 1 !== 3) {
+    // Comma as decimal separator ("1.299,99", "12,99")
+    normalized = normalized.replace(/\./g, '').replace(',', '.');
+  } else {
+    normalized = normalized.replace(/,/g, '');
+  }
+  const price = parseFloat(normalized);
+
+  const code = raw.match(/\b[A-Z]{3}\b/)?.[0];
+  const symbol = raw.match(/[$€£¥₹₩]/)?.[0];
+  const currency = code || (symbol && (CURRENCY_SYMBOLS[symbol] || symbol));
+  return {
+    ...(!isNaN(price) && { price }),
+    ...(currency && { currency }),
+  };
+}
+
+// ISO 8601 duration ("PT1H2M3S") or plain seconds -> seconds
+export function parseDurationSeconds(value: unknown): number | undefined {
+  const raw = schemaText(value);
+  if (/^\d+$/.test(raw)) return parseInt(raw, 10);
+  const match = raw.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (!match || raw === 'P' || raw === 'PT') return undefined;
+  const [, days, hours, minutes, seconds] = match.map(part => (part ? parseFloat(part) : 0));
+  return Math.round(days * 86400 + hours * 3600 + minutes * 60 + seconds);
+}
+
+function isoDate(value: string | undefined | null): string | undefined {
+  if (!value) return undefined;
+  // Unix timestamps in milliseconds or seconds
+  const date = /^\d+$/.test(value)
+    ? new Date(value.length > 10 ? parseInt(value, 10) : parseInt(value, 10) * 1000)
+    : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function absoluteHttpUrl(value: string | undefined | null, base: URL): string | undefined {
+  if (!value) return undefined;
+  try {
+    const resolved = new URL(value, base);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Literal text inside a RegExp (repo names may contain "." and other special characters)
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findJsonLd($: CheerioAPI, type: string): SchemaNode | undefined {
+  return jsonLdNodes($).find(node => nodeTypes(node).includes(type));
+}
+
+// --- GitHub repositories ---
+
+// First path segments that are GitHub pages, not users/organizations
+const GITHUB_RESERVED = new Set([
+  'about', 'apps', 'collections', 'enterprise', 'events', 'explore', 'features', 'login', 'marketplace',
+  'notifications', 'orgs', 'pricing', 'pulls', 'issues', 'search', 'settings', 'sponsors', 'topics', 'trending', 'users',
+]);
+
+function githubRepoPath(url: URL): { owner: string; repo: string } | null {
+  const [owner, repo] = url.pathname.split('/').filter(Boolean);
+  if (!owner || !repo || GITHUB_RESERVED.has(owner.toLowerCase())) return null;
+  return { owner, repo: repo.replace(/\.git$/, '') };
+}
+
+const githubExtractor: LinkExtractor = {
+  name: 'github',
+  matches: ({ url }) => host(url) === 'github.com' && githubRepoPath(url) !== null,
+  extract: ({ url, $ }) => {
+    const { owner, repo } = githubRepoPath(url)!;
+
+    // og:description falls back to a boilerplate sentence for repos without a description
+    const description = clean($('.BorderGrid-cell p.f4').first().text()) ||
+      meta($, 'og:description').replace(new RegExp(`\\s+-\\s+${escapeRegExp(owner)}/${escapeRegExp(repo)}$`, 'i'), '');
+    const stars = parseCount($('#repo-stars-counter-star').attr('title') || $('#repo-stars-counter-star').text());
+    const forks = parseCount($('#repo-network-counter').attr('title') || $('#repo-network-counter').text());
+    const language = clean($('[itemprop="programmingLanguage"]').first().text()) ||
+      clean($('h2:contains("Languages")').parent().find('li .text-bold').first().text());
+    const topics = $('a.topic-tag').toArray().map(element => clean($(element).text())).filter(Boolean);
+    // Separate block elements so headings and paragraphs don't run together
+    const readmeBody = $('article.markdown-body').first().clone();
+    readmeBody.find('h1, h2, h3, h4, h5, h6, p, li, pre, td, br').append(' ');
+    const readme = clean(readmeBody.text()).substring(0, MAX_README);
+
+    return {
+      kind: 'github_repo',
+      owner,
+      repo,
+      ...(description && !/^Contribute to /.test(description) && { description }),
+      ...(stars !== undefined && { stars }),
+      ...(forks !== undefined && { forks }),
+      ...(language && { language }),
+      ...(topics.length > 0 && { topics }),
+      ...(readme && { readme }),
+    };
+  },
+};
+
+// --- X / Twitter posts ---
+
+function xPostAuthor(url: URL): string | null {
+  const match = url.pathname.match(/^\/([A-Za-z0-9_]{1,15})\/status(?:es)?\/\d+/);
+  return match ? match[1] : null;
+}
+
+const xExtractor: LinkExtractor = {
+  name: 'x',
+  matches: ({ url }) => ['x.com', 'twitter.com'].includes(host(url)) && xPostAuthor(url) !== null,
+  extract: ({ url, $ }) => {
+    // Rendered pages (or saved snapshots) have the thread; otherwise only the Open Graph preview
+    const tweets = $('article[data-testid="tweet"]').toArray();
+    const tweetText = (index: number) => clean($(tweets[index]).find('[data-testid="tweetText"]').first().text());
+    const text = (tweets.length > 0 && tweetText(0)) ||
+      meta($, 'og:description').replace(/^[“"]|[”"]$/g, '');
+    if (!text) return null;
+
+    const replies = tweets.slice(1, MAX_REPLIES + 1)
+      .map((tweet, index) => ({
+        author: clean($(tweet).find('[data-testid="User-Name"] a[href^="/"]').last().attr('href')?.slice(1)),
+        text: tweetText(index + 1),
+      }))
+      .filter(reply => reply.text)
+      .map(reply => ({ ...(reply.author && { author: reply.author }), text: reply.text }));
+    const postedAt = isoDate($(tweets[0] || 'body').find('time[datetime]').first().attr('datetime'));
+
+    return {
+      kind: 'social_post',
+      platform: 'x',
+      author: xPostAuthor(url)!,
+      text: text.substring(0, MAX_POST_TEXT),
+      ...(postedAt && { postedAt }),
+      ...(replies.length > 0 && { replies }),
+    };
+  },
+};
+
+// --- Reddit threads ---
+
+function redditSubreddit(url: URL): string | null {
+  const match = url.pathname.match(/^\/r\/([^/]+)\/comments\/[a-z0-9]+/i);
+  return match ? `r/${match[1]}` : null;
+}
+
+const redditExtractor: LinkExtractor = {
+  name: 'reddit',
+  matches: ({ url }) => host(url) === 'reddit.com' && redditSubreddit(url) !== null,
+  extract: ({ url, $ }) => {
+    const community = redditSubreddit(url)!;
+
+    // Current site (<shreddit-post>/<shreddit-comment>) and old.reddit.com markup
+    const post = $('shreddit-post').first();
+    const oldPost = $('.thing.link').first();
+
+    let title: string;
+    let body: string;
+    let author: string | undefined;
+    let score: number | undefined;
+    let commentCount: number | undefined;
+    let postedAt: string | undefined;
+    let replies: Array<{ author?: string; text: string }>;
+
+    if (post.length) {
+      title = clean(post.attr('post-title'));
+      body = clean(post.find('[slot="text-body"]').text());
+      author = post.attr('author');
+      score = parseCount(post.attr('score'));
+      commentCount = parseCount(post.attr('comment-count'));
+      postedAt = isoDate(post.attr('created-timestamp'));
+      replies = $('shreddit-comment[depth="0"]').toArray().map(comment => ({
+        author: $(comment).attr('author'),
+        text: clean($(comment).find('[slot="comment"]').first().text()),
+      }));
+    } else if (oldPost.length) {
+      title = clean(oldPost.find('a.title').first().text());
+      body = clean(oldPost.find('.usertext-body .md').first().text());
+      author = oldPost.attr('data-author');
+      score = parseCount(oldPost.attr('data-score'));
+      commentCount = parseCount(oldPost.attr('data-comments-count'));
+      postedAt = isoDate(oldPost.attr('data-timestamp'));
+      replies = $('.commentarea > .sitetable > .thing.comment').toArray().map(comment => ({
+        author: $(comment).attr('data-author'),
+        text: clean($(comment).find('.usertext-body .md').first().text()),
+      }));
+    } else {
+      title = meta($, 'og:title');
+      body = meta($, 'og:description');
+      replies = [];
+    }
+
+    const text = [title, body].filter(Boolean).join('\n\n');
+    if (!text) return null;
+
+    const threadReplies = replies
+      .filter(reply => reply.text)
+      .slice(0, MAX_REPLIES)
+      .map(reply => ({ ...(reply.author && { author: reply.author }), text: reply.text.substring(0, MAX_POST_TEXT) }));
+
+    return {
+      kind: 'social_post',
+      platform: 'reddit',
+      text: text.substring(0, MAX_POST_TEXT),
+      community,
+      ...(author && { author }),
+      ...(postedAt && { postedAt }),
+      ...(score !== undefined && { score }),
+      ...(commentCount !== undefined && { commentCount }),
+      ...(threadReplies.length > 0 && { replies: threadReplies }),
+    };
+  },
+};
+
+// --- Podcast episodes ---
+
+const PODCAST_HOSTS = ['podcasts.apple.com', 'overcast.fm', 'pca.st', 'pocketcasts.com', 'castbox.fm', 'podcasts.google.com'];
+
+const podcastExtractor: LinkExtractor = {
+  name: 'podcast',
+  matches: ({ url, $ }) =>
+    PODCAST_HOSTS.includes(host(url)) ||
+    (host(url) === 'open.spotify.com' && url.pathname.startsWith('/episode/')) ||
+    findJsonLd($, 'PodcastEpisode') !== undefined ||
+    meta($, 'og:audio') !== '',
+  extract: ({ url, $ }) => {
+    const episode = findJsonLd($, 'PodcastEpisode') || {};
+    const media = asArray(episode.associatedMedia)[0] as SchemaNode | undefined;
+
+    const title = schemaText(episode.name) || meta($, 'og:title');
+    if (!title) return null;
+
+    const show = schemaText(episode.partOfSeries?.name) || meta($, 'og:site_name');
+    const audioUrl = absoluteHttpUrl(
+      media?.contentUrl || meta($, 'og:audio:secure_url') || meta($, 'og:audio') ||
+      $('audio[src]').first().attr('src') || $('audio source[src]').first().attr('src'),
+      url
+    );
+    const durationSeconds = parseDurationSeconds(episode.duration || episode.timeRequired || media?.duration) ??
+      parseDurationSeconds(meta($, 'music:duration'));
+    const publishedAt = isoDate(schemaText(episode.datePublished) || meta($, 'music:release_date'));
+
+    return {
+      kind: 'podcast_episode',
+      title,
+      ...(show && show !== title && { show }),
+      ...(audioUrl && { audioUrl }),
+      ...(durationSeconds !== undefined && { durationSeconds }),
+      ...(publishedAt && { publishedAt }),
+    };
+  },
+};
+
+// --- Product pages (Amazon-style DOM, schema.org Product, Open Graph product tags) ---
+
+function isAmazon(url: URL): boolean {
+  return /(^|\.)amazon\.[a-z.]+$/.test(url.hostname.toLowerCase());
+}
+
+function schemaAvailability(value: unknown): string | undefined {
+  // "https://schema.org/InStock" -> "in stock"
+  const name = schemaText(value).replace(/^.*[/:#]/, '');
+  return name ? name.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase() : undefined;
+}
+
+const productExtractor: LinkExtractor = {
+  name: 'product',
+  matches: ({ url, $ }) =>
+    isAmazon(url) ||
+    findJsonLd($, 'Product') !== undefined ||
+    meta($, 'og:type') === 'product' ||
+    meta($, 'product:price:amount') !== '',
+  extract: ({ url, $ }) => {
+    const product = findJsonLd($, 'Product') || {};
+    const offer = (asArray(product.offers)[0] || {}) as SchemaNode;
+    const rating = (product.aggregateRating || {}) as SchemaNode;
+
+    const amazon = isAmazon(url);
+    const domPrice = amazon
+      ? parsePrice($('.a-price .a-offscreen').first().text() || $('#priceblock_ourprice, #priceblock_dealprice').first().text())
+      : {};
+    const metaPrice = parsePrice(meta($, 'product:price:amount') || meta($, 'og:price:amount'));
+    const schemaPrice = parsePrice(schemaText(offer.price ?? offer.lowPrice));
+
+    const name = schemaText(product.name) || (amazon && clean($('#productTitle').text())) || meta($, 'og:title');
+    const price = schemaPrice.price ?? metaPrice.price ?? domPrice.price;
+    const currency = schemaText(offer.priceCurrency) ||
+      meta($, 'product:price:currency') || meta($, 'og:price:currency') ||
+      schemaPrice.currency || metaPrice.currency || domPrice.currency;
+    if (!name && price === undefined) return null;
+
+    const brand = schemaText(product.brand) ||
+      (amazon && clean($('#bylineInfo').text()).replace(/^(Visit the|Brand:)\s*/i, '').replace(/\s+Store$/i, ''));
+    const availability = schemaAvailability(offer.availability) ||
+      (amazon && clean($('#availability').text()).toLowerCase()) || undefined;
+    const ratingValue = parseFloat(schemaText(rating.ratingValue) || (amazon && $('#acrPopover').attr('title')) || '');
+    const reviewCount = parseCount(schemaText(rating.reviewCount ?? rating.ratingCount) || (amazon && $('#acrCustomerReviewText').first().text()) || '');
+
+    return {
+      kind: 'product',
+      name: name || url.hostname,
+      ...(price !== undefined && { price }),
+      ...(currency && { currency }),
+      ...(availability && { availability }),
+      ...(brand && { brand }),
+      ...(!isNaN(ratingValue) && { rating: ratingValue }),
+      ...(reviewCount !== undefined && { reviewCount }),
+    };
+  },
+};
+
+// Host-specific extractors first; product and podcast also match generic markup
+const extractors: LinkExtractor[] = [githubExtractor, xExtractor, redditExtractor, podcastExtractor, productExtractor];
+
+// Add an extractor; it is tried before the built-in ones
+export function registerLinkExtractor(extractor: LinkExtractor): void {
+  extractors.unshift(extractor);
+}
+
+// Typed data for a fetched page, or null when no extractor recognizes it
+// (a failing extractor is logged and skipped, it never fails the save)
+export function extractLinkData(url: string, $: CheerioAPI): LinkData | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const context: LinkExtractorContext = { url: parsed, $ };
+  for (const extractor of extractors) {
+    try {
+      if (!extractor.matches(context)) continue;
+      const data = extractor.extract(context);
+      if (data) return data;
+    } catch (error: any) {
+      console.warn(`⚠️ ${extractor.name} link extractor failed for ${url}: ${error.message}`);
+    }
+  }
+  return null;
+}
+
+// Text worth summarizing from the extracted data (README, post and thread text)
+export function linkDataText(data: LinkData): string {
+  switch (data.kind) {
+    case 'github_repo':
+      return [data.description, data.readme].filter(Boolean).join('\n\n');
+    case 'social_post':
+      return [data.text, ...(data.replies || []).map(reply => reply.text)].join('\n\n');
+    case 'product':
+      return [data.name, data.brand].filter(Boolean).join(' - ');
+    case 'podcast_episode':
+      return [data.title, data.show].filter(Boolean).join(' - ');
+  }
+}
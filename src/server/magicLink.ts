@@ -0,0 +1,122 @@
+// Passwordless email sign-in (magic links) for web clients
+// POST /login/email mails a link with a random single-use token (only its hash is stored); the web
+// app posts the token back to /login/email/verify and gets the same token pair as the mobile
+// logins. Links expire after MAGIC_LINK_TTL_MINUTES and requests are rate limited per address and
+// per IP. The address becomes an "email" identity of the user (see identities.ts)
+
+import { createHash, randomBytes } from 'crypto';
+import { storage } from './storage';
+import { getMailer } from './mailer';
+import { signInWithIdentity } from './identities';
+import { DeviceInfo, startSession } from './sessions';
+
+const MAGIC_LINK_TTL_MINUTES = parseInt(process.env.MAGIC_LINK_TTL_MINUTES || '15', 10);
+// Default points at the Expo web dev server; the page reads ?token= and calls /login/email/verify
+const DEV_MAGIC_LINK_URL = 'http://localhost:19006/auth/magic-link';
+
+const EMAIL_LIMIT = { max: 5, windowMs: 15 * 60 * 1000 };
+const IP_LIMIT = { max: 20, windowMs: 60 * 60 * 1000 };
+// Tokens are kept a day past expiry so rate limit windows can count them
+const CLEANUP_AFTER_MS = 24 * 60 * 60 * 1000;
+
+const EMAIL_PATTERN = /^[^\s@<>()",;:\\]+@[^\s@<>()",;:\\]+\.[^\s@<>()",;:\\]+$/;
+const MAX_EMAIL_LENGTH = 254;
+
+export type MagicLinkErrorCode = 'invalid_email' | 'rate_limited' | 'invalid_token';
+
+export class MagicLinkError extends Error {
+  constructor(message: string, readonly code: MagicLinkErrorCode) {
+    super(message);
+    this.name = 'MagicLinkError';
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Lowercased address, or null if it isn't one
+export function normalizeEmail(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const email = value.trim().toLowerCase();
+  return email.length <= MAX_EMAIL_LENGTH && EMAIL_PATTERN.test(email) ? email : null;
+}
+
+function magicLinkUrl(token: string): string {
+  const base = process.env.MAGIC_LINK_URL;
+  if (!base && process.env.NODE_ENV === 'production') {
+    throw new Error('Magic link sign-in is not configured: set MAGIC_LINK_URL');
+  }
+  const url = new URL(base || DEV_MAGIC_LINK_URL);
+  url.searchParams.set('token', token);
+  return url.href;
+}
+
+// Mail a sign-in link. Succeeds silently for any well-formed address, whether or not it has an
+// account, so the endpoint can't be used to find out who uses SmartVault
+export async function requestMagicLink(emailInput: unknown, ipAddress: string | null): Promise<void> {
+  const email = normalizeEmail(emailInput);
+  if (!email) {
+    throw new MagicLinkError('A valid email address is required', 'invalid_email');
+  }
+
+  const now = Date.now();
+  const [emailCount, ipCount] = await Promise.all([
+    storage.countMagicLinkTokens({ email }, new Date(now - EMAIL_LIMIT.windowMs)),
+    ipAddress ? storage.countMagicLinkTokens({ ipAddress }, new Date(now - IP_LIMIT.windowMs)) : Promise.resolve(0),
+  ]);
+  if (emailCount >= EMAIL_LIMIT.max || ipCount >= IP_LIMIT.max) {
+    throw new MagicLinkError('Too many sign-in links requested. Please try again later.', 'rate_limited');
+  }
+
+  const mailer = getMailer();
+  const token = randomBytes(32).toString('base64url');
+  const link = magicLinkUrl(token);
+  await storage.createMagicLinkToken({
+    email,
+    tokenHash: hashToken(token),
+    ipAddress,
+    expiresAt: new Date(now + MAGIC_LINK_TTL_MINUTES * 60 * 1000),
+  });
+
+  await mailer.send({
+    to: email,
+    subject: 'Your SmartVault sign-in link',
+    text: `Sign in to SmartVault:\n\n${link}\n\nThe link works once and expires in ${MAGIC_LINK_TTL_MINUTES} minutes. If you didn't request it, you can ignore this email.`,
+    html: `<p><a href="${link}">Sign in to SmartVault</a></p><p>The link works once and expires in ${MAGIC_LINK_TTL_MINUTES} minutes. If you didn't request it, you can ignore this email.</p>`,
+  });
+  console.log(`📧 Magic link sent to ${email}`);
+
+  storage.deleteExpiredMagicLinkTokens(new Date(now - CLEANUP_AFTER_MS)).catch(error => {
+    console.warn('⚠️ Failed to clean up expired magic links:', error.message);
+  });
+}
+
+// Sign in with a token from a magic link (each token works once)
+export async function verifyMagicLink(token: unknown, device: DeviceInfo = {}) {
+  if (typeof token !== 'string' || !token) {
+    throw new MagicLinkError('Invalid or expired sign-in link', 'invalid_token');
+  }
+
+  const magicLink = await storage.consumeMagicLinkToken(hashToken(token));
+  if (!magicLink) {
+    throw new MagicLinkError('Invalid or expired sign-in link', 'invalid_token');
+  }
+
+  const user = await signInWithIdentity({
+    provider: 'email',
+    subject: magicLink.email,
+    email: magicLink.email,
+    emailVerified: true, // they received the link
+  });
+  const tokens = await startSession(user, device);
+
+  return {
+    ...tokens,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email,
+    },
+  };
+}
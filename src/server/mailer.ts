@@ -0,0 +1,105 @@
+// Outgoing email (magic-link sign-in)
+// SMTP through nodemailer when SMTP_HOST is set (STARTTLS or implicit TLS), otherwise a console
+// stand-in that prints messages for local development. In production a missing SMTP configuration
+// is an error: sign-in links must never end up in logs
+
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS (port 465); otherwise STARTTLS when the server offers it
+  username?: string;
+  password?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+// Email can't be sent (not configured, or the SMTP server refused it)
+export class MailerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MailerError';
+  }
+}
+
+const DEFAULT_FROM = 'SmartVault <no-reply@smartvault.app>';
+const SMTP_TIMEOUT_MS = 15 * 1000;
+
+// Prints messages instead of sending them; `sent` keeps them for tests
+export class ConsoleMailer implements Mailer {
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+    console.log(`📧 [console mailer] To: ${message.to}\n   Subject: ${message.subject}\n${message.text.replace(/^/gm, '   ')}`);
+  }
+}
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '::1'];
+
+export class SmtpMailer implements Mailer {
+  private transport: Transporter;
+
+  constructor(private options: SmtpOptions) {
+    const timeout = options.timeoutMs ?? SMTP_TIMEOUT_MS;
+    this.transport = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      // Credentials are never sent in clear text, except to a relay on this machine
+      requireTLS: Boolean(options.username) && !LOCAL_HOSTS.includes(options.host),
+      auth: options.username ? { user: options.username, pass: options.password || '' } : undefined,
+      connectionTimeout: timeout,
+      greetingTimeout: timeout,
+      socketTimeout: timeout,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transport.sendMail({ from: this.options.from, ...message });
+    } catch (error: any) {
+      throw new MailerError(`SMTP delivery failed: ${error?.message || error}`);
+    }
+  }
+}
+
+let mailer: Mailer | null = null;
+
+export function getMailer(): Mailer {
+  if (!mailer) {
+    if (process.env.SMTP_HOST) {
+      const port = parseInt(process.env.SMTP_PORT || '587', 10);
+      mailer = new SmtpMailer({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        username: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        from: process.env.MAIL_FROM || DEFAULT_FROM,
+      });
+    } else if (process.env.NODE_ENV === 'production') {
+      throw new MailerError('Email delivery is not configured: set SMTP_HOST');
+    } else {
+      mailer = new ConsoleMailer();
+    }
+  }
+  return mailer;
+}
+
+// Override the mailer (e.g. a ConsoleMailer in tests)
+export function setMailer(override: Mailer | null): void {
+  mailer = override;
+}
@@ -1,80 +1,119 @@
 // Webpage metadata extraction
 
-import fetch from 'node-fetch';
 import * as cheerio from 'cheerio';
+import { LinkArticle, LinkData, StructuredContent } from '../shared/schema';
+import { extractStructuredContent } from './structuredData';
+import { extractArticle } from './readability';
+import { extractLinkData } from './linkExtractors';
+import { safeFetch } from './safeFetch';
+import { cachedAIResult, urlCacheKey } from './aiCache';
 
 export interface Metadata {
   title: string;
   description: string | null;
   imageUrl: string | null;
+  // schema.org Recipe/HowTo/ExercisePlan data, if the page has any
+  structuredContent: StructuredContent | null;
+  // Visible page text (capped), used when AI has to extract structured content itself
+  text: string;
+  // Main article (readability extraction), null for pages without substantial text
+  article: LinkArticle | null;
+  // Typed data from a per-domain extractor (GitHub repo, product, post, podcast episode)
+  linkData: LinkData | null;
 }
 
-export async function extractMetadata(url: string): Promise<Metadata> {
-  try {
-    // Fetch webpage with timeout
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; SmartVault/1.0; +https://smartvault.app)',
-      },
-      redirect: 'follow',
-    });
-
-    clearTimeout(timeout);
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
-    }
+// Bump when extraction changes: cached metadata from older versions is then ignored
+export const METADATA_VERSION = 1;
+
+const MAX_PAGE_TEXT = 20000;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const PAGE_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+
+// Visible text of the page body, without scripts, styles and navigation chrome
+function pageText($: cheerio.CheerioAPI): string {
+  const body = $('body').clone();
+  body.find('script, style, noscript, svg, nav, header, footer, aside, form, iframe').remove();
+  return body.text().replace(/\s+/g, ' ').trim().substring(0, MAX_PAGE_TEXT);
+}
+
+// Fetch and parse the page; throws when it can't be fetched
+async function fetchMetadata(url: string): Promise<Metadata> {
+  // Fetch webpage (10 second timeout, public addresses only, HTML up to 5 MB)
+  const response = await safeFetch(url, {
+    timeoutMs: 10000,
+    maxBytes: MAX_PAGE_BYTES,
+    allowedContentTypes: PAGE_CONTENT_TYPES,
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const html = response.body.toString('utf-8');
+  const $ = cheerio.load(html);
 
-    const html = await response.text();
-    const $ = cheerio.load(html);
-
-    // Extract title
-    let title = $('meta[property="og:title"]').attr('content') ||
-                $('meta[name="twitter:title"]').attr('content') ||
-                $('title').text() ||
-                new URL(url).hostname;
-
-    // Extract description
-    const description = $('meta[property="og:description"]').attr('content') ||
-                       $('meta[name="twitter:description"]').attr('content') ||
-                       $('meta[name="description"]').attr('content') ||
-                       null;
-
-    // Extract image
-    let imageUrl = $('meta[property="og:image"]').attr('content') ||
-                   $('meta[name="twitter:image"]').attr('content') ||
-                   $('meta[name="twitter:image:src"]').attr('content') ||
-                   null;
-
-    // Convert relative URLs to absolute
-    if (imageUrl && !imageUrl.startsWith('http')) {
-      try {
-        const baseUrl = new URL(url);
-        imageUrl = new URL(imageUrl, baseUrl).href;
-      } catch {
-        imageUrl = null;
-      }
+  // Extract title
+  let title = $('meta[property="og:title"]').attr('content') ||
+              $('meta[name="twitter:title"]').attr('content') ||
+              $('title').text() ||
+              new URL(url).hostname;
+
+  // Extract description
+  const description = $('meta[property="og:description"]').attr('content') ||
+                     $('meta[name="twitter:description"]').attr('content') ||
+                     $('meta[name="description"]').attr('content') ||
+                     null;
+
+  // Extract image
+  let imageUrl = $('meta[property="og:image"]').attr('content') ||
+                 $('meta[name="twitter:image"]').attr('content') ||
+                 $('meta[name="twitter:image:src"]').attr('content') ||
+                 null;
+
+  // Convert relative URLs to absolute
+  if (imageUrl && !imageUrl.startsWith('http')) {
+    try {
+      const baseUrl = new URL(url);
+      imageUrl = new URL(imageUrl, baseUrl).href;
+    } catch {
+      imageUrl = null;
     }
+  }
 
-    // Clean up title
-    title = title.trim().replace(/\s+/g, ' ');
+  // Clean up title
+  title = title.trim().replace(/\s+/g, ' ');
 
-    return {
-      title: title || new URL(url).hostname,
-      description: description ? description.trim() : null,
-      imageUrl,
-    };
-  } catch (error) {
+  return {
+    title: title || new URL(url).hostname,
+    description: description ? description.trim() : null,
+    imageUrl,
+    structuredContent: extractStructuredContent($),
+    text: pageText($),
+    article: extractArticle(html, url),
+    linkData: extractLinkData(url, $),
+  };
+}
+
+// Page metadata, shared between users for a day (see aiCache.ts); a page that can't be fetched
+// gets metadata derived from its URL
+export async function extractMetadata(url: string): Promise<Metadata> {
+  try {
+    return await cachedAIResult(
+      { kind: 'metadata', key: urlCacheKey('metadata', url), version: METADATA_VERSION },
+      () => fetchMetadata(url)
+    );
+  } catch (error: any) {
     // Fallback to URL-based metadata
+    console.warn(`⚠️ Metadata fetch failed for ${url}: ${error.message}`);
     const urlObj = new URL(url);
     return {
       title: urlObj.hostname,
       description: null,
       imageUrl: null,
+      structuredContent: null,
+      text: '',
+      article: null,
+      linkData: null,
     };
   }
 }
@@ -0,0 +1,26 @@
+// Standalone migration runner: `npm run db:migrate` (requires DATABASE_URL)
+
+import dotenv from 'dotenv';
+import { PgStorage } from './pgStorage';
+
+dotenv.config();
+
+async function main() {
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    console.error('❌ DATABASE_URL is not set');
+    process.exit(1);
+  }
+
+  const storage = new PgStorage(connectionString);
+  try {
+    await storage.migrate();
+  } finally {
+    await storage.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Migration failed:', error);
+  process.exit(1);
+});
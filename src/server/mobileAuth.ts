@@ -1,18 +1,34 @@
 // Google/Apple Sign-In authentication
 
+import { createHash } from 'crypto';
 import { OAuth2Client } from 'google-auth-library';
-import { storage } from './storage';
-import { generateToken } from './jwt';
+import jwt from 'jsonwebtoken';
+import { DeviceInfo, startSession } from './sessions';
+import { signInWithIdentity, VerifiedIdentity } from './identities';
+import { JwksCache, httpJwksFetcher } from './jwks';
 
 export interface GoogleUserInfo {
+  sub: string; // stable Google account id
   email: string;
+  emailVerified: boolean;
   name: string;
   picture?: string;
 }
 
+// Verified claims of an Apple identity token
 export interface AppleUserInfo {
-  email: string;
-  name?: string;
+  sub: string; // stable per user and team
+  email: string | null; // may be a private relay address
+  emailVerified: boolean;
+  isPrivateEmail: boolean;
+}
+
+// An identity token that failed verification (the client should sign in again)
+export class AppleAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AppleAuthError';
+  }
 }
 
 // iOS Client ID from LoginScreen.js
@@ -66,7 +82,9 @@ export async function verifyGoogleToken(idToken: string): Promise<GoogleUserInfo
     });
     
     return {
+      sub: payload.sub,
       email,
+      emailVerified: payload.email_verified === true,
       name,
       picture,
     };
@@ -95,35 +113,124 @@ export async function verifyGoogleToken(idToken: string): Promise<GoogleUserInfo
   }
 }
 
-// Verify Apple ID token (mock for now)
-export async function verifyAppleToken(identityToken: string): Promise<AppleUserInfo> {
-  // In production, verify with Apple's servers
+const APPLE_ISSUER = 'https://appleid.apple.com';
+const APPLE_JWKS_URL = 'https://appleid.apple.com/auth/keys';
+
+let appleKeys: JwksCache | null = null;
+
+export function getAppleKeys(): JwksCache {
+  if (!appleKeys) {
+    appleKeys = new JwksCache(httpJwksFetcher(APPLE_JWKS_URL));
+  }
+  return appleKeys;
+}
+
+// Override Apple's key set (e.g. a local stand-in in tests)
+export function setAppleKeys(override: JwksCache | null): void {
+  appleKeys = override;
+}
+
+// App bundle ids (and web service ids) tokens may be issued for, from APPLE_BUNDLE_ID (comma-separated)
+function appleAudiences(): string[] {
+  return (process.env.APPLE_BUNDLE_ID || '').split(',').map(id => id.trim()).filter(Boolean);
+}
+
+/**
+ * Verify an Apple identity token
+ * Checks the RS256 signature against Apple's published keys, issuer, audience (bundle id),
+ * expiration and, when the client used one, the nonce
+ */
+export async function verifyAppleToken(identityToken: string, options: { nonce?: string } = {}): Promise<AppleUserInfo> {
+  const audiences = appleAudiences();
+  if (audiences.length === 0) {
+    throw new Error('Apple Sign-In is not configured: set APPLE_BUNDLE_ID');
+  }
+
+  const decoded = jwt.decode(identityToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new AppleAuthError('Malformed identity token');
+  }
+  if (decoded.header.alg !== 'RS256' || !decoded.header.kid) {
+    throw new AppleAuthError('Unsupported identity token signature');
+  }
+
+  const key = await getAppleKeys().getKey(decoded.header.kid);
+  if (!key) {
+    throw new AppleAuthError('Identity token was signed with an unknown key');
+  }
+
+  let payload: jwt.JwtPayload;
+  try {
+    payload = jwt.verify(identityToken, key, {
+      algorithms: ['RS256'],
+      issuer: APPLE_ISSUER,
+      audience: audiences as [string, ...string[]],
+      clockTolerance: 60, // seconds of device/server clock skew
+    }) as jwt.JwtPayload;
+  } catch (error: any) {
+    if (error.name === 'TokenExpiredError') {
+      throw new AppleAuthError('Token has expired. Please try logging in again.');
+    }
+    if (error.message?.includes('audience')) {
+      throw new AppleAuthError('Token audience mismatch. Please ensure you are using the correct app.');
+    }
+    throw new AppleAuthError(`Invalid identity token: ${error.message}`);
+  }
+
+  if (!payload.sub) {
+    throw new AppleAuthError('Token missing required field: sub');
+  }
+
+  // Clients pass Apple the SHA-256 of a random nonce and send us the raw value;
+  // a token carrying a nonce is only accepted together with that nonce (replay protection)
+  if (payload.nonce || options.nonce) {
+    const expected = options.nonce ? [options.nonce, createHash('sha256').update(options.nonce).digest('hex')] : [];
+    if (!expected.includes(payload.nonce)) {
+      throw new AppleAuthError('Nonce mismatch. Please try logging in again.');
+    }
+  }
+
+  // Apple sends boolean claims as either booleans or strings
+  const flag = (value: unknown) => value === true || value === 'true';
+  console.log('✅ Apple token verified successfully:', {
+    hasEmail: !!payload.email,
+    audience: payload.aud,
+  });
+
   return {
-    email: 'user@example.com',
-    name: 'Test User',
+    sub: payload.sub,
+    email: typeof payload.email === 'string' ? payload.email.toLowerCase() : null,
+    emailVerified: flag(payload.email_verified),
+    isPrivateEmail: flag(payload.is_private_email),
   };
 }
 
-export async function handleGoogleLogin(idToken: string) {
+// Verified Google account as a sign-in identity
+export function googleIdentity(googleUser: GoogleUserInfo): VerifiedIdentity {
+  return { provider: 'google', subject: googleUser.sub, email: googleUser.email, emailVerified: googleUser.emailVerified };
+}
+
+// Verified Apple account as a sign-in identity
+export function appleIdentity(appleUser: AppleUserInfo): VerifiedIdentity {
+  return { provider: 'apple', subject: appleUser.sub, email: appleUser.email, emailVerified: appleUser.emailVerified };
+}
+
+export async function handleGoogleLogin(idToken: string, device: DeviceInfo = {}) {
   const googleUser = await verifyGoogleToken(idToken);
-  
-  // Create or update user
+
+  // Find or create the user by Google account; profile is refreshed on every sign-in
   const [firstName, ...lastNameParts] = googleUser.name.split(' ');
-  const user = await storage.upsertUser({
-    email: googleUser.email,
+  const user = await signInWithIdentity(googleIdentity(googleUser), {
     firstName: firstName || null,
     lastName: lastNameParts.join(' ') || null,
-    profileImageUrl: googleUser.picture || undefined,
+    ...(googleUser.picture && { profileImageUrl: googleUser.picture }),
   });
 
-  // Generate JWT token
-  const token = generateToken({
-    userId: user.id,
-    email: user.email,
-  });
+  // Start a device session (access + refresh token)
+  const tokens = await startSession(user, device);
 
   return {
-    token,
+    ...tokens,
     user: {
       id: user.id,
       email: user.email,
@@ -132,25 +239,31 @@ export async function handleGoogleLogin(idToken: string) {
   };
 }
 
-export async function handleAppleLogin(identityToken: string, userInfo?: any) {
-  const appleUser = await verifyAppleToken(identityToken);
-  
-  const name = userInfo?.name || appleUser.name || null;
-  const [firstName, ...lastNameParts] = (name || '').split(' ');
-  
-  const user = await storage.upsertUser({
-    email: appleUser.email,
-    firstName: firstName || null,
-    lastName: lastNameParts.join(' ') || null,
-  });
+// Name from the client's Apple credential (only present on the first sign-in):
+// { name: "Jane Doe" } or Expo's { fullName: { givenName, familyName } }
+function appleName(userInfo?: any): { firstName: string | null; lastName: string | null } | null {
+  const given = userInfo?.fullName?.givenName;
+  const family = userInfo?.fullName?.familyName;
+  if (given || family) {
+    return { firstName: given || null, lastName: family || null };
+  }
+  if (typeof userInfo?.name === 'string' && userInfo.name.trim()) {
+    const [firstName, ...lastNameParts] = userInfo.name.trim().split(' ');
+    return { firstName: firstName || null, lastName: lastNameParts.join(' ') || null };
+  }
+  return null;
+}
 
-  const token = generateToken({
-    userId: user.id,
-    email: user.email,
-  });
+export async function handleAppleLogin(identityToken: string, userInfo?: any, nonce?: string, device: DeviceInfo = {}) {
+  const appleUser = await verifyAppleToken(identityToken, { nonce });
+
+  // Apple only sends the name (and often the email) on the first sign-in, so names are only
+  // updated when present
+  const user = await signInWithIdentity(appleIdentity(appleUser), appleName(userInfo) || {});
+  const tokens = await startSession(user, device);
 
   return {
-    token,
+    ...tokens,
     user: {
       id: user.id,
       email: user.email,
@@ -158,4 +271,3 @@ export async function handleAppleLogin(identityToken: string, userInfo?: any) {
     },
   };
 }
-
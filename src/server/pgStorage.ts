@@ -0,0 +1,872 @@
+// PostgreSQL storage implementation (Drizzle ORM)
+
+import { join } from 'path';
+import { Pool } from 'pg';
+import { drizzle, NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import { and, arrayContains, asc, desc, eq, getTableColumns, gt, gte, inArray, isNotNull, isNull, lt, ne, sql, SQL } from 'drizzle-orm';
+import { User, Item, Job, AuthSession, SessionRevokeReason, IdentityProvider, UserIdentity, MagicLinkToken, ApiKey, AICacheEntry } from '../shared/schema';
+import type { IStorage, NewAICacheEntry, NewAIUsage, NewApiKey, NewAuthSession, NewJob, NewMagicLinkToken, NewUserIdentity, SimilarItemsOptions } from './storage';
+import * as schema from './dbSchema';
+import { ItemFilters, ItemQuery, ItemPage, isDescending, encodeCursor } from './itemQuery';
+import { SearchQuery, SearchResult, HIGHLIGHT_START, HIGHLIGHT_END } from './searchIndex';
+import { ItemEmbedding, SimilarItem, rankBySimilarity } from './embeddings';
+import { TagCount } from './tags';
+import { canonicalUrl, DuplicateItemError } from './urls';
+import type { AIUsageTotals } from './usage';
+
+const { users, items, videoData, linkArticles, itemEmbeddings, userCategories, jobs, authSessions, userIdentities, magicLinkTokens, apiKeys, aiUsage, aiCache } = schema;
+
+// Migrations live at the repository root (works from both src/ and dist/)
+const MIGRATIONS_FOLDER = join(__dirname, '..', '..', 'drizzle');
+
+// Every items column except the search document, which is never returned to clients
+const { searchVector, ...itemColumns } = getTableColumns(items);
+
+type ItemRow = Omit<typeof items.$inferSelect, 'searchVector'>;
+type VideoDataRow = typeof videoData.$inferSelect;
+type LinkArticleRow = typeof linkArticles.$inferSelect;
+
+// Map a joined items/video_data/link_articles row back to the Item shape used by the API
+// (optional columns are omitted rather than returned as null, matching MemStorage)
+function toItem(row: ItemRow, video: VideoDataRow | null, article: LinkArticleRow | null): Item {
+  const item: Item = {
+    id: row.id,
+    userId: row.userId,
+    type: row.type,
+    status: row.status,
+    aiFallback: row.aiFallback,
+    title: row.title,
+    summary: row.summary,
+    category: row.category,
+    tags: row.tags,
+    createdAt: row.createdAt,
+  };
+
+  if (row.userNotes !== null) item.userNotes = row.userNotes;
+  if (row.url !== null) item.url = row.url;
+  if (row.canonicalUrl !== null) item.canonicalUrl = row.canonicalUrl;
+  if (row.imageUrl !== null) item.imageUrl = row.imageUrl;
+  if (row.structuredContent !== null) item.structuredContent = row.structuredContent;
+  if (row.linkData !== null) item.linkData = row.linkData;
+  if (row.content !== null) item.content = row.content;
+
+  if (video) {
+    item.videoData = {
+      platform: video.platform,
+      ...(video.transcript !== null && { transcript: video.transcript }),
+      ...(video.segments !== null && { segments: video.segments }),
+      ...(video.chapters !== null && { chapters: video.chapters }),
+      ...(video.structuredContent !== null && { structuredContent: video.structuredContent }),
+    };
+  }
+
+  if (article) {
+    item.article = {
+      content: article.content,
+      text: article.text,
+      wordCount: article.wordCount,
+      readingTimeMinutes: article.readingTimeMinutes,
+      ...(article.author !== null && { author: article.author }),
+      ...(article.publishedAt !== null && { publishedAt: article.publishedAt.toISOString() }),
+      ...(article.siteName !== null && { siteName: article.siteName }),
+    };
+  }
+
+  return item;
+}
+
+const CANONICAL_URL_INDEX = 'items_user_canonical_url_idx';
+
+// Unique violations of the one-item-per-URL index become DuplicateItemError
+async function rejectDuplicates<T>(write: () => Promise<T>): Promise<T> {
+  try {
+    return await write();
+  } catch (error: any) {
+    if (error?.code === '23505' && error.constraint === CANONICAL_URL_INDEX) {
+      throw new DuplicateItemError();
+    }
+    throw error;
+  }
+}
+
+function articleValues(article: NonNullable<Item['article']>) {
+  return {
+    content: article.content,
+    text: article.text,
+    wordCount: article.wordCount,
+    readingTimeMinutes: article.readingTimeMinutes,
+    author: article.author ?? null,
+    publishedAt: article.publishedAt ? new Date(article.publishedAt) : null,
+    siteName: article.siteName ?? null,
+  };
+}
+
+// WHERE conditions for the item list filters (expects items LEFT JOIN video_data)
+function filterConditions(userId: string, filters: ItemFilters): SQL[] {
+  const conditions: SQL[] = [eq(items.userId, userId)];
+  if (filters.type) conditions.push(eq(items.type, filters.type));
+  if (filters.category) conditions.push(eq(items.category, filters.category));
+  if (filters.tag) conditions.push(arrayContains(items.tags, [filters.tag]));
+  if (filters.platform) conditions.push(eq(videoData.platform, filters.platform));
+  if (filters.contentType) {
+    conditions.push(sql`coalesce(${items.structuredContent}, ${videoData.structuredContent})->>'type' = ${filters.contentType}`);
+  }
+  if (filters.aiFallback !== undefined) conditions.push(eq(items.aiFallback, filters.aiFallback));
+  if (filters.createdAfter) conditions.push(gte(items.createdAt, filters.createdAfter));
+  if (filters.createdBefore) conditions.push(lt(items.createdAt, filters.createdBefore));
+  return conditions;
+}
+
+// Recompute the weighted tsvector for one item (title A, summary/notes B, content/article C, transcript D)
+function refreshSearchVector(itemId: string): SQL {
+  return sql`
+    UPDATE ${items} SET search_vector =
+      setweight(to_tsvector('english', coalesce(${items.title}, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(${items.summary}, '') || ' ' || coalesce(${items.userNotes}, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(${items.content}, '') || ' ' || coalesce(
+        (SELECT ${linkArticles.text} FROM ${linkArticles} WHERE ${linkArticles.itemId} = ${items.id}), ''
+      )), 'C') ||
+      setweight(to_tsvector('english', coalesce(
+        (SELECT ${videoData.transcript} FROM ${videoData} WHERE ${videoData.itemId} = ${items.id}), ''
+      )), 'D')
+    WHERE ${items.id} = ${itemId}`;
+}
+
+export class PgStorage implements IStorage {
+  private pool: Pool;
+  private db: NodePgDatabase<typeof schema>;
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({
+      connectionString,
+      // Railway/Heroku style managed databases require SSL without a CA bundle
+      ssl: process.env.DATABASE_SSL === 'true' ? { rejectUnauthorized: false } : undefined,
+    });
+    this.db = drizzle(this.pool, { schema });
+  }
+
+  // Apply any pending migrations from ./drizzle
+  async migrate(): Promise<void> {
+    console.log('🗄️  Running database migrations...');
+    await migrate(this.db, { migrationsFolder: MIGRATIONS_FOLDER });
+    await this.backfillCanonicalUrls();
+    console.log('   ✅ Database schema is up to date');
+  }
+
+  // Canonical URLs can't be computed in SQL, so items without one are filled in here, newest
+  // first. An item whose URL is already taken by another item is left without one: duplicates
+  // saved before the column existed, or saved with force (retried at each start, so such an item
+  // takes over the URL once the other item is deleted)
+  private async backfillCanonicalUrls(): Promise<void> {
+    const rows = await this.db
+      .select({ id: items.id, userId: items.userId, url: items.url })
+      .from(items)
+      .where(and(isNotNull(items.url), isNull(items.canonicalUrl), ne(items.type, 'note')))
+      .orderBy(desc(items.createdAt));
+
+    let filled = 0;
+    for (const row of rows) {
+      const canonical = canonicalUrl(row.url!);
+      const taken = and(
+        eq(items.userId, row.userId),
+        eq(items.canonicalUrl, canonical),
+        ne(items.status, 'failed')
+      );
+      try {
+        const updated = await this.db
+          .update(items)
+          .set({ canonicalUrl: canonical })
+          .where(and(eq(items.id, row.id), sql`NOT EXISTS (SELECT 1 FROM ${items} WHERE ${taken})`))
+          .returning({ id: items.id });
+        filled += updated.length;
+      } catch (error: any) {
+        // Taken concurrently (another instance starting up, or a save)
+        if (error?.code !== '23505') throw error;
+      }
+    }
+    if (filled > 0) {
+      console.log(`   Filled in canonical URLs of ${filled} item(s)`);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  async upsertUser(userData: Partial<User> & { email: string }): Promise<User> {
+    // Only overwrite columns the caller actually provided
+    const updates: Partial<typeof users.$inferInsert> = { updatedAt: new Date() };
+    if (userData.firstName !== undefined) updates.firstName = userData.firstName;
+    if (userData.lastName !== undefined) updates.lastName = userData.lastName;
+    if (userData.profileImageUrl !== undefined) updates.profileImageUrl = userData.profileImageUrl;
+
+    const [user] = await this.db
+      .insert(users)
+      .values({
+        id: userData.id || `user-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        email: userData.email,
+        firstName: userData.firstName || null,
+        lastName: userData.lastName || null,
+        profileImageUrl: userData.profileImageUrl || null,
+      })
+      .onConflictDoUpdate({ target: users.email, set: updates })
+      .returning();
+
+    return user;
+  }
+
+  async getUserById(id: string): Promise<User | null> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user || null;
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user || null;
+  }
+
+  async getUserIdentity(provider: IdentityProvider, subject: string): Promise<UserIdentity | null> {
+    const [identity] = await this.db
+      .select()
+      .from(userIdentities)
+      .where(and(eq(userIdentities.provider, provider), eq(userIdentities.subject, subject)));
+    return identity || null;
+  }
+
+  async getUserIdentities(userId: string): Promise<UserIdentity[]> {
+    return this.db
+      .select()
+      .from(userIdentities)
+      .where(eq(userIdentities.userId, userId))
+      .orderBy(asc(userIdentities.createdAt));
+  }
+
+  async createUserIdentity(identityData: NewUserIdentity): Promise<UserIdentity> {
+    const [identity] = await this.db
+      .insert(userIdentities)
+      .values({
+        ...identityData,
+        id: `identity-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      })
+      .returning();
+
+    return identity;
+  }
+
+  async touchUserIdentity(id: string, email: string | null): Promise<void> {
+    await this.db
+      .update(userIdentities)
+      .set({ email, lastUsedAt: sql`now()` })
+      .where(eq(userIdentities.id, id));
+  }
+
+  async deleteUserIdentity(id: string, userId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(userIdentities)
+      .where(and(eq(userIdentities.id, id), eq(userIdentities.userId, userId)))
+      .returning({ id: userIdentities.id });
+
+    return deleted.length > 0;
+  }
+
+  async createItem(itemData: Omit<Item, 'id' | 'createdAt'>): Promise<Item> {
+    const id = `item-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    return rejectDuplicates(() => this.db.transaction(async (tx) => {
+      const [row] = await tx
+        .insert(items)
+        .values({
+          id,
+          userId: itemData.userId,
+          type: itemData.type,
+          status: itemData.status || 'ready',
+          aiFallback: itemData.aiFallback ?? false,
+          title: itemData.title,
+          summary: itemData.summary,
+          category: itemData.category,
+          tags: itemData.tags,
+          userNotes: itemData.userNotes ?? null,
+          url: itemData.url ?? null,
+          canonicalUrl: itemData.canonicalUrl ?? null,
+          imageUrl: itemData.imageUrl ?? null,
+          structuredContent: itemData.structuredContent ?? null,
+          linkData: itemData.linkData ?? null,
+          content: itemData.content ?? null,
+          // Set from JS (millisecond precision) so pagination cursors round-trip exactly
+          createdAt: new Date(),
+        })
+        .returning(itemColumns);
+
+      let video: VideoDataRow | null = null;
+      if (itemData.videoData) {
+        [video] = await tx
+          .insert(videoData)
+          .values({
+            itemId: id,
+            platform: itemData.videoData.platform,
+            transcript: itemData.videoData.transcript ?? null,
+            segments: itemData.videoData.segments ?? null,
+            chapters: itemData.videoData.chapters ?? null,
+            structuredContent: itemData.videoData.structuredContent ?? null,
+          })
+          .returning();
+      }
+
+      let article: LinkArticleRow | null = null;
+      if (itemData.article) {
+        [article] = await tx
+          .insert(linkArticles)
+          .values({ itemId: id, ...articleValues(itemData.article) })
+          .returning();
+      }
+
+      await tx.execute(refreshSearchVector(id));
+      return toItem(row, video, article);
+    }));
+  }
+
+  async getItemsByUserId(userId: string): Promise<Item[]> {
+    const rows = await this.db
+      .select({ items: itemColumns, video_data: videoData, link_articles: linkArticles })
+      .from(items)
+      .leftJoin(videoData, eq(videoData.itemId, items.id))
+      .leftJoin(linkArticles, eq(linkArticles.itemId, items.id))
+      .where(eq(items.userId, userId))
+      .orderBy(desc(items.createdAt));
+
+    return rows.map(row => toItem(row.items, row.video_data, row.link_articles));
+  }
+
+  async getItemByCanonicalUrl(userId: string, canonicalUrl: string): Promise<Item | null> {
+    // Served by items_user_canonical_url_idx (same predicate)
+    const [row] = await this.db
+      .select({ items: itemColumns, video_data: videoData, link_articles: linkArticles })
+      .from(items)
+      .leftJoin(videoData, eq(videoData.itemId, items.id))
+      .leftJoin(linkArticles, eq(linkArticles.itemId, items.id))
+      .where(and(
+        eq(items.userId, userId),
+        eq(items.canonicalUrl, canonicalUrl),
+        isNotNull(items.canonicalUrl),
+        ne(items.status, 'failed')
+      ));
+
+    return row ? toItem(row.items, row.video_data, row.link_articles) : null;
+  }
+
+  async listItems(userId: string, query: ItemQuery): Promise<ItemPage> {
+    const conditions = filterConditions(userId, query);
+    const descending = isDescending(query.sort);
+    const byTitle = query.sort === 'title_asc' || query.sort === 'title_desc';
+    // Titles compare bytewise so the order matches the JS comparison used for cursors
+    const sortColumn = byTitle ? sql`${items.title} COLLATE "C"` : items.createdAt;
+
+    if (query.cursor) {
+      const key = byTitle ? query.cursor.key : new Date(query.cursor.key);
+      conditions.push(descending
+        ? sql`(${sortColumn}, ${items.id}) < (${key}, ${query.cursor.id})`
+        : sql`(${sortColumn}, ${items.id}) > (${key}, ${query.cursor.id})`);
+    }
+
+    const direction = descending ? desc : asc;
+    // Fetch one extra row to know whether another page exists
+    const rows = await this.db
+      .select({ items: itemColumns, video_data: videoData, link_articles: linkArticles })
+      .from(items)
+      .leftJoin(videoData, eq(videoData.itemId, items.id))
+      .leftJoin(linkArticles, eq(linkArticles.itemId, items.id))
+      .where(and(...conditions))
+      .orderBy(direction(sortColumn), direction(items.id))
+      .limit(query.limit + 1);
+
+    const page = rows.slice(0, query.limit).map(row => toItem(row.items, row.video_data, row.link_articles));
+    const hasMore = rows.length > query.limit;
+    return {
+      items: page,
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1], query.sort) : null,
+    };
+  }
+
+  async searchItems(userId: string, query: SearchQuery): Promise<SearchResult[]> {
+    const tsQuery = sql`websearch_to_tsquery('english', ${query.text})`;
+    const rank = sql<number>`ts_rank_cd(${items.searchVector}, ${tsQuery})`;
+    const snippetSource = sql`concat_ws(' ', nullif(${items.summary}, ''), ${items.userNotes}, ${items.content}, ${linkArticles.text}, ${videoData.transcript})`;
+    const headlineOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=30, MinWords=12, MaxFragments=1`;
+
+    const rows = await this.db
+      .select({
+        items: itemColumns,
+        video_data: videoData,
+        link_articles: linkArticles,
+        score: rank,
+        snippet: sql<string>`ts_headline('english', ${snippetSource}, ${tsQuery}, ${headlineOptions})`,
+      })
+      .from(items)
+      .leftJoin(videoData, eq(videoData.itemId, items.id))
+      .leftJoin(linkArticles, eq(linkArticles.itemId, items.id))
+      .where(and(...filterConditions(userId, query.filters), sql`${items.searchVector} @@ ${tsQuery}`))
+      .orderBy(desc(rank), desc(items.createdAt))
+      .limit(query.limit)
+      .offset(query.offset);
+
+    return rows.map(row => ({
+      item: toItem(row.items, row.video_data, row.link_articles),
+      score: Number(row.score),
+      snippet: row.snippet || row.items.summary,
+    }));
+  }
+
+  async getItemById(id: string, userId: string): Promise<Item | null> {
+    const [row] = await this.db
+      .select({ items: itemColumns, video_data: videoData, link_articles: linkArticles })
+      .from(items)
+      .leftJoin(videoData, eq(videoData.itemId, items.id))
+      .leftJoin(linkArticles, eq(linkArticles.itemId, items.id))
+      .where(and(eq(items.id, id), eq(items.userId, userId)));
+
+    return row ? toItem(row.items, row.video_data, row.link_articles) : null;
+  }
+
+  async updateItem(id: string, userId: string, updates: Partial<Item>): Promise<Item | null> {
+    // The URL index also fires when a failed item becomes active again (job retry)
+    return rejectDuplicates(() => this.db.transaction(async (tx) => {
+      // Don't allow changing id, userId, or createdAt
+      // A key that is present but undefined clears the column (e.g. removing userNotes)
+      const columns: Partial<typeof items.$inferInsert> = {};
+      if ('type' in updates && updates.type) columns.type = updates.type;
+      if ('status' in updates && updates.status) columns.status = updates.status;
+      if ('aiFallback' in updates && updates.aiFallback !== undefined) columns.aiFallback = updates.aiFallback;
+      if ('title' in updates && updates.title !== undefined) columns.title = updates.title;
+      if ('summary' in updates && updates.summary !== undefined) columns.summary = updates.summary;
+      if ('category' in updates && updates.category !== undefined) columns.category = updates.category;
+      if ('tags' in updates && updates.tags) columns.tags = updates.tags;
+      if ('userNotes' in updates) columns.userNotes = updates.userNotes ?? null;
+      if ('url' in updates) columns.url = updates.url ?? null;
+      if ('canonicalUrl' in updates) columns.canonicalUrl = updates.canonicalUrl ?? null;
+      if ('imageUrl' in updates) columns.imageUrl = updates.imageUrl ?? null;
+      if ('structuredContent' in updates) columns.structuredContent = updates.structuredContent ?? null;
+      if ('linkData' in updates) columns.linkData = updates.linkData ?? null;
+      if ('content' in updates) columns.content = updates.content ?? null;
+
+      const ownership = and(eq(items.id, id), eq(items.userId, userId));
+      const [existing] = Object.keys(columns).length > 0
+        ? await tx.update(items).set(columns).where(ownership).returning(itemColumns)
+        : await tx.select(itemColumns).from(items).where(ownership);
+
+      if (!existing) {
+        return null;
+      }
+
+      if ('videoData' in updates) {
+        if (updates.videoData) {
+          const values = {
+            platform: updates.videoData.platform,
+            transcript: updates.videoData.transcript ?? null,
+            segments: updates.videoData.segments ?? null,
+            chapters: updates.videoData.chapters ?? null,
+            structuredContent: updates.videoData.structuredContent ?? null,
+          };
+          await tx
+            .insert(videoData)
+            .values({ itemId: id, ...values })
+            .onConflictDoUpdate({ target: videoData.itemId, set: values });
+        } else {
+          await tx.delete(videoData).where(eq(videoData.itemId, id));
+        }
+      }
+
+      if ('article' in updates) {
+        if (updates.article) {
+          const values = articleValues(updates.article);
+          await tx
+            .insert(linkArticles)
+            .values({ itemId: id, ...values })
+            .onConflictDoUpdate({ target: linkArticles.itemId, set: values });
+        } else {
+          await tx.delete(linkArticles).where(eq(linkArticles.itemId, id));
+        }
+      }
+
+      await tx.execute(refreshSearchVector(id));
+      const [video] = await tx.select().from(videoData).where(eq(videoData.itemId, id));
+      const [article] = await tx.select().from(linkArticles).where(eq(linkArticles.itemId, id));
+      return toItem(existing, video || null, article || null);
+    }));
+  }
+
+  async deleteItem(id: string, userId: string): Promise<boolean> {
+    // video_data and link_articles rows are removed by ON DELETE CASCADE
+    const deleted = await this.db
+      .delete(items)
+      .where(and(eq(items.id, id), eq(items.userId, userId)))
+      .returning({ id: items.id });
+
+    return deleted.length > 0;
+  }
+
+  async getTagCounts(userId: string): Promise<TagCount[]> {
+    const result = await this.db.execute<{ tag: string; count: string }>(sql`
+      SELECT tag, count(*) AS count
+      FROM ${items}, unnest(${items.tags}) AS tag
+      WHERE ${items.userId} = ${userId}
+      GROUP BY tag
+      ORDER BY count(*) DESC, tag ASC`);
+
+    return result.rows.map(row => ({ tag: row.tag, count: Number(row.count) }));
+  }
+
+  async replaceTags(userId: string, from: string[], to: string): Promise<number> {
+    // Rewrite each array in place, keeping first-occurrence order and dropping duplicates
+    const fromArray = sql`${sql.param(from)}::text[]`;
+    const result = await this.db.execute(sql`
+      UPDATE ${items} SET tags = ARRAY(
+        SELECT t FROM (
+          SELECT CASE WHEN x = ANY(${fromArray}) THEN ${to} ELSE x END AS t, ord
+          FROM unnest(${items.tags}) WITH ORDINALITY AS u(x, ord)
+        ) mapped
+        GROUP BY t
+        ORDER BY min(ord)
+      )
+      WHERE ${items.userId} = ${userId} AND ${items.tags} && ${fromArray}`);
+
+    return result.rowCount ?? 0;
+  }
+
+  async replaceCategory(userId: string, from: string[], to: string): Promise<number> {
+    const updated = await this.db
+      .update(items)
+      .set({ category: to })
+      .where(and(eq(items.userId, userId), inArray(items.category, from), ne(items.category, to)))
+      .returning({ id: items.id });
+
+    return updated.length;
+  }
+
+  async getPreferredCategories(userId: string): Promise<string[] | null> {
+    const rows = await this.db
+      .select({ name: userCategories.name })
+      .from(userCategories)
+      .where(eq(userCategories.userId, userId))
+      .orderBy(asc(userCategories.position));
+
+    return rows.length > 0 ? rows.map(row => row.name) : null;
+  }
+
+  async setPreferredCategories(userId: string, categories: string[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(userCategories).where(eq(userCategories.userId, userId));
+      if (categories.length > 0) {
+        await tx.insert(userCategories).values(
+          categories.map((name, position) => ({ userId, name, position }))
+        );
+      }
+    });
+  }
+
+  async createJob(jobData: NewJob): Promise<Job> {
+    const [job] = await this.db
+      .insert(jobs)
+      .values({
+        ...jobData,
+        id: `job-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      })
+      .returning();
+
+    return job;
+  }
+
+  async getJob(id: string, userId: string): Promise<Job | null> {
+    const [job] = await this.db.select().from(jobs).where(and(eq(jobs.id, id), eq(jobs.userId, userId)));
+    return job || null;
+  }
+
+  async claimNextJob(): Promise<Job | null> {
+    // SKIP LOCKED lets several server instances share the queue without double-processing
+    const result = await this.db.execute<{ id: string }>(sql`
+      UPDATE ${jobs}
+      SET status = 'running', attempts = attempts + 1, locked_at = now(), updated_at = now()
+      WHERE id = (
+        SELECT id FROM ${jobs}
+        WHERE status = 'queued' AND run_at <= now()
+        ORDER BY run_at
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING id`);
+
+    const claimedId = result.rows[0]?.id;
+    if (!claimedId) {
+      return null;
+    }
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, claimedId));
+    return job || null;
+  }
+
+  async updateJob(id: string, updates: Partial<Omit<Job, 'id' | 'userId' | 'createdAt'>>): Promise<Job | null> {
+    const [job] = await this.db
+      .update(jobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+
+    return job || null;
+  }
+
+  async recoverStaleJobs(lockedBefore: Date, error: string): Promise<{ requeued: number; failed: Job[] }> {
+    const stale = and(eq(jobs.status, 'running'), lt(jobs.lockedAt, lockedBefore));
+
+    return this.db.transaction(async (tx) => {
+      const failed = await tx
+        .update(jobs)
+        .set({ status: 'failed', error, lockedAt: null, updatedAt: new Date() })
+        .where(and(stale, gte(jobs.attempts, jobs.maxAttempts)))
+        .returning();
+      const requeued = await tx
+        .update(jobs)
+        .set({ status: 'queued', lockedAt: null, updatedAt: new Date() })
+        .where(stale)
+        .returning({ id: jobs.id });
+
+      return { requeued: requeued.length, failed };
+    });
+  }
+
+  async createMagicLinkToken(tokenData: NewMagicLinkToken): Promise<MagicLinkToken> {
+    const [token] = await this.db
+      .insert(magicLinkTokens)
+      .values({
+        ...tokenData,
+        id: `magic-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      })
+      .returning();
+
+    return token;
+  }
+
+  async countMagicLinkTokens(filter: { email?: string; ipAddress?: string }, since: Date): Promise<number> {
+    const conditions: SQL[] = [gte(magicLinkTokens.createdAt, since)];
+    if (filter.email !== undefined) conditions.push(eq(magicLinkTokens.email, filter.email));
+    if (filter.ipAddress !== undefined) conditions.push(eq(magicLinkTokens.ipAddress, filter.ipAddress));
+
+    const [row] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(magicLinkTokens)
+      .where(and(...conditions));
+    return row.count;
+  }
+
+  async consumeMagicLinkToken(tokenHash: string): Promise<MagicLinkToken | null> {
+    // Single statement, so a link clicked twice at once signs in only once
+    const [token] = await this.db
+      .update(magicLinkTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(magicLinkTokens.tokenHash, tokenHash),
+        isNull(magicLinkTokens.usedAt),
+        gt(magicLinkTokens.expiresAt, new Date())
+      ))
+      .returning();
+
+    return token || null;
+  }
+
+  async deleteExpiredMagicLinkTokens(before: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(magicLinkTokens)
+      .where(lt(magicLinkTokens.expiresAt, before))
+      .returning({ id: magicLinkTokens.id });
+
+    return deleted.length;
+  }
+
+  async createApiKey(apiKeyData: NewApiKey): Promise<ApiKey> {
+    const [apiKey] = await this.db
+      .insert(apiKeys)
+      .values({
+        ...apiKeyData,
+        id: `apikey-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      })
+      .returning();
+
+    return apiKey;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    const [apiKey] = await this.db
+      .select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.keyHash, keyHash), isNull(apiKeys.revokedAt)));
+    return apiKey || null;
+  }
+
+  async getApiKeys(userId: string): Promise<ApiKey[]> {
+    return this.db
+      .select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async touchApiKey(id: string): Promise<void> {
+    await this.db.update(apiKeys).set({ lastUsedAt: sql`now()` }).where(eq(apiKeys.id, id));
+  }
+
+  async revokeApiKey(id: string, userId: string): Promise<boolean> {
+    const revoked = await this.db
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .returning({ id: apiKeys.id });
+
+    return revoked.length > 0;
+  }
+
+  async recordAIUsage(usageData: NewAIUsage): Promise<void> {
+    await this.db.insert(aiUsage).values({
+      ...usageData,
+      id: `usage-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    });
+  }
+
+  async getAIUsageTotals(userId: string, since: Date): Promise<AIUsageTotals> {
+    const [totals] = await this.db
+      .select({
+        tokens: sql<number>`coalesce(sum(${aiUsage.tokens}), 0)`.mapWith(Number),
+        audioSeconds: sql<number>`coalesce(sum(${aiUsage.audioSeconds}), 0)`.mapWith(Number),
+        requests: sql<number>`count(*)::int`,
+      })
+      .from(aiUsage)
+      .where(and(eq(aiUsage.userId, userId), gte(aiUsage.createdAt, since)));
+
+    return totals;
+  }
+
+  async getAICacheEntry(key: string): Promise<AICacheEntry | null> {
+    const [entry] = await this.db
+      .select()
+      .from(aiCache)
+      .where(and(eq(aiCache.key, key), gt(aiCache.expiresAt, new Date())));
+    return entry || null;
+  }
+
+  async setAICacheEntry(entryData: NewAICacheEntry): Promise<void> {
+    const values = { ...entryData, createdAt: sql`now()` };
+    await this.db
+      .insert(aiCache)
+      .values(values)
+      .onConflictDoUpdate({ target: aiCache.key, set: values });
+  }
+
+  async deleteExpiredAICacheEntries(before: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(aiCache)
+      .where(lt(aiCache.expiresAt, before))
+      .returning({ key: aiCache.key });
+
+    return deleted.length;
+  }
+
+  async createAuthSession(sessionData: NewAuthSession): Promise<AuthSession> {
+    const [session] = await this.db
+      .insert(authSessions)
+      .values({
+        ...sessionData,
+        id: `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      })
+      .returning();
+
+    return session;
+  }
+
+  async getAuthSession(id: string): Promise<AuthSession | null> {
+    const [session] = await this.db.select().from(authSessions).where(eq(authSessions.id, id));
+    return session || null;
+  }
+
+  async getActiveAuthSessions(userId: string): Promise<AuthSession[]> {
+    return this.db
+      .select()
+      .from(authSessions)
+      .where(and(
+        eq(authSessions.userId, userId),
+        isNull(authSessions.revokedAt),
+        gt(authSessions.expiresAt, new Date())
+      ))
+      .orderBy(desc(authSessions.lastUsedAt));
+  }
+
+  async rotateRefreshToken(id: string, currentHash: string, nextHash: string, expiresAt: Date): Promise<AuthSession | null> {
+    // Compare-and-swap on the hash: of two concurrent refreshes with the same token, only one wins
+    const [session] = await this.db
+      .update(authSessions)
+      .set({ refreshTokenHash: nextHash, expiresAt, lastUsedAt: sql`now()` })
+      .where(and(
+        eq(authSessions.id, id),
+        eq(authSessions.refreshTokenHash, currentHash),
+        isNull(authSessions.revokedAt)
+      ))
+      .returning();
+
+    return session || null;
+  }
+
+  async revokeAuthSession(id: string, userId: string, reason: SessionRevokeReason): Promise<boolean> {
+    const revoked = await this.db
+      .update(authSessions)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(and(eq(authSessions.id, id), eq(authSessions.userId, userId), isNull(authSessions.revokedAt)))
+      .returning({ id: authSessions.id });
+
+    return revoked.length > 0;
+  }
+
+  async setItemEmbedding(itemId: string, embedding: ItemEmbedding): Promise<void> {
+    const values = { model: embedding.model, embedding: embedding.vector, updatedAt: new Date() };
+    await this.db
+      .insert(itemEmbeddings)
+      .values({ itemId, ...values })
+      .onConflictDoUpdate({ target: itemEmbeddings.itemId, set: values });
+  }
+
+  async getItemEmbedding(itemId: string): Promise<ItemEmbedding | null> {
+    const [row] = await this.db.select().from(itemEmbeddings).where(eq(itemEmbeddings.itemId, itemId));
+    return row ? { model: row.model, vector: row.embedding } : null;
+  }
+
+  async findSimilarItems(userId: string, embedding: ItemEmbedding, options: SimilarItemsOptions): Promise<SimilarItem[]> {
+    // Vectors are ranked in process (a user's vault is small enough to scan); only the top-k
+    // items are loaded in full
+    const conditions = filterConditions(userId, options.filters || {});
+    conditions.push(eq(itemEmbeddings.model, embedding.model));
+    if (options.excludeItemId) {
+      conditions.push(ne(items.id, options.excludeItemId));
+    }
+
+    const vectors = await this.db
+      .select({ id: items.id, embedding: itemEmbeddings.embedding })
+      .from(items)
+      .innerJoin(itemEmbeddings, eq(itemEmbeddings.itemId, items.id))
+      .leftJoin(videoData, eq(videoData.itemId, items.id))
+      .where(and(...conditions));
+
+    const ranked = rankBySimilarity(embedding.vector, vectors.map(row => ({ item: row.id, vector: row.embedding })), options.limit);
+    if (ranked.length === 0) {
+      return [];
+    }
+
+    const rows = await this.db
+      .select({ items: itemColumns, video_data: videoData, link_articles: linkArticles })
+      .from(items)
+      .leftJoin(videoData, eq(videoData.itemId, items.id))
+      .leftJoin(linkArticles, eq(linkArticles.itemId, items.id))
+      .where(and(eq(items.userId, userId), inArray(items.id, ranked.map(entry => entry.item))));
+
+    const byId = new Map(rows.map(row => [row.items.id, toItem(row.items, row.video_data, row.link_articles)]));
+    // An item deleted between the two queries is dropped
+    return ranked.flatMap(({ item: id, score }) => {
+      const item = byId.get(id);
+      return item ? [{ item, score }] : [];
+    });
+  }
+}
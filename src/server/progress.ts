@@ -0,0 +1,110 @@
+// Ingestion progress events and Server-Sent Events streaming
+
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+
+export type ProgressStage =
+  | 'queued'
+  | 'fetching_metadata'
+  | 'analyzing'
+  | 'transcript_cached'
+  | 'fetching_captions'
+  | 'captions_found'
+  | 'no_captions'
+  | 'downloading_audio'
+  | 'audio_downloaded'
+  | 'transcribing'
+  | 'structuring'
+  | 'metadata'
+  | 'saving';
+
+export interface ProgressEvent {
+  type: 'stage' | 'retrying' | 'completed' | 'failed';
+  stage?: ProgressStage | string;
+  detail?: Record<string, any>;
+  error?: string;
+}
+
+// Pipeline callback for reporting a stage change
+export type ProgressReporter = (stage: ProgressStage, detail?: Record<string, any>) => void;
+
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+// In-process pub/sub keyed by channel (a job id); the job worker publishes, SSE handlers subscribe
+class ProgressBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(channel: string, event: ProgressEvent): void {
+    this.emitter.emit(channel, event);
+  }
+
+  subscribe(channel: string, listener: (event: ProgressEvent) => void): () => void {
+    this.emitter.on(channel, listener);
+    return () => this.emitter.off(channel, listener);
+  }
+}
+
+export const progressBus = new ProgressBus();
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+  readonly closed: boolean;
+  // Register cleanup to run when the stream ends (client disconnect or close())
+  onClose(callback: () => void): void;
+}
+
+// Switch a response into an SSE stream (with heartbeats so proxies keep it open)
+export function openEventStream(req: Request, res: Response): EventStream {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx/Railway proxy buffering
+  res.flushHeaders();
+
+  let closed = false;
+  const closeCallbacks: Array<() => void> = [];
+
+  const heartbeat = setInterval(() => {
+    if (!closed) res.write(': keep-alive\n\n');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const finish = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    closeCallbacks.forEach(callback => callback());
+  };
+
+  // The response, not the request: a request emits 'close' as soon as its body has been read
+  res.on('close', finish);
+
+  return {
+    send(event: string, data: unknown) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (closed) return;
+      finish();
+      res.end();
+    },
+    get closed() {
+      return closed;
+    },
+    onClose(callback: () => void) {
+      closeCallbacks.push(callback);
+    },
+  };
+}
+
+// Whether the client asked for a streamed (SSE) response
+export function wantsEventStream(req: Request): boolean {
+  return (req.headers.accept || '').includes('text/event-stream');
+}
@@ -0,0 +1,130 @@
+// Request rate limits for the mutating routes
+// Fixed-window counters kept in memory, so each server instance enforces its own limits (AI
+// spend is capped across instances by the quotas in usage.ts). Anonymous routes are limited per
+// IP; authenticated routes are also limited
+// per user (or API key owner), which is what stops one account from draining the OpenAI budget.
+// Behind a proxy, req.ip comes from X-Forwarded-For (see TRUST_PROXY in index.ts)
+
+import { NextFunction, Response } from 'express';
+import type { AuthRequest } from './jwtMiddleware';
+
+export interface RateLimitOptions {
+  name: string; // Shown in logs; limiters with different names count separately
+  max: number; // Requests allowed per window
+  windowMs: number;
+  by: 'ip' | 'user'; // 'user' limiters must come after jwtAuthMiddleware
+  methods?: string[]; // Only count these methods (default: all)
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+// Expired windows are dropped once the map grows past this
+const PRUNE_THRESHOLD = 10000;
+
+export function rateLimit(options: RateLimitOptions) {
+  const windows = new Map<string, Window>();
+
+  const prune = (now: number) => {
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) {
+        windows.delete(key);
+      }
+    }
+  };
+
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    if (options.methods && !options.methods.includes(req.method)) {
+      return next();
+    }
+
+    const key = options.by === 'user' ? req.user?.id : req.ip;
+    if (!key) {
+      return next();
+    }
+
+    const now = Date.now();
+    if (windows.size > PRUNE_THRESHOLD) {
+      prune(now);
+    }
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + options.windowMs };
+      windows.set(key, window);
+    }
+    window.count++;
+
+    const retryAfterSeconds = Math.ceil((window.resetAt - now) / 1000);
+    const remaining = Math.max(0, options.max - window.count);
+    const limited = window.count > options.max;
+    // Routes stack limiters (per IP, then per user): the headers describe the one with the least
+    // capacity left, or the one that refused the request
+    const shown: number | undefined = res.locals.rateLimitRemaining;
+    if (limited || shown === undefined || remaining < shown) {
+      res.locals.rateLimitRemaining = remaining;
+      res.setHeader('RateLimit-Limit', String(options.max));
+      res.setHeader('RateLimit-Remaining', String(remaining));
+      res.setHeader('RateLimit-Reset', String(retryAfterSeconds));
+    }
+
+    if (limited) {
+      console.warn(`🚦 Rate limit "${options.name}" hit by ${options.by} ${key}`);
+      res.setHeader('Retry-After', String(retryAfterSeconds));
+      res.status(429).json({ error: 'Too many requests. Please slow down.', retryAfter: retryAfterSeconds });
+      return;
+    }
+    next();
+  };
+}
+
+// Limits for routes; tune with RATE_LIMIT_* variables
+function limitFromEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const MINUTE = 60 * 1000;
+
+// Every non-GET request from one IP, including the login routes
+export const ipWriteLimit = rateLimit({
+  name: 'ip-writes',
+  max: limitFromEnv('RATE_LIMIT_IP_WRITES_PER_MINUTE', 120),
+  windowMs: MINUTE,
+  by: 'ip',
+  methods: ['POST', 'PUT', 'PATCH', 'DELETE'],
+});
+
+// Saves that run AI analysis (links and notes)
+export const saveLimit = rateLimit({
+  name: 'saves',
+  max: limitFromEnv('RATE_LIMIT_SAVES_PER_MINUTE', 20),
+  windowMs: MINUTE,
+  by: 'user',
+});
+
+// Video saves and retries (download, Whisper and several GPT calls each)
+export const videoLimit = rateLimit({
+  name: 'videos',
+  max: limitFromEnv('RATE_LIMIT_VIDEOS_PER_HOUR', 30),
+  windowMs: 60 * MINUTE,
+  by: 'user',
+});
+
+// Other edits (tags, categories, deletes, keys, sessions)
+export const writeLimit = rateLimit({
+  name: 'writes',
+  max: limitFromEnv('RATE_LIMIT_WRITES_PER_MINUTE', 60),
+  windowMs: MINUTE,
+  by: 'user',
+});
+
+// Requests that embed a query with the AI provider
+export const semanticSearchLimit = rateLimit({
+  name: 'semantic-search',
+  max: limitFromEnv('RATE_LIMIT_SEMANTIC_SEARCHES_PER_MINUTE', 30),
+  windowMs: MINUTE,
+  by: 'user',
+});
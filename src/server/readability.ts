@@ -0,0 +1,277 @@
+// Readability-style main article extraction (cheerio)
+// Scores block containers by the paragraphs inside them (text length, commas, class/id hints,
+// link density), keeps the best one plus related siblings, and sanitizes the result to a small
+// whitelist of tags and attributes so it can be stored and rendered safely
+
+import * as cheerio from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import { LinkArticle } from '../shared/schema';
+
+const WORDS_PER_MINUTE = 230;
+// Below this, the page is not treated as an article (product pages, link hubs, ...)
+const MIN_ARTICLE_WORDS = 120;
+const MAX_ARTICLE_TEXT = 200000;
+
+const UNLIKELY_CANDIDATES = /banner|breadcrumb|combx|comment|community|cookie|disqus|extra|foot|header|legends|menu|modal|newsletter|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|ad-break|agegate|pagination|pager|popup|promo|tweet/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE = /hidden|^hid$|hid$|hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+// Tags kept in stored content; everything else is unwrapped (text kept) or removed
+const ALLOWED_TAGS = new Set([
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote', 'pre', 'code',
+  'em', 'strong', 'b', 'i', 'u', 's', 'sub', 'sup', 'a', 'img', 'figure', 'figcaption', 'br', 'hr',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'caption', 'dl', 'dt', 'dd',
+]);
+// Removed together with their content
+const REMOVED_TAGS = 'script, style, noscript, iframe, object, embed, form, input, button, select, textarea, svg, canvas, template, link, meta';
+
+function className(element: cheerio.Cheerio<AnyNode>): string {
+  return `${element.attr('class') || ''} ${element.attr('id') || ''}`;
+}
+
+function classWeight(element: cheerio.Cheerio<AnyNode>): number {
+  const names = className(element);
+  let weight = 0;
+  if (NEGATIVE.test(names)) weight -= 25;
+  if (POSITIVE.test(names)) weight += 25;
+  return weight;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function linkDensity($: cheerio.CheerioAPI, element: cheerio.Cheerio<AnyNode>): number {
+  const textLength = normalizeText(element.text()).length;
+  if (textLength === 0) return 0;
+  let linkLength = 0;
+  element.find('a').each((_, link) => {
+    linkLength += normalizeText($(link).text()).length;
+  });
+  return linkLength / textLength;
+}
+
+// Base score of a candidate container by tag
+function tagScore(tag: string): number {
+  switch (tag) {
+    case 'article': return 10;
+    case 'div': case 'section': case 'main': return 5;
+    case 'pre': case 'td': case 'blockquote': return 3;
+    case 'form': case 'ol': case 'ul': case 'dl': case 'dd': case 'dt': case 'li': return -3;
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': case 'th': return -5;
+    default: return 0;
+  }
+}
+
+function tagName(node: AnyNode): string {
+  return 'tagName' in node ? String(node.tagName).toLowerCase() : '';
+}
+
+// Remove navigation, ads, comments and other boilerplate before scoring
+function stripBoilerplate($: cheerio.CheerioAPI): void {
+  $(`${REMOVED_TAGS}, nav, aside, footer, header`).remove();
+  $('[hidden], [aria-hidden="true"], [style*="display:none"], [style*="display: none"]').remove();
+
+  $('body *').each((_, node) => {
+    const element = $(node);
+    const names = className(element);
+    if (
+      names.trim() &&
+      UNLIKELY_CANDIDATES.test(names) &&
+      !MAYBE_CANDIDATE.test(names) &&
+      !['body', 'a', 'article', 'main'].includes(tagName(node))
+    ) {
+      element.remove();
+    }
+  });
+}
+
+// The element most likely to hold the article body
+function findTopCandidate($: cheerio.CheerioAPI): cheerio.Cheerio<AnyNode> | null {
+  const scores = new Map<AnyNode, number>();
+
+  const addScore = (node: AnyNode | undefined, amount: number) => {
+    if (!node || !tagName(node) || tagName(node) === 'body' || tagName(node) === 'html') return;
+    if (!scores.has(node)) {
+      scores.set(node, tagScore(tagName(node)) + classWeight($(node)));
+    }
+    scores.set(node, scores.get(node)! + amount);
+  };
+
+  $('p, pre, td, blockquote').each((_, paragraph) => {
+    const text = normalizeText($(paragraph).text());
+    if (text.length < 25) return;
+
+    // One point per paragraph, one per comma, one per 100 characters (max 3)
+    const score = 1 + text.split(/[,，]/).length - 1 + Math.min(Math.floor(text.length / 100), 3);
+    const parent = $(paragraph).parent()[0];
+    const grandparent = $(parent).parent()[0];
+    addScore(parent, score);
+    addScore(grandparent, score / 2);
+  });
+
+  let top: AnyNode | null = null;
+  let topScore = 0;
+  for (const [node, score] of scores) {
+    // Containers that are mostly links (menus, link lists) are penalized
+    const adjusted = score * (1 - linkDensity($, $(node)));
+    scores.set(node, adjusted);
+    if (adjusted > topScore) {
+      top = node;
+      topScore = adjusted;
+    }
+  }
+  if (!top) return null;
+
+  // Pull in siblings that look like part of the same article (split bodies, lead images)
+  const threshold = Math.max(10, topScore * 0.2);
+  const container = cheerio.load('<div></div>')('div');
+  $(top).parent().children().each((_, sibling) => {
+    if (sibling === top) {
+      container.append($(sibling).clone());
+      return;
+    }
+    const siblingScore = scores.get(sibling) ?? 0;
+    const text = normalizeText($(sibling).text());
+    const isParagraph = tagName(sibling) === 'p' && (
+      (text.length > 80 && linkDensity($, $(sibling)) < 0.25) ||
+      (text.length > 0 && linkDensity($, $(sibling)) === 0 && /\.( |$)/.test(text))
+    );
+    if (siblingScore >= threshold || isParagraph) {
+      container.append($(sibling).clone());
+    }
+  });
+
+  return container;
+}
+
+function absoluteUrl(value: string | undefined, baseUrl: string): string | null {
+  if (!value) return null;
+  try {
+    const resolved = new URL(value, baseUrl);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// Keep only whitelisted tags and safe attributes (absolute http(s) links and images)
+export function sanitizeHtml(html: string, baseUrl: string): string {
+  const $ = cheerio.load(`<div id="sanitize-root">${html}</div>`);
+  const root = $('#sanitize-root');
+  root.find(REMOVED_TAGS).remove();
+
+  // Deepest elements first, so unwrapping a parent never skips its children
+  root.find('*').toArray().reverse().forEach(node => {
+    const element = $(node);
+    const tag = tagName(node);
+
+    if (!ALLOWED_TAGS.has(tag)) {
+      element.replaceWith(element.contents());
+      return;
+    }
+
+    const attributes: Record<string, string> = {};
+    if (tag === 'a') {
+      const href = absoluteUrl(element.attr('href'), baseUrl);
+      if (href) attributes.href = href;
+    } else if (tag === 'img') {
+      const src = absoluteUrl(element.attr('src') || element.attr('data-src'), baseUrl);
+      if (!src) {
+        element.remove();
+        return;
+      }
+      attributes.src = src;
+      if (element.attr('alt')) attributes.alt = element.attr('alt')!;
+    }
+
+    for (const name of Object.keys('attribs' in node ? node.attribs : {})) {
+      element.removeAttr(name);
+    }
+    element.attr(attributes);
+  });
+
+  // Drop empty blocks left behind by removed widgets
+  root.find('p, div, li, figure').each((_, node) => {
+    const element = $(node);
+    if (!normalizeText(element.text()) && element.find('img').length === 0) {
+      element.remove();
+    }
+  });
+
+  return (root.html() || '').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Author, publish date and site name from meta tags and JSON-LD
+function articleDetails($: cheerio.CheerioAPI, url: string): Pick<LinkArticle, 'author' | 'publishedAt' | 'siteName'> {
+  let jsonLd: Record<string, any> = {};
+  $('script[type="application/ld+json"]').each((_, element) => {
+    try {
+      const data = JSON.parse($(element).text());
+      const nodes = [data, ...(Array.isArray(data) ? data : []), ...(data['@graph'] || [])];
+      const article = nodes.find(node => node && /Article|BlogPosting|Report/.test(String(node['@type'])));
+      if (article && !jsonLd.datePublished) jsonLd = article;
+    } catch {
+      // Ignore malformed blocks
+    }
+  });
+
+  const jsonLdAuthor = [].concat(jsonLd.author || []).map((author: any) => (typeof author === 'string' ? author : author?.name)).filter(Boolean);
+  const author = normalizeText(
+    $('meta[name="author"]').attr('content') ||
+    jsonLdAuthor.join(', ') ||
+    $('meta[property="article:author"]').attr('content') ||
+    $('[rel="author"]').first().text() ||
+    ''
+  );
+
+  const published =
+    $('meta[property="article:published_time"]').attr('content') ||
+    jsonLd.datePublished ||
+    $('meta[itemprop="datePublished"]').attr('content') ||
+    $('time[datetime]').first().attr('datetime');
+  const publishedDate = published ? new Date(published) : null;
+
+  const siteName = normalizeText(
+    $('meta[property="og:site_name"]').attr('content') ||
+    jsonLd.publisher?.name ||
+    ''
+  ) || new URL(url).hostname.replace(/^www\./, '');
+
+  return {
+    ...(author && !/^https?:/.test(author) && { author: author.substring(0, 200) }),
+    ...(publishedDate && !isNaN(publishedDate.getTime()) && { publishedAt: publishedDate.toISOString() }),
+    siteName: siteName.substring(0, 200),
+  };
+}
+
+// Main article of a page, or null if the page has no substantial readable text
+export function extractArticle(html: string, url: string): LinkArticle | null {
+  const $ = cheerio.load(html);
+  // Read details before boilerplate removal (meta and JSON-LD live in <head>)
+  const details = articleDetails($, url);
+
+  stripBoilerplate($);
+
+  // Marked-up article bodies are trusted directly when they hold enough text
+  let body: cheerio.Cheerio<AnyNode> | null = $('[itemprop="articleBody"]').first();
+  if (!body.length || normalizeText(body.text()).split(' ').length < MIN_ARTICLE_WORDS) {
+    body = findTopCandidate($);
+  }
+  if (!body || !body.length) return null;
+
+  const content = sanitizeHtml(body.html() || '', url);
+  const text = normalizeText(cheerio.load(content.replace(/<\/(p|h[1-6]|li|blockquote|pre|tr)>/g, '$& ')).root().text())
+    .substring(0, MAX_ARTICLE_TEXT);
+  const wordCount = text ? text.split(' ').length : 0;
+  if (wordCount < MIN_ARTICLE_WORDS) return null;
+
+  return {
+    content,
+    text,
+    wordCount,
+    readingTimeMinutes: Math.max(1, Math.round(wordCount / WORDS_PER_MINUTE)),
+    ...details,
+  };
+}
@@ -1,47 +1,46 @@
 // API route handlers
 
-import { Router, Response } from 'express';
+import { Router, Request, Response } from 'express';
 import { AuthRequest, jwtAuthMiddleware } from './jwtMiddleware';
 import { storage } from './storage';
-import { extractMetadata } from './metadata';
 import { analyzeContent } from './ai';
-import { handleGoogleLogin, handleAppleLogin } from './mobileAuth';
-import { processVideo, detectVideoPlatform } from './video';
-import { transformVideoContent } from './videoAI';
+import { handleGoogleLogin, handleAppleLogin, AppleAuthError, verifyGoogleToken, verifyAppleToken, googleIdentity, appleIdentity } from './mobileAuth';
+import { AccountLinkError, linkIdentity, unlinkIdentity, serializeIdentity } from './identities';
+import { MagicLinkError, requestMagicLink, verifyMagicLink } from './magicLink';
+import { MailerError } from './mailer';
+import { ApiKeyError, allowApiKeys, createApiKey, serializeApiKey } from './apiKeys';
+import { DeviceInfo, SessionError, refreshSession, endSession } from './sessions';
+import { detectVideoPlatform } from './video';
+import { checkPublicUrl } from './safeFetch';
 import { Item } from '../shared/schema';
+import { parseItemQuery } from './itemQuery';
+import { parseSearchQuery } from './searchIndex';
+import { embedText, itemEmbeddingText, getEmbeddingProvider } from './embeddings';
+import { embedItem, ingestLink, describeAIError } from './ingest';
+import { progressBus, openEventStream, wantsEventStream, ProgressEvent } from './progress';
+import { jobQueue, serializeJob } from './jobs';
+import { findSavedItem, findDuplicateGroups } from './duplicates';
+import { DuplicateItemError, canonicalUrl } from './urls';
+import { normalizeTag, normalizeTags, MAX_TAGS_PER_ITEM } from './tags';
+import { DEFAULT_CATEGORY, cleanCategoryName, cleanCategoryList } from './categories';
+import { ipWriteLimit, saveLimit, videoLimit, writeLimit, semanticSearchLimit } from './rateLimit';
+import { QuotaExceededError, assertWithinQuota, getUsage } from './usage';
 
 const router = Router();
 
-// Helper function to clean and summarize video titles
-function cleanVideoTitle(rawTitle: string): string {
-  if (!rawTitle) return '';
-  
-  let cleaned = rawTitle;
-  
-  // Remove hashtags (words starting with #)
-  cleaned = cleaned.replace(/#\w+/g, '').trim();
-  
-  // Remove common social media prefixes (e.g., "Jake Hurley on Instagram:")
-  cleaned = cleaned.replace(/^[^:]+:\s*/i, '').trim();
-  
-  // Remove quotes if the entire title is wrapped in them
-  cleaned = cleaned.replace(/^["']|["']$/g, '').trim();
-  
-  // Remove extra whitespace and normalize
-  cleaned = cleaned.replace(/\s+/g, ' ').trim();
-  
-  // Truncate to max 100 characters, but try to break at word boundary
-  const maxLength = 100;
-  if (cleaned.length > maxLength) {
-    cleaned = cleaned.substring(0, maxLength);
-    const lastSpace = cleaned.lastIndexOf(' ');
-    if (lastSpace > maxLength * 0.7) { // Only truncate at word if we're not losing too much
-      cleaned = cleaned.substring(0, lastSpace);
-    }
-    cleaned = cleaned.trim() + '...';
-  }
-  
-  return cleaned || 'Video';
+// Every write is limited per IP (covers the login routes); authenticated routes add per-user limits
+router.use(ipWriteLimit);
+
+// Keep the user's preferred category list in step with a rename/merge/delete
+// (`to` null removes the categories from the list)
+async function replaceInPreferredCategories(userId: string, from: string[], to: string | null): Promise<void> {
+  const preferred = await storage.getPreferredCategories(userId);
+  if (!preferred || !preferred.some(category => from.includes(category))) {
+    return;
+  }
+
+  const updated = preferred.map(category => (from.includes(category) ? to : category));
+  await storage.setPreferredCategories(userId, cleanCategoryList(updated.filter(Boolean)));
 }
 
 // Health check
@@ -59,6 +58,7 @@ router.get('/auth/user', jwtAuthMiddleware, async (req: AuthRequest, res: Respon
   if (!user) {
     return res.status(404).json({ error: 'User not found' });
   }
+  const identities = await storage.getUserIdentities(user.id);
 
   res.json({
     user: {
@@ -68,10 +68,110 @@ router.get('/auth/user', jwtAuthMiddleware, async (req: AuthRequest, res: Respon
       firstName: user.firstName,
       lastName: user.lastName,
       profileImageUrl: user.profileImageUrl,
+      identities: identities.map(serializeIdentity),
     },
   });
 });
 
+// Linked sign-in providers
+router.get('/auth/identities', jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const identities = await storage.getUserIdentities(req.user.id);
+    res.json({ identities: identities.map(serializeIdentity) });
+  } catch (error: any) {
+    console.error('Get identities error:', error);
+    res.status(500).json({ error: 'Failed to fetch identities' });
+  }
+});
+
+// Link a Google account to the signed-in user
+router.post('/auth/identities/google', jwtAuthMiddleware, writeLimit, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { idToken } = req.body;
+    if (!idToken || typeof idToken !== 'string') {
+      return res.status(400).json({ error: 'idToken is required' });
+    }
+
+    const googleUser = await verifyGoogleToken(idToken);
+    const identity = await linkIdentity(req.user.id, googleIdentity(googleUser));
+    res.json({ identity: serializeIdentity(identity) });
+  } catch (error: any) {
+    console.error('Link Google identity error:', error);
+    if (error instanceof AccountLinkError) {
+      return res.status(409).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message || 'Failed to link Google account' });
+  }
+});
+
+// Link an Apple ID to the signed-in user (e.g. a private-relay Apple sign-in to a Google account)
+router.post('/auth/identities/apple', jwtAuthMiddleware, writeLimit, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { identityToken, nonce } = req.body;
+    if (!identityToken || typeof identityToken !== 'string') {
+      return res.status(400).json({ error: 'identityToken is required' });
+    }
+    if (nonce !== undefined && typeof nonce !== 'string') {
+      return res.status(400).json({ error: 'nonce must be a string' });
+    }
+
+    const appleUser = await verifyAppleToken(identityToken, { nonce });
+    const identity = await linkIdentity(req.user.id, appleIdentity(appleUser));
+    res.json({ identity: serializeIdentity(identity) });
+  } catch (error: any) {
+    console.error('Link Apple identity error:', error);
+    if (error instanceof AppleAuthError) {
+      return res.status(401).json({ error: error.message });
+    }
+    if (error instanceof AccountLinkError) {
+      return res.status(409).json({ error: error.message });
+    }
+    res.status(500).json({ error: error.message || 'Failed to link Apple ID' });
+  }
+});
+
+// Unlink a sign-in provider (not the last one)
+router.delete('/auth/identities/:id', jwtAuthMiddleware, writeLimit, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const unlinked = await unlinkIdentity(req.user.id, req.params.id);
+    if (!unlinked) {
+      return res.status(404).json({ error: 'Identity not found' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    if (error instanceof AccountLinkError) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Unlink identity error:', error);
+    res.status(500).json({ error: 'Failed to unlink identity' });
+  }
+});
+
+// Device details recorded with a new session ("deviceName" is chosen by the client, e.g. "Jane's iPhone")
+function deviceInfo(req: Request): DeviceInfo {
+  return {
+    deviceName: typeof req.body?.deviceName === 'string' ? req.body.deviceName : null,
+    userAgent: req.get('user-agent') || null,
+    ipAddress: req.ip || null,
+  };
+}
+
 // Google login
 router.post('/login/google', async (req, res: Response) => {
   try {
@@ -80,10 +180,13 @@ router.post('/login/google', async (req, res: Response) => {
       return res.status(400).json({ error: 'idToken is required' });
     }
 
-    const result = await handleGoogleLogin(idToken);
+    const result = await handleGoogleLogin(idToken, deviceInfo(req));
     res.json(result);
   } catch (error: any) {
     console.error('Google login error:', error);
+    if (error instanceof AccountLinkError) {
+      return res.status(409).json({ error: error.message });
+    }
     res.status(500).json({ error: error.message || 'Login failed' });
   }
 });
@@ -91,45 +194,347 @@ router.post('/login/google', async (req, res: Response) => {
 // Apple login
 router.post('/login/apple', async (req, res: Response) => {
   try {
-    const { identityToken, user: userInfo } = req.body;
-    if (!identityToken) {
+    const { identityToken, user: userInfo, nonce } = req.body;
+    if (!identityToken || typeof identityToken !== 'string') {
       return res.status(400).json({ error: 'identityToken is required' });
     }
+    if (nonce !== undefined && typeof nonce !== 'string') {
+      return res.status(400).json({ error: 'nonce must be a string' });
+    }
 
-    const result = await handleAppleLogin(identityToken, userInfo);
+    const result = await handleAppleLogin(identityToken, userInfo, nonce, deviceInfo(req));
     res.json(result);
   } catch (error: any) {
     console.error('Apple login error:', error);
+    if (error instanceof AppleAuthError) {
+      return res.status(401).json({ error: error.message });
+    }
+    if (error instanceof AccountLinkError) {
+      return res.status(409).json({ error: error.message });
+    }
     res.status(500).json({ error: error.message || 'Login failed' });
   }
 });
 
-// Get all items
-router.get('/items', jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
+// Email magic-link login (web): mail a single-use sign-in link
+router.post('/login/email', async (req, res: Response) => {
+  try {
+    await requestMagicLink(req.body?.email, req.ip || null);
+    res.json({ success: true });
+  } catch (error: any) {
+    if (error instanceof MagicLinkError) {
+      return res.status(error.code === 'rate_limited' ? 429 : 400).json({ error: error.message });
+    }
+    console.error('Magic link request error:', error);
+    if (error instanceof MailerError) {
+      return res.status(503).json({ error: 'Email sign-in is unavailable right now' });
+    }
+    res.status(500).json({ error: 'Failed to send sign-in link' });
+  }
+});
+
+// Email magic-link login (web): exchange the link's token for a token pair
+router.post('/login/email/verify', async (req, res: Response) => {
+  try {
+    const { token } = req.body;
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({ error: 'token is required' });
+    }
+
+    const result = await verifyMagicLink(token, deviceInfo(req));
+    res.json(result);
+  } catch (error: any) {
+    if (error instanceof MagicLinkError) {
+      return res.status(401).json({ error: error.message });
+    }
+    console.error('Magic link login error:', error);
+    if (error instanceof AccountLinkError) {
+      return res.status(409).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Login failed' });
+  }
+});
+
+// Exchange a refresh token for a new token pair (the old refresh token stops working)
+router.post('/auth/refresh', async (req, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({ error: 'refreshToken is required' });
+    }
+
+    const tokens = await refreshSession(refreshToken);
+    res.json(tokens);
+  } catch (error: any) {
+    if (error instanceof SessionError) {
+      return res.status(401).json({ error: error.message });
+    }
+    console.error('Token refresh error:', error);
+    res.status(500).json({ error: 'Failed to refresh token' });
+  }
+});
+
+// Log out the current device
+router.post('/logout', jwtAuthMiddleware, writeLimit, async (req: AuthRequest, res: Response) => {
   if (!req.user) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
   try {
-    const items = await storage.getItemsByUserId(req.user.id);
-    res.json({ items });
+    if (req.sessionId) {
+      await endSession(req.sessionId, req.user.id, 'logout');
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Failed to log out' });
+  }
+});
+
+// List signed-in devices
+router.get('/sessions', jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const sessions = await storage.getActiveAuthSessions(req.user.id);
+    res.json({
+      sessions: sessions.map(session => ({
+        id: session.id,
+        deviceName: session.deviceName,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session.id === req.sessionId,
+      })),
+    });
+  } catch (error: any) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ error: 'Failed to fetch sessions' });
+  }
+});
+
+// Sign out a device (e.g. a lost phone); its access and refresh tokens stop working immediately
+router.delete('/sessions/:id', jwtAuthMiddleware, writeLimit, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const revoked = await endSession(req.params.id, req.user.id, 'revoked');
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+// Personal API keys (managed from a signed-in device, never with an API key)
+router.get('/api-keys', jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const apiKeys = await storage.getApiKeys(req.user.id);
+    res.json({ apiKeys: apiKeys.map(serializeApiKey) });
+  } catch (error: any) {
+    console.error('Get API keys error:', error);
+    res.status(500).json({ error: 'Failed to fetch API keys' });
+  }
+});
+
+// Create an API key ({ name, scopes: ["read", "save"] }); the key is only returned in this response
+router.post('/api-keys', jwtAuthMiddleware, writeLimit, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { apiKey, key } = await createApiKey(req.user.id, req.body?.name, req.body?.scopes);
+    res.json({ apiKey: serializeApiKey(apiKey), key });
+  } catch (error: any) {
+    if (error instanceof ApiKeyError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Create API key error:', error);
+    res.status(500).json({ error: 'Failed to create API key' });
+  }
+});
+
+// Revoke an API key (takes effect immediately)
+router.delete('/api-keys/:id', jwtAuthMiddleware, writeLimit, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const revoked = await storage.revokeApiKey(req.params.id, req.user.id);
+    if (!revoked) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+    console.log(`🔑 API key ${req.params.id} revoked by user ${req.user.id}`);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Revoke API key error:', error);
+    res.status(500).json({ error: 'Failed to revoke API key' });
+  }
+});
+
+// AI usage (tokens and audio minutes) for the current UTC day and month, with quota limits
+router.get('/usage', allowApiKeys('read'), jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const usage = await getUsage(req.user.id);
+    res.json({ usage });
+  } catch (error: any) {
+    console.error('Get usage error:', error);
+    res.status(500).json({ error: 'Failed to fetch usage' });
+  }
+});
+
+// Get items (paginated)
+// Query: type, category, tag, platform, contentType, from, to, sort, limit, cursor
+router.get('/items', allowApiKeys('read'), jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { query, error } = parseItemQuery(req.query);
+  if (!query) {
+    return res.status(400).json({ error });
+  }
+
+  try {
+    const page = await storage.listItems(req.user.id, query);
+    res.json({ items: page.items, nextCursor: page.nextCursor });
   } catch (error: any) {
     console.error('Get items error:', error);
     res.status(500).json({ error: 'Failed to fetch items' });
   }
 });
 
-// Save link
-router.post('/save-link', jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
+// Full-text search across titles, summaries, notes, content and transcripts
+// Query: q (required), the same filters as GET /items, limit, offset
+router.get('/search', allowApiKeys('read'), jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
   if (!req.user) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
+  const { query, error } = parseSearchQuery(req.query);
+  if (!query) {
+    return res.status(400).json({ error });
+  }
+
   try {
-    const { url } = req.body;
+    const results = await storage.searchItems(req.user.id, query);
+    res.json({ results });
+  } catch (error: any) {
+    console.error('Search error:', error);
+    res.status(500).json({ error: 'Failed to search items' });
+  }
+});
+
+// Semantic search: items closest in meaning to q
+// Query: q (required), the same filters as GET /items, limit
+router.get('/search/semantic', allowApiKeys('read'), jwtAuthMiddleware, semanticSearchLimit, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { query, error } = parseSearchQuery(req.query);
+  if (!query) {
+    return res.status(400).json({ error });
+  }
+
+  try {
+    await assertWithinQuota(req.user.id);
+    const embedding = await embedText(query.text, req.user.id);
+    const results = await storage.findSimilarItems(req.user.id, embedding, {
+      limit: query.limit,
+      filters: query.filters,
+    });
+    res.json({ results });
+  } catch (error: any) {
+    if (error instanceof QuotaExceededError) {
+      return res.status(429).json({ error: error.message, resetAt: error.resetAt });
+    }
+    console.error('Semantic search error:', error);
+    res.status(500).json({ error: 'Failed to search items' });
+  }
+});
+
+// Items saved more than once: same canonical URL, or (near-duplicates) same title
+router.get('/items/duplicates', allowApiKeys('read'), jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const groups = await findDuplicateGroups(req.user.id);
+    res.json({ groups });
+  } catch (error: any) {
+    console.error('Find duplicates error:', error);
+    res.status(500).json({ error: 'Failed to find duplicates' });
+  }
+});
+
+// Related items: the user's items closest in meaning to the given item
+router.get('/items/:id/related', allowApiKeys('read'), jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { id } = req.params;
+    const item = await storage.getItemById(id, req.user.id);
+    if (!item) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '5'), 10) || 5, 1), 20);
+
+    // Items saved before embeddings existed (or under another model) are embedded on first request
+    let embedding = await storage.getItemEmbedding(item.id);
+    if (!embedding || embedding.model !== getEmbeddingProvider().model) {
+      embedding = await embedText(itemEmbeddingText(item), req.user.id);
+      await storage.setItemEmbedding(item.id, embedding);
+    }
+
+    const results = await storage.findSimilarItems(req.user.id, embedding, {
+      limit,
+      excludeItemId: item.id,
+    });
+    res.json({ results });
+  } catch (error: any) {
+    console.error('Related items error:', error);
+    res.status(500).json({ error: 'Failed to fetch related items' });
+  }
+});
+
+// Save link (409 with the saved item when the URL is already in the vault, unless `force` is true)
+router.post('/save-link', allowApiKeys('save'), jwtAuthMiddleware, saveLimit, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { url, force } = req.body;
     if (!url || typeof url !== 'string') {
       return res.status(400).json({ error: 'URL is required' });
     }
+    if (force !== undefined && typeof force !== 'boolean') {
+      return res.status(400).json({ error: 'force must be a boolean' });
+    }
 
     // Validate URL
     let urlObj: URL;
@@ -139,49 +544,56 @@ router.post('/save-link', jwtAuthMiddleware, async (req: AuthRequest, res: Respo
       return res.status(400).json({ error: 'Invalid URL format' });
     }
 
-    // Extract metadata
-    const metadata = await extractMetadata(url);
+    // Refuse non-http(s) URLs and private/local addresses before doing any work
+    const blocked = await checkPublicUrl(urlObj);
+    if (blocked) {
+      return res.status(400).json({ error: blocked });
+    }
 
-    // Analyze with AI (pass URL for better context)
-    const aiAnalysis = await analyzeContent(
-      metadata.title,
-      metadata.description,
-      { url: url }
-    );
+    const existing = force ? null : await findSavedItem(req.user.id, url);
+    if (existing) {
+      return res.status(409).json({ error: 'Link already saved', item: existing });
+    }
 
-    // Save to database
-    const item = await storage.createItem({
-      userId: req.user.id,
-      type: 'link',
-      title: metadata.title,
-      summary: aiAnalysis.summary,
-      category: aiAnalysis.category,
-      tags: [],
-      url: url,
-      imageUrl: metadata.imageUrl || undefined,
-    });
+    await assertWithinQuota(req.user.id);
+
+    // Streamed save: stage events as the pipeline runs, then the saved item
+    if (wantsEventStream(req)) {
+      const stream = openEventStream(req, res);
+      try {
+        const item = await ingestLink(req.user.id, url, (stage, detail) => {
+          stream.send('stage', { stage, detail });
+        }, { force });
+        stream.send('completed', { success: true, item });
+      } catch (error: any) {
+        if (error instanceof DuplicateItemError) {
+          stream.send('failed', { error: 'Link already saved', item: await findSavedItem(req.user.id, url) });
+        } else {
+          console.error('Save link error:', error);
+          stream.send('failed', { error: describeAIError(error, 'Failed to save link') });
+        }
+      }
+      stream.close();
+      return;
+    }
 
+    const item = await ingestLink(req.user.id, url, undefined, { force });
     res.json({ success: true, item });
   } catch (error: any) {
-    console.error('Save link error:', error);
-    
-    // Handle OpenAI API errors specifically
-    if (error.message?.includes('quota') || error.message?.includes('billing')) {
-      res.status(500).json({ 
-        error: 'OpenAI quota exceeded. Please check your billing or use a different API key. The app will use fallback categorization.' 
-      });
-    } else if (error.message?.includes('model') || error.message?.includes('gpt')) {
-      res.status(500).json({ 
-        error: 'AI service error. Please check your OpenAI API key and model access.' 
-      });
-    } else {
-      res.status(500).json({ error: error.message || 'Failed to save link' });
+    if (error instanceof QuotaExceededError) {
+      return res.status(429).json({ error: error.message, resetAt: error.resetAt });
+    }
+    // Saved by a concurrent request while this one was analyzing
+    if (error instanceof DuplicateItemError) {
+      return res.status(409).json({ error: 'Link already saved', item: await findSavedItem(req.user!.id, req.body.url) });
     }
+    console.error('Save link error:', error);
+    res.status(500).json({ error: describeAIError(error, 'Failed to save link') });
   }
 });
 
 // Save note
-router.post('/save-note', jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
+router.post('/save-note', allowApiKeys('save'), jwtAuthMiddleware, saveLimit, async (req: AuthRequest, res: Response) => {
   if (!req.user) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
@@ -195,8 +607,11 @@ router.post('/save-note', jwtAuthMiddleware, async (req: AuthRequest, res: Respo
       return res.status(400).json({ error: 'Content is required' });
     }
 
-    // Analyze with AI
-    const aiAnalysis = await analyzeContent(title, content);
+    await assertWithinQuota(req.user.id);
+
+    // Analyze with AI (constrained to the user's categories)
+    const categories = await storage.getPreferredCategories(req.user.id);
+    const aiAnalysis = await analyzeContent(title, content, { categories, userId: req.user.id });
 
     // Save to database
     const item = await storage.createItem({
@@ -205,31 +620,25 @@ router.post('/save-note', jwtAuthMiddleware, async (req: AuthRequest, res: Respo
       title: title,
       summary: aiAnalysis.summary,
       category: aiAnalysis.category,
-      tags: [],
+      tags: aiAnalysis.tags,
+      aiFallback: aiAnalysis.fallback,
       content: content,
     });
 
+    await embedItem(item);
+
     res.json({ success: true, item });
   } catch (error: any) {
-    console.error('Save note error:', error);
-    
-    // Handle OpenAI API errors specifically
-    if (error.message?.includes('quota') || error.message?.includes('billing')) {
-      res.status(500).json({ 
-        error: 'OpenAI quota exceeded. Please check your billing or use a different API key. The app will use fallback categorization.' 
-      });
-    } else if (error.message?.includes('model') || error.message?.includes('gpt')) {
-      res.status(500).json({ 
-        error: 'AI service error. Please check your OpenAI API key and model access.' 
-      });
-    } else {
-      res.status(500).json({ error: error.message || 'Failed to save note' });
+    if (error instanceof QuotaExceededError) {
+      return res.status(429).json({ error: error.message, resetAt: error.resetAt });
     }
+    console.error('Save note error:', error);
+    res.status(500).json({ error: describeAIError(error, 'Failed to save note') });
   }
 });
 
-// Get categories
-router.get('/categories', jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
+// Get categories (distinct categories in use, plus the user's preferred list if set)
+router.get('/categories', allowApiKeys('read'), jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
   if (!req.user) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
@@ -237,24 +646,117 @@ router.get('/categories', jwtAuthMiddleware, async (req: AuthRequest, res: Respo
   try {
     const items = await storage.getItemsByUserId(req.user.id);
     const categories = new Set(items.map(item => item.category));
-    res.json({ categories: Array.from(categories).sort() });
+    const preferred = await storage.getPreferredCategories(req.user.id);
+    res.json({ categories: Array.from(categories).sort(), preferred });
   } catch (error: any) {
     console.error('Get categories error:', error);
     res.status(500).json({ error: 'Failed to fetch categories' });
   }
 });
 
+// Set the preferred category list (an empty array clears it)
+router.put('/categories/preferred', jwtAuthMiddleware, writeLimit, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { categories } = req.body;
+    if (!Array.isArray(categories)) {
+      return res.status(400).json({ error: 'categories must be an array of strings' });
+    }
+
+    const preferred = cleanCategoryList(categories);
+    await storage.setPreferredCategories(req.user.id, preferred);
+    res.json({ success: true, preferred: preferred.length > 0 ? preferred : null });
+  } catch (error: any) {
+    console.error('Set preferred categories error:', error);
+    res.status(500).json({ error: 'Failed to update preferred categories' });
+  }
+});
+
+// Rename a category across all of the user's items
+router.post('/categories/rename', jwtAuthMiddleware, writeLimit, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const from = cleanCategoryName(req.body.from);
+    const to = cleanCategoryName(req.body.to);
+    if (!from || !to) {
+      return res.status(400).json({ error: 'from and to are required' });
+    }
+
+    const updated = await storage.replaceCategory(req.user.id, [from], to);
+    await replaceInPreferredCategories(req.user.id, [from], to);
+    res.json({ success: true, category: to, updated });
+  } catch (error: any) {
+    console.error('Rename category error:', error);
+    res.status(500).json({ error: 'Failed to rename category' });
+  }
+});
+
+// Merge several categories into one across all of the user's items
+router.post('/categories/merge', jwtAuthMiddleware, writeLimit, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const sources = cleanCategoryList(req.body.categories);
+    const into = cleanCategoryName(req.body.into);
+    if (sources.length === 0 || !into) {
+      return res.status(400).json({ error: 'categories (array) and into are required' });
+    }
+
+    const updated = await storage.replaceCategory(req.user.id, sources, into);
+    await replaceInPreferredCategories(req.user.id, sources, into);
+    res.json({ success: true, category: into, updated });
+  } catch (error: any) {
+    console.error('Merge categories error:', error);
+    res.status(500).json({ error: 'Failed to merge categories' });
+  }
+});
+
+// Delete a category: its items move to the default category
+router.delete('/categories/:name', jwtAuthMiddleware, writeLimit, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const name = cleanCategoryName(req.params.name);
+    if (!name) {
+      return res.status(400).json({ error: 'Category name is required' });
+    }
+
+    const updated = await storage.replaceCategory(req.user.id, [name], DEFAULT_CATEGORY);
+    await replaceInPreferredCategories(req.user.id, [name], null);
+    res.json({ success: true, category: DEFAULT_CATEGORY, updated });
+  } catch (error: any) {
+    console.error('Delete category error:', error);
+    res.status(500).json({ error: 'Failed to delete category' });
+  }
+});
+
 // Save video (TikTok, Instagram Reel, YouTube Short)
-router.post('/save-video', jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
+// Responds immediately with a 'processing' item and a job id; transcription and AI
+// structuring run in the background job queue (poll GET /api/jobs/:id). Like links, a video
+// already in the vault gets 409 with the saved item unless `force` is true
+router.post('/save-video', allowApiKeys('save'), jwtAuthMiddleware, videoLimit, async (req: AuthRequest, res: Response) => {
   if (!req.user) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
   try {
-    const { url } = req.body;
+    const { url, force } = req.body;
     if (!url || typeof url !== 'string') {
       return res.status(400).json({ error: 'URL is required' });
     }
+    if (force !== undefined && typeof force !== 'boolean') {
+      return res.status(400).json({ error: 'force must be a boolean' });
+    }
 
     // Validate URL
     let urlObj: URL;
@@ -264,6 +766,12 @@ router.post('/save-video', jwtAuthMiddleware, async (req: AuthRequest, res: Resp
       return res.status(400).json({ error: 'Invalid URL format' });
     }
 
+    // Refuse non-http(s) URLs and private/local addresses before doing any work
+    const blocked = await checkPublicUrl(urlObj);
+    if (blocked) {
+      return res.status(400).json({ error: blocked });
+    }
+
     // Detect platform
     const platform = detectVideoPlatform(url);
     if (!platform.supported) {
@@ -272,87 +780,205 @@ router.post('/save-video', jwtAuthMiddleware, async (req: AuthRequest, res: Resp
       });
     }
 
-    console.log(`📹 Processing ${platform.type} video: ${url}`);
-
-    // Step 1: Extract audio and transcribe
-    const transcript = await processVideo(url);
-    
-    if (!transcript || transcript.trim().length === 0) {
-      return res.status(500).json({ error: 'Failed to transcribe video audio' });
+    const existing = force ? null : await findSavedItem(req.user.id, url);
+    if (existing) {
+      return res.status(409).json({ error: 'Video already saved', item: existing });
     }
 
-    // Step 2: Transform transcript into structured content (includes AI-generated title)
-    const aiAnalysis = await transformVideoContent(transcript, url);
-
-    // Step 3: Use AI-generated title (prioritized) or fallback to metadata
-    let title = aiAnalysis.title || `Video from ${platform.type}`;
-    let imageUrl: string | undefined;
-    
-    try {
-      const metadata = await extractMetadata(url);
-      // Only use metadata title if AI didn't generate a good one
-      if (!aiAnalysis.title || aiAnalysis.title === 'Video' || aiAnalysis.title.length < 5) {
-        if (metadata.title) {
-          // Clean and summarize title: remove hashtags, emojis, and truncate
-          title = cleanVideoTitle(metadata.title);
-        }
-      }
-      imageUrl = metadata.imageUrl || undefined;
-    } catch (e) {
-      // Metadata extraction is optional, continue without it
-      console.warn('Metadata extraction failed, using AI-generated title');
-    }
+    await assertWithinQuota(req.user.id, { audio: true });
 
-    // Step 4: Save to database
+    // Placeholder item, filled in when the job completes
     const item = await storage.createItem({
       userId: req.user.id,
       type: 'video',
-      title: title,
-      summary: aiAnalysis.summary,
-      category: aiAnalysis.category,
+      status: 'processing',
+      title: `Video from ${platform.type}`,
+      summary: '',
+      category: DEFAULT_CATEGORY,
       tags: [],
       url: url,
-      imageUrl: imageUrl,
+      canonicalUrl: force ? undefined : canonicalUrl(url),
       videoData: {
         platform: platform.type,
-        transcript: transcript,
-        structuredContent: aiAnalysis.structuredContent,
       },
     });
 
-    console.log(`✅ Video saved successfully: ${item.id}`);
-    res.json({ success: true, item });
+    const job = await jobQueue.enqueue({
+      userId: req.user.id,
+      type: 'video_ingest',
+      payload: { url, platform: platform.type },
+      itemId: item.id,
+    });
+
+    res.status(202).json({ success: true, item, jobId: job.id, job: serializeJob(job) });
   } catch (error: any) {
+    if (error instanceof QuotaExceededError) {
+      return res.status(429).json({ error: error.message, resetAt: error.resetAt });
+    }
+    // Saved by a concurrent request since the check above
+    if (error instanceof DuplicateItemError) {
+      return res.status(409).json({ error: 'Video already saved', item: await findSavedItem(req.user!.id, req.body.url) });
+    }
     console.error('Save video error:', error);
-    
-    // Handle specific errors
-    if (error.message?.includes('yt-dlp') || error.message?.includes('extract')) {
-      res.status(500).json({ 
-        error: 'Failed to extract audio from video. Make sure yt-dlp is installed and the video is accessible.' 
-      });
-    } else if (error.message?.includes('Whisper') || error.message?.includes('transcribe')) {
-      res.status(500).json({ 
-        error: 'Failed to transcribe audio. Please check your OpenAI API key and Whisper access.' 
-      });
-    } else if (error.message?.includes('quota') || error.message?.includes('billing')) {
-      res.status(500).json({ 
-        error: 'OpenAI quota exceeded. Please check your billing.' 
-      });
+    res.status(500).json({ error: error.message || 'Failed to save video' });
+  }
+});
+
+// Background job status
+router.get('/jobs/:id', allowApiKeys('read', 'save'), jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const job = await storage.getJob(req.params.id, req.user.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const item = job.itemId ? await storage.getItemById(job.itemId, req.user.id) : null;
+    res.json({ job: serializeJob(job), item });
+  } catch (error: any) {
+    console.error('Get job error:', error);
+    res.status(500).json({ error: 'Failed to fetch job' });
+  }
+});
+
+// Live job progress as Server-Sent Events
+// Events: 'stage' {stage, detail}, 'retrying' {error, detail}, then a final 'completed' {job, item}
+// or 'failed' {job, item, error}; the stream closes after the final event
+router.get('/jobs/:id/events', allowApiKeys('read', 'save'), jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const userId = req.user.id;
+
+  try {
+    const job = await storage.getJob(req.params.id, userId);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const stream = openEventStream(req, res);
+
+    // Send the final event with the latest job and item, then end the stream
+    const finish = async () => {
+      if (stream.closed) return;
+      const latest = await storage.getJob(job.id, userId);
+      if (!latest || stream.closed) return stream.close();
+      const item = latest.itemId ? await storage.getItemById(latest.itemId, userId) : null;
+      const event = latest.status === 'completed' ? 'completed' : 'failed';
+      stream.send(event, { job: serializeJob(latest), item, error: latest.error ?? undefined });
+      stream.close();
+    };
+
+    if (job.status === 'completed' || job.status === 'failed') {
+      await finish();
+      return;
+    }
+
+    let lastStage = job.stage;
+    stream.send('stage', { stage: lastStage || 'queued' });
+
+    const unsubscribe = progressBus.subscribe(job.id, (event: ProgressEvent) => {
+      if (event.type === 'stage') {
+        lastStage = event.stage || null;
+        stream.send('stage', { stage: event.stage, detail: event.detail });
+      } else if (event.type === 'retrying') {
+        stream.send('retrying', { error: event.error, detail: event.detail });
+      } else {
+        finish().catch(error => console.error('Job events error:', error));
+      }
+    });
+
+    // The job may be running in another instance: fall back to polling storage
+    const poll = setInterval(async () => {
+      try {
+        const latest = await storage.getJob(job.id, userId);
+        if (!latest) return stream.close();
+        if (latest.status === 'completed' || latest.status === 'failed') {
+          await finish();
+        } else if (latest.stage && latest.stage !== lastStage) {
+          lastStage = latest.stage;
+          stream.send('stage', { stage: latest.stage });
+        }
+      } catch (error: any) {
+        console.error('Job events poll error:', error.message);
+      }
+    }, 3000);
+
+    stream.onClose(() => {
+      unsubscribe();
+      clearInterval(poll);
+    });
+  } catch (error: any) {
+    console.error('Job events error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to stream job progress' });
     } else {
-      res.status(500).json({ error: error.message || 'Failed to save video' });
+      res.end();
+    }
+  }
+});
+
+// Retry a failed job from scratch
+router.post('/jobs/:id/retry', jwtAuthMiddleware, videoLimit, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const job = await storage.getJob(req.params.id, req.user.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    if (job.status !== 'failed') {
+      return res.status(409).json({ error: 'Only failed jobs can be retried' });
+    }
+
+    await assertWithinQuota(req.user.id, { audio: true });
+
+    if (job.itemId) {
+      try {
+        await storage.updateItem(job.itemId, req.user.id, { status: 'processing' });
+      } catch (error) {
+        // The video was saved again after this job failed
+        if (error instanceof DuplicateItemError) {
+          const item = await storage.getItemById(job.itemId, req.user.id);
+          const saved = item?.url ? await findSavedItem(req.user.id, item.url) : null;
+          return res.status(409).json({ error: 'Video already saved', item: saved });
+        }
+        throw error;
+      }
     }
+    const updated = await storage.updateJob(job.id, {
+      status: 'queued',
+      stage: null,
+      attempts: 0,
+      error: null,
+      runAt: new Date(),
+    });
+
+    res.status(202).json({ success: true, job: serializeJob(updated || job) });
+  } catch (error: any) {
+    if (error instanceof QuotaExceededError) {
+      return res.status(429).json({ error: error.message, resetAt: error.resetAt });
+    }
+    console.error('Retry job error:', error);
+    res.status(500).json({ error: 'Failed to retry job' });
   }
 });
 
 // Update item (for notes/annotations and note items)
-router.patch('/items/:id', jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
+router.patch('/items/:id', jwtAuthMiddleware, writeLimit, async (req: AuthRequest, res: Response) => {
   if (!req.user) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
   try {
     const { id } = req.params;
-    const { userNotes, title, content, summary, category } = req.body;
+    const { userNotes, title, content, summary, category, tags } = req.body;
 
     // Get the existing item to check its type
     const existingItem = await storage.getItemById(id, req.user.id);
@@ -367,10 +993,18 @@ router.patch('/items/:id', jwtAuthMiddleware, async (req: AuthRequest, res: Resp
       updates.userNotes = userNotes || undefined;
     }
 
-    // Allow updating category for any item type
+    // Allow updating category for any item type (cleaned like the category routes; clearing it
+    // moves the item to the default category)
     if (category !== undefined) {
-      // If category is null or empty string, set to empty string (not null, as DB schema requires not null)
-      updates.category = category || '';
+      updates.category = cleanCategoryName(category) || DEFAULT_CATEGORY;
+    }
+
+    // Allow replacing the tag list for any item type
+    if (tags !== undefined) {
+      if (!Array.isArray(tags)) {
+        return res.status(400).json({ error: 'tags must be an array of strings' });
+      }
+      updates.tags = normalizeTags(tags);
     }
 
     // Allow updating title, content, summary for note items only
@@ -392,6 +1026,11 @@ router.patch('/items/:id', jwtAuthMiddleware, async (req: AuthRequest, res: Resp
       return res.status(404).json({ error: 'Item not found' });
     }
 
+    // Text changed: refresh the embedding so semantic search stays accurate
+    if (Object.keys(updates).length > 0) {
+      await embedItem(updated);
+    }
+
     res.json({ success: true, item: updated });
   } catch (error: any) {
     console.error('Update item error:', error);
@@ -399,8 +1038,133 @@ router.patch('/items/:id', jwtAuthMiddleware, async (req: AuthRequest, res: Resp
   }
 });
 
+// Add tags to an item
+router.post('/items/:id/tags', jwtAuthMiddleware, writeLimit, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { id } = req.params;
+    const { tags } = req.body;
+    if (!Array.isArray(tags) || tags.length === 0) {
+      return res.status(400).json({ error: 'tags must be a non-empty array of strings' });
+    }
+
+    const existingItem = await storage.getItemById(id, req.user.id);
+    if (!existingItem) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+
+    const updated = await storage.updateItem(id, req.user.id, {
+      tags: normalizeTags([...existingItem.tags, ...tags], MAX_TAGS_PER_ITEM),
+    });
+    if (!updated) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+
+    // Tags are part of the embedded text (see itemEmbeddingText)
+    await embedItem(updated);
+
+    res.json({ success: true, item: updated });
+  } catch (error: any) {
+    console.error('Add tags error:', error);
+    res.status(500).json({ error: 'Failed to add tags' });
+  }
+});
+
+// Remove a tag from an item
+router.delete('/items/:id/tags/:tag', jwtAuthMiddleware, writeLimit, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { id } = req.params;
+    const tag = normalizeTag(req.params.tag);
+
+    const existingItem = await storage.getItemById(id, req.user.id);
+    if (!existingItem) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+
+    const updated = await storage.updateItem(id, req.user.id, {
+      tags: existingItem.tags.filter(existing => existing !== tag),
+    });
+    if (!updated) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+
+    if (updated.tags.length !== existingItem.tags.length) {
+      await embedItem(updated);
+    }
+
+    res.json({ success: true, item: updated });
+  } catch (error: any) {
+    console.error('Remove tag error:', error);
+    res.status(500).json({ error: 'Failed to remove tag' });
+  }
+});
+
+// Get all tags with item counts
+router.get('/tags', allowApiKeys('read'), jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const tags = await storage.getTagCounts(req.user.id);
+    res.json({ tags });
+  } catch (error: any) {
+    console.error('Get tags error:', error);
+    res.status(500).json({ error: 'Failed to fetch tags' });
+  }
+});
+
+// Rename a tag across all of the user's items
+router.post('/tags/rename', jwtAuthMiddleware, writeLimit, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const from = normalizeTag(req.body.from);
+    const to = normalizeTag(req.body.to);
+    if (!from || !to) {
+      return res.status(400).json({ error: 'from and to are required' });
+    }
+
+    const updated = await storage.replaceTags(req.user.id, [from], to);
+    res.json({ success: true, tag: to, updated });
+  } catch (error: any) {
+    console.error('Rename tag error:', error);
+    res.status(500).json({ error: 'Failed to rename tag' });
+  }
+});
+
+// Merge several tags into one across all of the user's items
+router.post('/tags/merge', jwtAuthMiddleware, writeLimit, async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const sources = normalizeTags(req.body.tags, Infinity);
+    const into = normalizeTag(req.body.into);
+    if (sources.length === 0 || !into) {
+      return res.status(400).json({ error: 'tags (array) and into are required' });
+    }
+
+    const updated = await storage.replaceTags(req.user.id, sources, into);
+    res.json({ success: true, tag: into, updated });
+  } catch (error: any) {
+    console.error('Merge tags error:', error);
+    res.status(500).json({ error: 'Failed to merge tags' });
+  }
+});
+
 // Delete item
-router.delete('/items/:id', jwtAuthMiddleware, async (req: AuthRequest, res: Response) => {
+router.delete('/items/:id', jwtAuthMiddleware, writeLimit, async (req: AuthRequest, res: Response) => {
   if (!req.user) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
@@ -0,0 +1,272 @@
+// Outbound HTTP for user-supplied URLs (SSRF protection)
+// Only http(s) to public addresses: every hostname is resolved and checked before connecting,
+// on every redirect hop, and the connection uses the checked address (no DNS rebinding window).
+// Bodies are size-capped and content types restricted
+
+import http from 'http';
+import https from 'https';
+import { lookup as dnsLookup, LookupAddress } from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+import fetch from 'node-fetch';
+
+export type SafeFetchErrorCode =
+  | 'invalid_url'
+  | 'blocked_scheme'
+  | 'blocked_address'
+  | 'too_many_redirects'
+  | 'too_large'
+  | 'unsupported_content_type'
+  | 'timeout';
+
+// A URL or response the fetch layer refuses; retrying will not help
+export class SafeFetchError extends Error {
+  readonly retryable = false;
+
+  constructor(message: string, readonly code: SafeFetchErrorCode) {
+    super(message);
+    this.name = 'SafeFetchError';
+  }
+}
+
+export interface SafeFetchOptions {
+  maxBytes?: number;
+  // Accepted media types ("text/html", "image/*"); omit to accept any
+  allowedContentTypes?: string[];
+  timeoutMs?: number;
+  maxRedirects?: number;
+  headers?: Record<string, string>;
+}
+
+export interface SafeFetchResponse {
+  url: string; // final URL after redirects
+  status: number;
+  ok: boolean;
+  contentType: string; // media type without parameters, lowercased
+  headers: Record<string, string>;
+  body: Buffer;
+}
+
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_MAX_REDIRECTS = 5;
+const USER_AGENT = 'Mozilla/5.0 (compatible; SmartVault/1.0; +https://smartvault.app)';
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast, documentation and reserved ranges,
+// plus the IPv6 transition ranges that can carry any IPv4 address (6to4, local-use NAT64)
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.88.99.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b:1::', 48], ['100::', 64], ['2001:db8::', 32], ['2002::', 16],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+// IPv4 address embedded in an IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible or NAT64 IPv6 address
+function embeddedIPv4(address: string): string | null {
+  const match = address.toLowerCase().match(/^(?:::ffff:|::|64:ff9b::)(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+  if (!match) return null;
+  if (match[1]) return match[1];
+  const high = parseInt(match[2], 16);
+  const low = parseInt(match[3], 16);
+  return [high >> 8, high & 255, low >> 8, low & 255].join('.');
+}
+
+// Whether an IP address must never be fetched from (not a public unicast address)
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  if (family === 4) return blockedAddresses.check(address, 'ipv4');
+
+  const ipv4 = embeddedIPv4(address);
+  if (ipv4) return blockedAddresses.check(ipv4, 'ipv4');
+  return blockedAddresses.check(address, 'ipv6');
+}
+
+// Scheme, credentials and host-name checks that need no DNS lookup
+export function validateUrl(value: string | URL): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new SafeFetchError('Invalid URL', 'invalid_url');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new SafeFetchError(`URL scheme ${url.protocol} is not allowed`, 'blocked_scheme');
+  }
+  if (url.username || url.password) {
+    throw new SafeFetchError('URLs with credentials are not allowed', 'invalid_url');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+  if (!hostname || hostname === 'localhost' || /\.(localhost|local|internal)$/.test(hostname)) {
+    throw new SafeFetchError(`Host ${hostname || '(empty)'} is not allowed`, 'blocked_address');
+  }
+  if (isIP(hostname) && isBlockedAddress(hostname)) {
+    throw new SafeFetchError(`Address ${hostname} is private or reserved`, 'blocked_address');
+  }
+  return url;
+}
+
+function resolveAll(hostname: string): Promise<LookupAddress[]> {
+  return new Promise((resolve, reject) => {
+    dnsLookup(hostname, { all: true }, (error, addresses) => (error ? reject(error) : resolve(addresses)));
+  });
+}
+
+// Resolve a host name and reject it if any of its addresses is private or reserved
+// (a host with one public and one private record could otherwise be steered to the private one)
+async function resolvePublicAddresses(hostname: string): Promise<LookupAddress[]> {
+  const addresses = await resolveAll(hostname);
+  const blocked = addresses.find(entry => isBlockedAddress(entry.address));
+  if (blocked) {
+    throw new SafeFetchError(`Host ${hostname} resolves to private or reserved address ${blocked.address}`, 'blocked_address');
+  }
+  if (addresses.length === 0) {
+    throw new SafeFetchError(`Host ${hostname} did not resolve`, 'blocked_address');
+  }
+  return addresses;
+}
+
+// Full check of a URL before handing it to a tool that fetches on its own (yt-dlp)
+export async function assertPublicUrl(value: string | URL): Promise<URL> {
+  const url = validateUrl(value);
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (!isIP(hostname)) {
+    await resolvePublicAddresses(hostname);
+  }
+  return url;
+}
+
+// Why a user-supplied URL is refused, or null if it may be fetched (for request validation;
+// DNS failures are not refusals, the fetch itself reports them)
+export async function checkPublicUrl(value: string | URL): Promise<string | null> {
+  try {
+    await assertPublicUrl(value);
+    return null;
+  } catch (error: any) {
+    return error instanceof SafeFetchError ? error.message : null;
+  }
+}
+
+// DNS lookup used by the fetch agents: the socket connects to the address that was checked
+const safeLookup: LookupFunction = (hostname, options, callback) => {
+  resolvePublicAddresses(hostname).then(
+    addresses => {
+      const family = options.family === 4 || options.family === 6 ? options.family : 0;
+      const candidates = family ? addresses.filter(entry => entry.family === family) : addresses;
+      if (candidates.length === 0) {
+        callback(Object.assign(new Error(`No IPv${family} address for ${hostname}`), { code: 'ENOTFOUND' }), '', 0);
+      } else if (options.all) {
+        (callback as any)(null, candidates);
+      } else {
+        callback(null, candidates[0].address, candidates[0].family);
+      }
+    },
+    error => callback(error, '', 0)
+  );
+};
+
+const httpAgent = new http.Agent({ lookup: safeLookup });
+const httpsAgent = new https.Agent({ lookup: safeLookup });
+
+function mediaType(contentType: string | null): string {
+  return (contentType || '').split(';')[0].trim().toLowerCase();
+}
+
+function isAllowedContentType(type: string, allowed: string[]): boolean {
+  return allowed.some(pattern =>
+    pattern.endsWith('/*') ? type.startsWith(pattern.slice(0, -1)) : type === pattern.toLowerCase()
+  );
+}
+
+function describeSize(bytes: number): string {
+  return bytes < 1024 * 1024
+    ? `${Math.ceil(bytes / 1024)} KB`
+    : `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+}
+
+// GET a user-supplied URL with redirects followed manually (each hop re-checked)
+export async function safeFetch(value: string, options: SafeFetchOptions = {}): Promise<SafeFetchResponse> {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+  try {
+    let url = validateUrl(value);
+    for (let redirects = 0; ; redirects++) {
+      let response;
+      try {
+        response = await fetch(url.href, {
+          signal: controller.signal,
+          redirect: 'manual',
+          size: maxBytes,
+          agent: url.protocol === 'http:' ? httpAgent : httpsAgent,
+          headers: { 'User-Agent': USER_AGENT, ...options.headers },
+        });
+      } catch (error: any) {
+        throw unwrapFetchError(error, url);
+      }
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        if (redirects >= maxRedirects) {
+          throw new SafeFetchError(`Too many redirects (limit ${maxRedirects})`, 'too_many_redirects');
+        }
+        url = validateUrl(new URL(location, url));
+        continue;
+      }
+
+      const contentType = mediaType(response.headers.get('content-type'));
+      if (options.allowedContentTypes && !isAllowedContentType(contentType, options.allowedContentTypes)) {
+        throw new SafeFetchError(`Content type ${contentType || '(none)'} is not supported`, 'unsupported_content_type');
+      }
+
+      const declaredLength = parseInt(response.headers.get('content-length') || '', 10);
+      if (declaredLength > maxBytes) {
+        throw new SafeFetchError(`Response is too large (${describeSize(declaredLength)}, limit ${describeSize(maxBytes)})`, 'too_large');
+      }
+
+      let body: Buffer;
+      try {
+        body = Buffer.from(await response.arrayBuffer());
+      } catch (error: any) {
+        throw unwrapFetchError(error, url, maxBytes);
+      }
+
+      return {
+        url: url.href,
+        status: response.status,
+        ok: response.ok,
+        contentType,
+        headers: Object.fromEntries(response.headers.entries()),
+        body,
+      };
+    }
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// node-fetch wraps lookup and size errors; surface them as SafeFetchError
+function unwrapFetchError(error: any, url: URL, maxBytes?: number): Error {
+  if (error instanceof SafeFetchError) return error;
+  if (error?.type === 'max-size') {
+    return new SafeFetchError(`Response is too large (limit ${describeSize(maxBytes || 0)})`, 'too_large');
+  }
+  if (error?.name === 'AbortError') {
+    return new SafeFetchError(`Request to ${url.hostname} timed out`, 'timeout');
+  }
+  if (error?.code === 'blocked_address') {
+    return new SafeFetchError(error.message.replace(/^.*reason: /, ''), 'blocked_address');
+  }
+  return error;
+}
@@ -0,0 +1,197 @@
+// Full-text search: tokenizer, in-memory inverted index and snippet highlighting
+
+import { Item } from '../shared/schema';
+import { ItemFilters, parseItemFilters } from './itemQuery';
+
+export interface SearchQuery {
+  text: string;
+  filters: ItemFilters;
+  limit: number;
+  offset: number;
+}
+
+export interface SearchResult {
+  item: Item;
+  score: number;
+  snippet: string;
+}
+
+// Markers wrapped around matched terms in snippets (same for both storage backends)
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_END = '</mark>';
+
+const SNIPPET_LENGTH = 160;
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 50;
+
+// Relative importance of each field (mirrors the tsvector weights A-D used in PostgreSQL)
+const FIELD_WEIGHTS = {
+  title: 1.0,
+  summary: 0.4,
+  userNotes: 0.4,
+  content: 0.2,
+  transcript: 0.1,
+};
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'had', 'has', 'have',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'my', 'no', 'not', 'of', 'on', 'or', 'our',
+  'so', 'that', 'the', 'their', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we',
+  'were', 'what', 'when', 'which', 'who', 'will', 'with', 'you', 'your',
+]);
+
+// Parse and validate GET /search query parameters (q + item list filters + limit/offset)
+export function parseSearchQuery(query: Record<string, unknown>): { query?: SearchQuery; error?: string } {
+  const text = typeof query.q === 'string' ? query.q.trim() : '';
+  if (!text) return { error: 'q is required' };
+
+  const { filters, error } = parseItemFilters(query);
+  if (!filters) return { error };
+
+  let limit = DEFAULT_SEARCH_LIMIT;
+  if (query.limit !== undefined) {
+    limit = parseInt(String(query.limit), 10);
+    if (isNaN(limit) || limit < 1) return { error: 'limit must be a positive integer' };
+    limit = Math.min(limit, MAX_SEARCH_LIMIT);
+  }
+
+  let offset = 0;
+  if (query.offset !== undefined) {
+    offset = parseInt(String(query.offset), 10);
+    if (isNaN(offset) || offset < 0) return { error: 'offset must be a non-negative integer' };
+  }
+
+  return { query: { text, filters, limit, offset } };
+}
+
+// Light suffix stripping so "recipes"/"recipe" and "cooking"/"cook" match
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+// Split text into normalized search terms
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(word => !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+function searchableFields(item: Item): Record<SearchField, string> {
+  return {
+    title: item.title || '',
+    summary: item.summary || '',
+    userNotes: item.userNotes || '',
+    // Notes keep their text in content, links in the extracted article
+    content: item.content || item.article?.text || '',
+    transcript: item.videoData?.transcript || '',
+  };
+}
+
+// Build a highlighted snippet around the first matching term
+// (prefers the summary, notes, content and transcript over the title, which clients show anyway)
+export function buildSnippet(item: Item, terms: string[]): string {
+  const fields = searchableFields(item);
+  const termSet = new Set(terms);
+  const order: SearchField[] = ['summary', 'userNotes', 'content', 'transcript', 'title'];
+
+  for (const field of order) {
+    const text = fields[field];
+    const words = Array.from(text.matchAll(/[\p{L}\p{N}]+/gu));
+    const match = words.find(word => termSet.has(stem(word[0].toLowerCase())));
+    if (!match || match.index === undefined) continue;
+
+    // Centre the window on the first match
+    let start = Math.max(0, match.index - Math.floor(SNIPPET_LENGTH / 3));
+    const end = Math.min(text.length, start + SNIPPET_LENGTH);
+    start = Math.max(0, Math.min(start, end - SNIPPET_LENGTH));
+    const window = text.slice(start, end);
+
+    const highlighted = window.replace(/[\p{L}\p{N}]+/gu, word =>
+      termSet.has(stem(word.toLowerCase())) ? `${HIGHLIGHT_START}${word}${HIGHLIGHT_END}` : word
+    );
+
+    return `${start > 0 ? '…' : ''}${highlighted.trim()}${end < text.length ? '…' : ''}`;
+  }
+
+  return (item.summary || '').slice(0, SNIPPET_LENGTH);
+}
+
+// In-memory inverted index: term -> (itemId -> weighted term frequency)
+export class SearchIndex {
+  private postings: Map<string, Map<string, number>> = new Map();
+  private termsByItem: Map<string, Set<string>> = new Map();
+
+  add(item: Item): void {
+    this.remove(item.id);
+
+    const weights = new Map<string, number>();
+    const fields = searchableFields(item);
+    for (const field of Object.keys(fields) as SearchField[]) {
+      for (const term of tokenize(fields[field])) {
+        weights.set(term, (weights.get(term) || 0) + FIELD_WEIGHTS[field]);
+      }
+    }
+
+    for (const [term, weight] of weights) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(item.id, weight);
+    }
+    this.termsByItem.set(item.id, new Set(weights.keys()));
+  }
+
+  remove(itemId: string): void {
+    const terms = this.termsByItem.get(itemId);
+    if (!terms) return;
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      posting?.delete(itemId);
+      if (posting && posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.termsByItem.delete(itemId);
+  }
+
+  // Score items containing every query term (TF-IDF style, higher is better)
+  search(terms: string[]): Map<string, number> {
+    const scores = new Map<string, number>();
+    const unique = Array.from(new Set(terms));
+    if (unique.length === 0) return scores;
+
+    const totalItems = Math.max(this.termsByItem.size, 1);
+    const postings = unique.map(term => this.postings.get(term));
+    if (postings.some(posting => !posting)) return scores;
+
+    // Start from the rarest term to keep the candidate set small
+    const sorted = (postings as Map<string, number>[]).sort((a, b) => a.size - b.size);
+    for (const itemId of sorted[0].keys()) {
+      let score = 0;
+      let matchesAll = true;
+      for (const posting of sorted) {
+        const weight = posting.get(itemId);
+        if (weight === undefined) {
+          matchesAll = false;
+          break;
+        }
+        const idf = Math.log(1 + totalItems / posting.size);
+        score += (weight / (1 + weight)) * idf;
+      }
+      if (matchesAll) {
+        scores.set(itemId, score);
+      }
+    }
+
+    return scores;
+  }
+}
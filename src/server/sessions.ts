@@ -0,0 +1,136 @@
+// Device sessions with rotating refresh tokens
+// Every sign-in creates a session; the client gets a short-lived access token and a refresh token
+// of the form "<sessionId>.<secret>". Only a hash of the secret is stored. Each refresh replaces
+// the secret, so presenting an already-used refresh token means it was copied: the whole session
+// is revoked (reuse detection) and both the thief and the legitimate device must sign in again
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { AuthSession, User } from '../shared/schema';
+import { accessTokenLifetime, generateToken } from './jwt';
+import { storage } from './storage';
+
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '60', 10);
+const MAX_DEVICE_NAME_LENGTH = 100;
+const MAX_USER_AGENT_LENGTH = 500;
+
+export interface DeviceInfo {
+  deviceName?: string | null;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface TokenPair {
+  token: string; // access token (Bearer)
+  refreshToken: string;
+  expiresIn: number; // access token lifetime in seconds
+}
+
+// A refresh token that can't be used (unknown, expired, revoked or reused); the client must sign in again
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function refreshExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function issueTokens(user: Pick<User, 'id' | 'email'>, sessionId: string, secret: string): TokenPair {
+  const token = generateToken({ userId: user.id, email: user.email, sessionId });
+  return {
+    token,
+    refreshToken: `${sessionId}.${secret}`,
+    expiresIn: accessTokenLifetime(token),
+  };
+}
+
+function clip(value: string | null | undefined, length: number): string | null {
+  const trimmed = typeof value === 'string' ? value.trim() : '';
+  return trimmed ? trimmed.substring(0, length) : null;
+}
+
+// New session for a user who just signed in
+export async function startSession(user: Pick<User, 'id' | 'email'>, device: DeviceInfo = {}): Promise<TokenPair> {
+  const secret = randomBytes(32).toString('base64url');
+  const session = await storage.createAuthSession({
+    userId: user.id,
+    deviceName: clip(device.deviceName, MAX_DEVICE_NAME_LENGTH),
+    userAgent: clip(device.userAgent, MAX_USER_AGENT_LENGTH),
+    ipAddress: clip(device.ipAddress, 64),
+    refreshTokenHash: hashSecret(secret),
+    expiresAt: refreshExpiry(),
+  });
+
+  console.log(`🔐 Session ${session.id} started for user ${user.id}${session.deviceName ? ` (${session.deviceName})` : ''}`);
+  return issueTokens(user, session.id, secret);
+}
+
+// Exchange a refresh token for a new access token and refresh token
+export async function refreshSession(refreshToken: string): Promise<TokenPair> {
+  const separator = refreshToken.lastIndexOf('.');
+  const sessionId = separator > 0 ? refreshToken.substring(0, separator) : '';
+  const secret = separator > 0 ? refreshToken.substring(separator + 1) : '';
+  if (!sessionId || !secret) {
+    throw new SessionError('Malformed refresh token');
+  }
+
+  const session = await storage.getAuthSession(sessionId);
+  if (!session) {
+    throw new SessionError('Invalid refresh token');
+  }
+  if (session.revokedAt) {
+    throw new SessionError('Session has been revoked');
+  }
+  if (session.expiresAt <= new Date()) {
+    throw new SessionError('Session has expired');
+  }
+
+  const presentedHash = hashSecret(secret);
+  if (!timingSafeEqual(Buffer.from(presentedHash), Buffer.from(session.refreshTokenHash))) {
+    await revokeForReuse(session);
+    throw new SessionError('Refresh token has already been used');
+  }
+
+  const user = await storage.getUserById(session.userId);
+  if (!user) {
+    throw new SessionError('User not found');
+  }
+
+  const nextSecret = randomBytes(32).toString('base64url');
+  const rotated = await storage.rotateRefreshToken(session.id, presentedHash, hashSecret(nextSecret), refreshExpiry());
+  if (!rotated) {
+    // Another refresh with the same token won the race: the token was used twice
+    await revokeForReuse(session);
+    throw new SessionError('Refresh token has already been used');
+  }
+
+  return issueTokens(user, rotated.id, nextSecret);
+}
+
+async function revokeForReuse(session: AuthSession): Promise<void> {
+  const revoked = await storage.revokeAuthSession(session.id, session.userId, 'reuse_detected');
+  if (revoked) {
+    console.warn(`⚠️ Refresh token reuse detected, revoked session ${session.id} of user ${session.userId}`);
+  }
+}
+
+// Whether an access token's session is still valid for the user
+export async function isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+  const session = await storage.getAuthSession(sessionId);
+  return !!session && session.userId === userId && !session.revokedAt && session.expiresAt > new Date();
+}
+
+// Sign a device out (its own logout, or revoked from another device); false if already inactive
+export async function endSession(sessionId: string, userId: string, reason: 'logout' | 'revoked'): Promise<boolean> {
+  const revoked = await storage.revokeAuthSession(sessionId, userId, reason);
+  if (revoked) {
+    console.log(`🔒 Session ${sessionId} of user ${userId} ended (${reason})`);
+  }
+  return revoked;
+}
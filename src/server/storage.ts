@@ -1,6 +1,13 @@
 // Storage interface and implementations
 
-import { User, Item } from '../shared/schema';
+import { User, Item, Job, AuthSession, SessionRevokeReason, IdentityProvider, UserIdentity, MagicLinkToken, ApiKey, AIUsage, AICacheEntry } from '../shared/schema';
+import { PgStorage } from './pgStorage';
+import { ItemQuery, ItemPage, ItemFilters, matchesFilters, compareItems, isAfterCursor, encodeCursor } from './itemQuery';
+import { SearchIndex, SearchQuery, SearchResult, tokenize, buildSnippet } from './searchIndex';
+import { ItemEmbedding, SimilarItem, rankBySimilarity } from './embeddings';
+import { TagCount, replaceTagsInList } from './tags';
+import { DuplicateItemError } from './urls';
+import type { AIUsageTotals } from './usage';
 
 export interface IStorage {
   // User operations
@@ -8,12 +15,117 @@ export interface IStorage {
   getUserById(id: string): Promise<User | null>;
   getUserByEmail(email: string): Promise<User | null>;
 
+  // Linked sign-in identities (see identities.ts)
+  getUserIdentity(provider: IdentityProvider, subject: string): Promise<UserIdentity | null>;
+  // Oldest first
+  getUserIdentities(userId: string): Promise<UserIdentity[]>;
+  createUserIdentity(identity: NewUserIdentity): Promise<UserIdentity>;
+  // Record a sign-in with the identity (and the email the provider reported this time)
+  touchUserIdentity(id: string, email: string | null): Promise<void>;
+  deleteUserIdentity(id: string, userId: string): Promise<boolean>;
+
   // Item operations
+  // createItem and updateItem reject with DuplicateItemError when another of the user's items that
+  // hasn't failed has the same canonicalUrl (see urls.ts)
   createItem(item: Omit<Item, 'id' | 'createdAt'>): Promise<Item>;
   getItemsByUserId(userId: string): Promise<Item[]>;
+  // The user's item saved under a canonical URL, failed items aside (see duplicates.ts)
+  getItemByCanonicalUrl(userId: string, canonicalUrl: string): Promise<Item | null>;
+  listItems(userId: string, query: ItemQuery): Promise<ItemPage>;
+  searchItems(userId: string, query: SearchQuery): Promise<SearchResult[]>;
   getItemById(id: string, userId: string): Promise<Item | null>;
   updateItem(id: string, userId: string, updates: Partial<Item>): Promise<Item | null>;
   deleteItem(id: string, userId: string): Promise<boolean>;
+
+  // Tag operations (tags are normalized by the caller, see tags.ts)
+  getTagCounts(userId: string): Promise<TagCount[]>;
+  // Replace every tag in `from` with `to` across the user's items; returns the number of items changed
+  replaceTags(userId: string, from: string[], to: string): Promise<number>;
+
+  // Category operations
+  // Replace every category in `from` with `to` across the user's items; returns the number of items changed
+  replaceCategory(userId: string, from: string[], to: string): Promise<number>;
+  // User's preferred category list (null when they haven't set one)
+  getPreferredCategories(userId: string): Promise<string[] | null>;
+  setPreferredCategories(userId: string, categories: string[]): Promise<void>;
+
+  // Background job operations (see jobs.ts)
+  createJob(job: NewJob): Promise<Job>;
+  getJob(id: string, userId: string): Promise<Job | null>;
+  // Atomically take the oldest due queued job and mark it running (null if none)
+  claimNextJob(): Promise<Job | null>;
+  updateJob(id: string, updates: Partial<Omit<Job, 'id' | 'userId' | 'createdAt'>>): Promise<Job | null>;
+  // Running jobs locked before `lockedBefore` belong to a worker that died: put them back in the
+  // queue, or fail them with `error` when that was their last attempt (so a job that crashes the
+  // process isn't retried forever). Returns the number requeued and the jobs failed
+  recoverStaleJobs(lockedBefore: Date, error: string): Promise<{ requeued: number; failed: Job[] }>;
+
+  // Email sign-in link operations (see magicLink.ts)
+  createMagicLinkToken(token: NewMagicLinkToken): Promise<MagicLinkToken>;
+  // Links requested for an email address or from an IP address since a point in time
+  countMagicLinkTokens(filter: { email?: string; ipAddress?: string }, since: Date): Promise<number>;
+  // Atomically mark an unused, unexpired token as used; null if there is none
+  consumeMagicLinkToken(tokenHash: string): Promise<MagicLinkToken | null>;
+  // Remove tokens that expired before `before`; returns the number removed
+  deleteExpiredMagicLinkTokens(before: Date): Promise<number>;
+
+  // Personal API key operations (see apiKeys.ts)
+  createApiKey(apiKey: NewApiKey): Promise<ApiKey>;
+  // Active (unrevoked) key with this hash
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | null>;
+  // The user's active keys, newest first
+  getApiKeys(userId: string): Promise<ApiKey[]>;
+  touchApiKey(id: string): Promise<void>;
+  revokeApiKey(id: string, userId: string): Promise<boolean>;
+
+  // AI usage metering (see usage.ts)
+  recordAIUsage(usage: NewAIUsage): Promise<void>;
+  // Totals of the user's usage recorded at or after `since`
+  getAIUsageTotals(userId: string, since: Date): Promise<AIUsageTotals>;
+
+  // Shared AI result cache (see aiCache.ts)
+  // Unexpired entry for the key (null if none)
+  getAICacheEntry(key: string): Promise<AICacheEntry | null>;
+  // Insert the entry, replacing any entry with the same key
+  setAICacheEntry(entry: NewAICacheEntry): Promise<void>;
+  // Remove entries that expired before `before`; returns the number removed
+  deleteExpiredAICacheEntries(before: Date): Promise<number>;
+
+  // Device session operations (see sessions.ts)
+  createAuthSession(session: NewAuthSession): Promise<AuthSession>;
+  getAuthSession(id: string): Promise<AuthSession | null>;
+  // Sessions that are neither revoked nor expired, most recently used first
+  getActiveAuthSessions(userId: string): Promise<AuthSession[]>;
+  // Atomically replace the refresh token hash if it still equals `currentHash` and the session is
+  // active; null otherwise (a stale token was presented, or the session was revoked meanwhile)
+  rotateRefreshToken(id: string, currentHash: string, nextHash: string, expiresAt: Date): Promise<AuthSession | null>;
+  // Revoke an active session of the user; false if there was none
+  revokeAuthSession(id: string, userId: string, reason: SessionRevokeReason): Promise<boolean>;
+
+  // Embedding operations (semantic search / related items)
+  setItemEmbedding(itemId: string, embedding: ItemEmbedding): Promise<void>;
+  getItemEmbedding(itemId: string): Promise<ItemEmbedding | null>;
+  findSimilarItems(userId: string, embedding: ItemEmbedding, options: SimilarItemsOptions): Promise<SimilarItem[]>;
+}
+
+export type NewJob = Pick<Job, 'userId' | 'type' | 'payload' | 'itemId' | 'maxAttempts'>;
+
+export type NewUserIdentity = Pick<UserIdentity, 'userId' | 'provider' | 'subject' | 'email'>;
+
+export type NewMagicLinkToken = Pick<MagicLinkToken, 'email' | 'tokenHash' | 'ipAddress' | 'expiresAt'>;
+
+export type NewApiKey = Pick<ApiKey, 'userId' | 'name' | 'prefix' | 'keyHash' | 'scopes'>;
+
+export type NewAIUsage = Pick<AIUsage, 'userId' | 'kind' | 'model' | 'tokens' | 'audioSeconds'>;
+
+export type NewAICacheEntry = Pick<AICacheEntry, 'key' | 'kind' | 'version' | 'value' | 'expiresAt'>;
+
+export type NewAuthSession = Pick<AuthSession, 'userId' | 'deviceName' | 'userAgent' | 'ipAddress' | 'refreshTokenHash' | 'expiresAt'>;
+
+export interface SimilarItemsOptions {
+  limit: number;
+  filters?: ItemFilters;
+  excludeItemId?: string;
 }
 
 // In-memory storage implementation (for development)
@@ -21,6 +133,17 @@ export class MemStorage implements IStorage {
   private users: Map<string, User> = new Map();
   private items: Map<string, Item> = new Map();
   private userByEmail: Map<string, string> = new Map(); // email -> userId
+  private identities: Map<string, UserIdentity> = new Map();
+  private identityByProviderSubject: Map<string, string> = new Map(); // "provider:subject" -> identity id
+  private searchIndex = new SearchIndex();
+  private embeddings: Map<string, ItemEmbedding> = new Map(); // itemId -> embedding
+  private preferredCategories: Map<string, string[]> = new Map(); // userId -> categories
+  private jobs: Map<string, Job> = new Map();
+  private authSessions: Map<string, AuthSession> = new Map();
+  private magicLinkTokens: Map<string, MagicLinkToken> = new Map(); // token hash -> token
+  private apiKeys: Map<string, ApiKey> = new Map();
+  private aiUsage: AIUsage[] = [];
+  private aiCache: Map<string, AICacheEntry> = new Map();
 
   async upsertUser(userData: Partial<User> & { email: string }): Promise<User> {
     const existing = this.userByEmail.get(userData.email);
@@ -61,14 +184,75 @@ export class MemStorage implements IStorage {
     return this.users.get(userId) || null;
   }
 
+  async getUserIdentity(provider: IdentityProvider, subject: string): Promise<UserIdentity | null> {
+    const id = this.identityByProviderSubject.get(`${provider}:${subject}`);
+    if (!id) return null;
+    return this.identities.get(id) || null;
+  }
+
+  async getUserIdentities(userId: string): Promise<UserIdentity[]> {
+    return Array.from(this.identities.values())
+      .filter(identity => identity.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createUserIdentity(identityData: NewUserIdentity): Promise<UserIdentity> {
+    const key = `${identityData.provider}:${identityData.subject}`;
+    if (this.identityByProviderSubject.has(key)) {
+      throw new Error(`Identity ${key} is already linked`);
+    }
+
+    const now = new Date();
+    const identity: UserIdentity = {
+      ...identityData,
+      id: `identity-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: now,
+      lastUsedAt: now,
+    };
+    this.identities.set(identity.id, identity);
+    this.identityByProviderSubject.set(key, identity.id);
+    return identity;
+  }
+
+  async touchUserIdentity(id: string, email: string | null): Promise<void> {
+    const identity = this.identities.get(id);
+    if (identity) {
+      this.identities.set(id, { ...identity, email, lastUsedAt: new Date() });
+    }
+  }
+
+  async deleteUserIdentity(id: string, userId: string): Promise<boolean> {
+    const identity = this.identities.get(id);
+    if (!identity || identity.userId !== userId) {
+      return false;
+    }
+    this.identities.delete(id);
+    this.identityByProviderSubject.delete(`${identity.provider}:${identity.subject}`);
+    return true;
+  }
+
+  // Mirrors the items_user_canonical_url_idx unique index of PgStorage
+  private assertNoDuplicate(item: Item): void {
+    if (!item.canonicalUrl || item.status === 'failed') return;
+    for (const other of this.items.values()) {
+      if (other.id !== item.id && other.userId === item.userId && other.canonicalUrl === item.canonicalUrl && other.status !== 'failed') {
+        throw new DuplicateItemError();
+      }
+    }
+  }
+
   async createItem(itemData: Omit<Item, 'id' | 'createdAt'>): Promise<Item> {
     const newItem: Item = {
       ...itemData,
+      status: itemData.status || 'ready',
+      aiFallback: itemData.aiFallback ?? false,
       id: `item-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       createdAt: new Date(),
     };
 
+    this.assertNoDuplicate(newItem);
     this.items.set(newItem.id, newItem);
+    this.searchIndex.add(newItem);
     return newItem;
   }
 
@@ -78,6 +262,41 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
+  async getItemByCanonicalUrl(userId: string, canonicalUrl: string): Promise<Item | null> {
+    for (const item of this.items.values()) {
+      if (item.userId === userId && item.canonicalUrl === canonicalUrl && item.status !== 'failed') {
+        return item;
+      }
+    }
+    return null;
+  }
+
+  async listItems(userId: string, query: ItemQuery): Promise<ItemPage> {
+    const matching = Array.from(this.items.values())
+      .filter(item => item.userId === userId && matchesFilters(item, query))
+      .filter(item => !query.cursor || isAfterCursor(item, query.cursor, query.sort))
+      .sort((a, b) => compareItems(a, b, query.sort));
+
+    const page = matching.slice(0, query.limit);
+    const hasMore = matching.length > query.limit;
+    return {
+      items: page,
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1], query.sort) : null,
+    };
+  }
+
+  async searchItems(userId: string, query: SearchQuery): Promise<SearchResult[]> {
+    const terms = tokenize(query.text);
+    const scores = this.searchIndex.search(terms);
+
+    return Array.from(scores.entries())
+      .map(([id, score]) => ({ item: this.items.get(id)!, score }))
+      .filter(({ item }) => item && item.userId === userId && matchesFilters(item, query.filters))
+      .sort((a, b) => b.score - a.score || b.item.createdAt.getTime() - a.item.createdAt.getTime())
+      .slice(query.offset, query.offset + query.limit)
+      .map(({ item, score }) => ({ item, score, snippet: buildSnippet(item, terms) }));
+  }
+
   async getItemById(id: string, userId: string): Promise<Item | null> {
     const item = this.items.get(id);
     if (!item || item.userId !== userId) {
@@ -101,7 +320,9 @@ export class MemStorage implements IStorage {
       createdAt: item.createdAt,
     };
     
+    this.assertNoDuplicate(updated);
     this.items.set(id, updated);
+    this.searchIndex.add(updated);
     return updated;
   }
 
@@ -111,10 +332,320 @@ export class MemStorage implements IStorage {
       return false;
     }
     this.items.delete(id);
+    this.searchIndex.remove(id);
+    this.embeddings.delete(id);
     return true;
   }
+
+  async getTagCounts(userId: string): Promise<TagCount[]> {
+    const counts = new Map<string, number>();
+    for (const item of this.items.values()) {
+      if (item.userId !== userId) continue;
+      for (const tag of item.tags) {
+        counts.set(tag, (counts.get(tag) || 0) + 1);
+      }
+    }
+    return Array.from(counts.entries())
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  async replaceTags(userId: string, from: string[], to: string): Promise<number> {
+    let changed = 0;
+    for (const item of this.items.values()) {
+      if (item.userId !== userId || !item.tags.some(tag => from.includes(tag))) continue;
+      const updated = { ...item, tags: replaceTagsInList(item.tags, from, to) };
+      this.items.set(item.id, updated);
+      this.searchIndex.add(updated);
+      changed++;
+    }
+    return changed;
+  }
+
+  async replaceCategory(userId: string, from: string[], to: string): Promise<number> {
+    let changed = 0;
+    for (const item of this.items.values()) {
+      if (item.userId !== userId || !from.includes(item.category) || item.category === to) continue;
+      this.items.set(item.id, { ...item, category: to });
+      changed++;
+    }
+    return changed;
+  }
+
+  async getPreferredCategories(userId: string): Promise<string[] | null> {
+    return this.preferredCategories.get(userId) || null;
+  }
+
+  async setPreferredCategories(userId: string, categories: string[]): Promise<void> {
+    if (categories.length === 0) {
+      this.preferredCategories.delete(userId);
+    } else {
+      this.preferredCategories.set(userId, [...categories]);
+    }
+  }
+
+  async createJob(jobData: NewJob): Promise<Job> {
+    const now = new Date();
+    const job: Job = {
+      ...jobData,
+      id: `job-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      status: 'queued',
+      stage: null,
+      attempts: 0,
+      error: null,
+      runAt: now,
+      lockedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  async getJob(id: string, userId: string): Promise<Job | null> {
+    const job = this.jobs.get(id);
+    if (!job || job.userId !== userId) {
+      return null;
+    }
+    return job;
+  }
+
+  async claimNextJob(): Promise<Job | null> {
+    const now = new Date();
+    const next = Array.from(this.jobs.values())
+      .filter(job => job.status === 'queued' && job.runAt <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())[0];
+    if (!next) {
+      return null;
+    }
+
+    const claimed: Job = { ...next, status: 'running', attempts: next.attempts + 1, lockedAt: now, updatedAt: now };
+    this.jobs.set(claimed.id, claimed);
+    return claimed;
+  }
+
+  async updateJob(id: string, updates: Partial<Omit<Job, 'id' | 'userId' | 'createdAt'>>): Promise<Job | null> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return null;
+    }
+    const updated: Job = { ...job, ...updates, updatedAt: new Date() };
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  async recoverStaleJobs(lockedBefore: Date, error: string): Promise<{ requeued: number; failed: Job[] }> {
+    let requeued = 0;
+    const failed: Job[] = [];
+    for (const job of this.jobs.values()) {
+      if (job.status !== 'running' || !job.lockedAt || job.lockedAt >= lockedBefore) continue;
+      if (job.attempts >= job.maxAttempts) {
+        const failedJob: Job = { ...job, status: 'failed', error, lockedAt: null, updatedAt: new Date() };
+        this.jobs.set(job.id, failedJob);
+        failed.push(failedJob);
+      } else {
+        this.jobs.set(job.id, { ...job, status: 'queued', lockedAt: null, updatedAt: new Date() });
+        requeued++;
+      }
+    }
+    return { requeued, failed };
+  }
+
+  async createMagicLinkToken(tokenData: NewMagicLinkToken): Promise<MagicLinkToken> {
+    const token: MagicLinkToken = {
+      ...tokenData,
+      id: `magic-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date(),
+      usedAt: null,
+    };
+    this.magicLinkTokens.set(token.tokenHash, token);
+    return token;
+  }
+
+  async countMagicLinkTokens(filter: { email?: string; ipAddress?: string }, since: Date): Promise<number> {
+    return Array.from(this.magicLinkTokens.values()).filter(token =>
+      token.createdAt >= since &&
+      (filter.email === undefined || token.email === filter.email) &&
+      (filter.ipAddress === undefined || token.ipAddress === filter.ipAddress)
+    ).length;
+  }
+
+  async consumeMagicLinkToken(tokenHash: string): Promise<MagicLinkToken | null> {
+    const token = this.magicLinkTokens.get(tokenHash);
+    if (!token || token.usedAt || token.expiresAt <= new Date()) {
+      return null;
+    }
+    const used = { ...token, usedAt: new Date() };
+    this.magicLinkTokens.set(tokenHash, used);
+    return used;
+  }
+
+  async deleteExpiredMagicLinkTokens(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const [hash, token] of this.magicLinkTokens) {
+      if (token.expiresAt < before) {
+        this.magicLinkTokens.delete(hash);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async createApiKey(apiKeyData: NewApiKey): Promise<ApiKey> {
+    const apiKey: ApiKey = {
+      ...apiKeyData,
+      id: `apikey-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date(),
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+    this.apiKeys.set(apiKey.id, apiKey);
+    return apiKey;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    return Array.from(this.apiKeys.values()).find(apiKey => apiKey.keyHash === keyHash && !apiKey.revokedAt) || null;
+  }
+
+  async getApiKeys(userId: string): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter(apiKey => apiKey.userId === userId && !apiKey.revokedAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async touchApiKey(id: string): Promise<void> {
+    const apiKey = this.apiKeys.get(id);
+    if (apiKey) {
+      this.apiKeys.set(id, { ...apiKey, lastUsedAt: new Date() });
+    }
+  }
+
+  async revokeApiKey(id: string, userId: string): Promise<boolean> {
+    const apiKey = this.apiKeys.get(id);
+    if (!apiKey || apiKey.userId !== userId || apiKey.revokedAt) {
+      return false;
+    }
+    this.apiKeys.set(id, { ...apiKey, revokedAt: new Date() });
+    return true;
+  }
+
+  async recordAIUsage(usageData: NewAIUsage): Promise<void> {
+    this.aiUsage.push({
+      ...usageData,
+      id: `usage-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date(),
+    });
+  }
+
+  async getAIUsageTotals(userId: string, since: Date): Promise<AIUsageTotals> {
+    const totals: AIUsageTotals = { tokens: 0, audioSeconds: 0, requests: 0 };
+    for (const usage of this.aiUsage) {
+      if (usage.userId === userId && usage.createdAt >= since) {
+        totals.tokens += usage.tokens;
+        totals.audioSeconds += usage.audioSeconds;
+        totals.requests++;
+      }
+    }
+    return totals;
+  }
+
+  async getAICacheEntry(key: string): Promise<AICacheEntry | null> {
+    const entry = this.aiCache.get(key);
+    if (!entry || entry.expiresAt <= new Date()) {
+      return null;
+    }
+    // A copy per read, as from the database: callers may modify what they get
+    return { ...entry, value: JSON.parse(JSON.stringify(entry.value)) };
+  }
+
+  async setAICacheEntry(entryData: NewAICacheEntry): Promise<void> {
+    this.aiCache.set(entryData.key, {
+      ...entryData,
+      value: JSON.parse(JSON.stringify(entryData.value)),
+      createdAt: new Date(),
+    });
+  }
+
+  async deleteExpiredAICacheEntries(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const [key, entry] of this.aiCache) {
+      if (entry.expiresAt < before) {
+        this.aiCache.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async createAuthSession(sessionData: NewAuthSession): Promise<AuthSession> {
+    const now = new Date();
+    const session: AuthSession = {
+      ...sessionData,
+      id: `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: now,
+      lastUsedAt: now,
+      revokedAt: null,
+      revokedReason: null,
+    };
+    this.authSessions.set(session.id, session);
+    return session;
+  }
+
+  async getAuthSession(id: string): Promise<AuthSession | null> {
+    return this.authSessions.get(id) || null;
+  }
+
+  async getActiveAuthSessions(userId: string): Promise<AuthSession[]> {
+    const now = new Date();
+    return Array.from(this.authSessions.values())
+      .filter(session => session.userId === userId && !session.revokedAt && session.expiresAt > now)
+      .sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime());
+  }
+
+  async rotateRefreshToken(id: string, currentHash: string, nextHash: string, expiresAt: Date): Promise<AuthSession | null> {
+    const session = this.authSessions.get(id);
+    if (!session || session.revokedAt || session.refreshTokenHash !== currentHash) {
+      return null;
+    }
+    const rotated: AuthSession = { ...session, refreshTokenHash: nextHash, expiresAt, lastUsedAt: new Date() };
+    this.authSessions.set(id, rotated);
+    return rotated;
+  }
+
+  async revokeAuthSession(id: string, userId: string, reason: SessionRevokeReason): Promise<boolean> {
+    const session = this.authSessions.get(id);
+    if (!session || session.userId !== userId || session.revokedAt) {
+      return false;
+    }
+    this.authSessions.set(id, { ...session, revokedAt: new Date(), revokedReason: reason });
+    return true;
+  }
+
+  async setItemEmbedding(itemId: string, embedding: ItemEmbedding): Promise<void> {
+    if (this.items.has(itemId)) {
+      this.embeddings.set(itemId, embedding);
+    }
+  }
+
+  async getItemEmbedding(itemId: string): Promise<ItemEmbedding | null> {
+    return this.embeddings.get(itemId) || null;
+  }
+
+  async findSimilarItems(userId: string, embedding: ItemEmbedding, options: SimilarItemsOptions): Promise<SimilarItem[]> {
+    const candidates: Array<{ item: Item; vector: number[] }> = [];
+    for (const [itemId, stored] of this.embeddings) {
+      const item = this.items.get(itemId);
+      if (!item || item.userId !== userId || itemId === options.excludeItemId) continue;
+      if (stored.model !== embedding.model) continue;
+      if (options.filters && !matchesFilters(item, options.filters)) continue;
+      candidates.push({ item, vector: stored.vector });
+    }
+    return rankBySimilarity(embedding.vector, candidates, options.limit);
+  }
 }
 
-// Singleton instance
-export const storage = new MemStorage();
+// Singleton instance: PostgreSQL when DATABASE_URL is set, in-memory otherwise
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new PgStorage(process.env.DATABASE_URL)
+  : new MemStorage();
 
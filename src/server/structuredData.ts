@@ -0,0 +1,243 @@
+// schema.org Recipe / HowTo / ExercisePlan extraction (JSON-LD and microdata)
+// Mapped into the same StructuredContent shapes the video pipeline produces, so link and
+// video items render the same way in the app
+
+import type { CheerioAPI } from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import { StructuredContent } from '../shared/schema';
+
+export type SchemaNode = Record<string, any>;
+
+const SUPPORTED_TYPES = ['Recipe', 'HowTo', 'ExercisePlan'];
+
+// "Recipe", "schema:Recipe", "http://schema.org/Recipe" -> "Recipe"
+function typeName(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/^.*[/:#]/, '') : '';
+}
+
+export function nodeTypes(node: SchemaNode): string[] {
+  const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+  return types.map(typeName).filter(Boolean);
+}
+
+export function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// Text of a schema.org value: strings as-is, objects by text/name, HTML tags and entities removed
+export function text(value: unknown): string {
+  if (typeof value === 'number') return String(value);
+  if (value && typeof value === 'object') {
+    const node = value as SchemaNode;
+    return text(node.text ?? node.name ?? node['@value'] ?? '');
+  }
+  if (typeof value !== 'string') return '';
+  return value
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// ISO 8601 duration ("PT1H30M") -> "1 hour 30 minutes"; other strings are kept as written
+export function formatDuration(value: unknown): string | undefined {
+  const raw = text(value);
+  if (!raw) return undefined;
+
+  const match = raw.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i);
+  if (!match) return raw;
+
+  const [, days, hours, minutes, seconds] = match.map(part => (part ? parseInt(part, 10) : 0));
+  const totalHours = days * 24 + hours;
+  const parts: string[] = [];
+  if (totalHours) parts.push(`${totalHours} ${totalHours === 1 ? 'hour' : 'hours'}`);
+  if (minutes) parts.push(`${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`);
+  if (seconds && !totalHours) parts.push(`${seconds} ${seconds === 1 ? 'second' : 'seconds'}`);
+  return parts.length > 0 ? parts.join(' ') : undefined;
+}
+
+// Flatten HowToSection / HowToStep / ItemList / plain strings into ordered step texts
+function stepTexts(value: unknown): string[] {
+  const steps: string[] = [];
+
+  for (const entry of asArray(value as any)) {
+    if (typeof entry === 'string') {
+      // A single block of text: one step per line
+      steps.push(...entry.split(/\n+/).map(line => text(line)).filter(Boolean));
+    } else if (entry && typeof entry === 'object') {
+      const types = nodeTypes(entry);
+      if (types.includes('HowToSection') || types.includes('ItemList') || (!entry.text && entry.itemListElement)) {
+        steps.push(...stepTexts(entry.itemListElement));
+      } else {
+        const step = text(entry.text) || text(entry.name) || text(entry.description);
+        if (step) steps.push(step);
+      }
+    }
+  }
+
+  return steps;
+}
+
+function numberFrom(value: unknown): number | undefined {
+  for (const entry of asArray(value as any)) {
+    const match = text(entry).match(/\d+/);
+    if (match) return parseInt(match[0], 10);
+  }
+  return undefined;
+}
+
+function mapRecipe(node: SchemaNode): StructuredContent | null {
+  const ingredients = asArray(node.recipeIngredient ?? node.ingredients).map(text).filter(Boolean);
+  const instructions = stepTexts(node.recipeInstructions);
+  if (ingredients.length === 0 && instructions.length === 0) return null;
+
+  const cookTime = formatDuration(node.cookTime) || formatDuration(node.totalTime);
+  return {
+    type: 'recipe',
+    recipe: {
+      name: text(node.name) || 'Untitled Recipe',
+      ingredients,
+      instructions,
+      ...(numberFrom(node.recipeYield) !== undefined && { servings: numberFrom(node.recipeYield) }),
+      ...(formatDuration(node.prepTime) && { prepTime: formatDuration(node.prepTime) }),
+      ...(cookTime && { cookTime }),
+    },
+  };
+}
+
+function mapHowTo(node: SchemaNode): StructuredContent | null {
+  const steps = stepTexts(node.step ?? node.steps);
+  if (steps.length === 0) return null;
+
+  const tools = [...asArray(node.tool), ...asArray(node.supply)].map(text).filter(Boolean);
+  return {
+    type: 'tutorial',
+    tutorial: {
+      title: text(node.name) || 'Untitled Guide',
+      steps: steps.map((description, index) => ({ step: index + 1, description })),
+      ...(tools.length > 0 && { tools }),
+      ...(text(node.difficulty) && { difficulty: text(node.difficulty) }),
+    },
+  };
+}
+
+function mapExercisePlan(node: SchemaNode): StructuredContent | null {
+  const name = text(node.name);
+  const exerciseTypes = asArray(node.exerciseType).map(text).filter(Boolean);
+  if (!name && exerciseTypes.length === 0) return null;
+
+  const reps = text(node.repetitions) || undefined;
+  const duration = formatDuration(node.activityDuration);
+  return {
+    type: 'workout',
+    workout: {
+      name: name || exerciseTypes[0],
+      exercises: (exerciseTypes.length > 0 ? exerciseTypes : [name]).map(exercise => ({
+        name: exercise,
+        ...(reps && { reps }),
+        ...(duration && { duration }),
+      })),
+      ...(duration && { duration }),
+      ...(text(node.intensity) && { difficulty: text(node.intensity) }),
+    },
+  };
+}
+
+export function mapSchemaNode(node: SchemaNode): StructuredContent | null {
+  const types = nodeTypes(node);
+  if (types.includes('Recipe')) return mapRecipe(node);
+  if (types.includes('HowTo')) return mapHowTo(node);
+  if (types.includes('ExercisePlan')) return mapExercisePlan(node);
+  return null;
+}
+
+// All nodes in a JSON-LD document, including @graph members and nested mainEntity objects
+function collectJsonLdNodes(value: unknown, nodes: SchemaNode[]): void {
+  for (const entry of asArray(value as any)) {
+    if (!entry || typeof entry !== 'object') continue;
+    nodes.push(entry);
+    if (entry['@graph']) collectJsonLdNodes(entry['@graph'], nodes);
+    if (entry.mainEntity) collectJsonLdNodes(entry.mainEntity, nodes);
+  }
+}
+
+export function jsonLdNodes($: CheerioAPI): SchemaNode[] {
+  const nodes: SchemaNode[] = [];
+  $('script[type="application/ld+json"]').each((_, element) => {
+    const source = $(element).text();
+    try {
+      collectJsonLdNodes(JSON.parse(source), nodes);
+    } catch {
+      try {
+        // Some sites leave raw newlines inside strings, which JSON.parse rejects
+        collectJsonLdNodes(JSON.parse(source.replace(/[\u0000-\u001f]+/g, ' ')), nodes);
+      } catch {
+        // Ignore malformed blocks
+      }
+    }
+  });
+  return nodes;
+}
+
+// Value of one itemprop element (nested items become objects)
+function microdataValue($: CheerioAPI, element: AnyNode): unknown {
+  const $element = $(element);
+  if ($element.is('[itemscope]')) return microdataItem($, element);
+  if ($element.is('meta')) return $element.attr('content') || '';
+  if ($element.is('link, a, area')) return $element.attr('href') || $element.text();
+  if ($element.is('img, audio, video, source')) return $element.attr('src') || '';
+  if ($element.is('time')) return $element.attr('datetime') || $element.text();
+  if ($element.is('data, meter')) return $element.attr('value') || $element.text();
+  return $element.text();
+}
+
+// An itemscope element as a JSON-LD-like object; properties of nested items stay with them
+function microdataItem($: CheerioAPI, scope: AnyNode): SchemaNode {
+  const node: SchemaNode = { '@type': typeName($(scope).attr('itemtype')) };
+
+  $(scope).find('[itemprop]').each((_, element) => {
+    // Skip properties that belong to a nested itemscope
+    const owner = $(element).parent().closest('[itemscope]')[0];
+    if (owner !== scope) return;
+
+    const value = microdataValue($, element);
+    for (const property of ($(element).attr('itemprop') || '').split(/\s+/).filter(Boolean)) {
+      node[property] = property in node ? [...asArray(node[property]), value] : value;
+    }
+  });
+
+  return node;
+}
+
+function microdataNodes($: CheerioAPI): SchemaNode[] {
+  const selector = SUPPORTED_TYPES.map(type => `[itemscope][itemtype$="schema.org/${type}"]`).join(', ');
+  return $(selector).toArray().map(element => microdataItem($, element));
+}
+
+// First Recipe / HowTo / ExercisePlan on the page with usable content (JSON-LD before microdata)
+export function extractStructuredContent($: CheerioAPI): StructuredContent | null {
+  for (const node of [...jsonLdNodes($), ...microdataNodes($)]) {
+    const content = mapSchemaNode(node);
+    if (content) return content;
+  }
+  return null;
+}
+
+const INSTRUCTION_HINTS = [
+  /\bingredients\b/i,
+  /\b(instructions|directions|method)\b/i,
+  /\bstep\s*(1|one)\b/i,
+  /\b(tablespoons?|teaspoons?|tbsp|tsp|cups?|grams?)\b/i,
+  /\b(sets?|reps|repetitions)\b/i,
+  /\b(you will need|what you need|tools needed)\b/i,
+];
+
+// Whether page text without structured data still looks like a recipe, workout or how-to
+// (worth asking the AI to extract steps from)
+export function looksLikeInstructions(text: string): boolean {
+  return INSTRUCTION_HINTS.filter(hint => hint.test(text)).length >= 2;
+}
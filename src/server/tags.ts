@@ -0,0 +1,49 @@
+// Tag normalization shared by AI analysis, the tags API and storage
+
+export const MAX_TAGS_PER_ITEM = 20;
+export const MAX_AI_TAGS = 6;
+const MAX_TAG_LENGTH = 30;
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// Normalize a single tag: lowercase, no leading '#', words joined with hyphens
+// e.g. "#Meal Prep" -> "meal-prep", "Web 3.0" -> "web-3-0"; returns null if nothing is left
+export function normalizeTag(tag: unknown): string | null {
+  if (typeof tag !== 'string') return null;
+
+  const normalized = tag
+    .toLowerCase()
+    .trim()
+    .replace(/^#+/, '')
+    .replace(/[\s_.\/]+/g, '-')
+    .replace(/[^\p{L}\p{N}-]/gu, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .substring(0, MAX_TAG_LENGTH)
+    .replace(/-$/, '');
+
+  return normalized.length >= 2 ? normalized : null;
+}
+
+// Normalize, de-duplicate (keeping first occurrence order) and cap a tag list
+export function normalizeTags(tags: unknown, max = MAX_TAGS_PER_ITEM): string[] {
+  if (!Array.isArray(tags)) return [];
+
+  const result: string[] = [];
+  for (const tag of tags) {
+    const normalized = normalizeTag(tag);
+    if (normalized && !result.includes(normalized)) {
+      result.push(normalized);
+    }
+    if (result.length >= max) break;
+  }
+  return result;
+}
+
+// Replace any of `from` with `to` in a tag list, keeping order and removing duplicates
+export function replaceTagsInList(tags: string[], from: string[], to: string): string[] {
+  return normalizeTags(tags.map(tag => (from.includes(tag) ? to : tag)), Infinity);
+}
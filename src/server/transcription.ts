@@ -0,0 +1,181 @@
+// Audio transcription (Whisper, or the configured AI provider), with long audio split into overlapping chunks
+// Audio over the API upload limit is cut with ffmpeg into fixed-length chunks that overlap by a
+// few seconds; each chunk is transcribed with segment timestamps, shifted by the chunk's offset,
+// and the overlaps are resolved by cutting at the middle of each overlap
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TranscriptSegment } from '../shared/schema';
+import { runCommand } from './downloader';
+import { getAIProvider, transcribeWithFallback } from './aiProvider';
+
+export interface TimedTranscript {
+  text: string;
+  segments: TranscriptSegment[];
+}
+
+export interface AudioChunk {
+  buffer: Buffer;
+  format: string;
+  offsetSeconds: number;
+  durationSeconds: number;
+}
+
+export interface ChunkPlan {
+  start: number;
+  duration: number;
+}
+
+// Whisper rejects uploads over 25 MB; leave headroom for multipart overhead
+export const WHISPER_MAX_BYTES = 24 * 1024 * 1024;
+// 10 minutes of 48 kbps mono mp3 is ~3.6 MB, comfortably under the limit
+const CHUNK_SECONDS = 10 * 60;
+const CHUNK_OVERLAP_SECONDS = 5;
+const FFMPEG_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Chunk start times and lengths covering `totalSeconds`, each overlapping the previous one
+export function planChunks(totalSeconds: number, chunkSeconds = CHUNK_SECONDS, overlapSeconds = CHUNK_OVERLAP_SECONDS): ChunkPlan[] {
+  const plans: ChunkPlan[] = [];
+  const step = chunkSeconds - overlapSeconds;
+  for (let start = 0; start < totalSeconds; start += step) {
+    plans.push({ start, duration: Math.min(chunkSeconds, totalSeconds - start) });
+    if (start + chunkSeconds >= totalSeconds) break;
+  }
+  return plans;
+}
+
+// Plain transcript text of a list of segments
+export function segmentsToText(segments: TranscriptSegment[]): string {
+  return segments.map(segment => segment.text.trim()).filter(Boolean).join(' ').replace(/\s+/g, ' ').trim();
+}
+
+// Merge per-chunk transcripts (segment times relative to their chunk) into one timeline
+// Where chunk k overlaps chunk k+1, segments starting before the overlap midpoint come from
+// chunk k and the rest from chunk k+1, so overlapping speech is kept exactly once
+export function stitchTranscripts(chunks: Array<{ offsetSeconds: number; durationSeconds: number; transcript: TimedTranscript }>): TimedTranscript {
+  const ordered = [...chunks].sort((a, b) => a.offsetSeconds - b.offsetSeconds);
+  const segments: TranscriptSegment[] = [];
+
+  ordered.forEach((chunk, index) => {
+    const previous = ordered[index - 1];
+    const next = ordered[index + 1];
+    const from = previous
+      ? (chunk.offsetSeconds + previous.offsetSeconds + previous.durationSeconds) / 2
+      : -Infinity;
+    const to = next
+      ? (next.offsetSeconds + chunk.offsetSeconds + chunk.durationSeconds) / 2
+      : Infinity;
+
+    for (const segment of chunk.transcript.segments) {
+      const start = segment.start + chunk.offsetSeconds;
+      if (start >= from && start < to) {
+        segments.push({ start, end: segment.end + chunk.offsetSeconds, text: segment.text.trim() });
+      }
+    }
+  });
+
+  return { text: segmentsToText(segments), segments };
+}
+
+// Probe audio duration and cut it into overlapping mono mp3 chunks with ffmpeg
+export async function splitAudio(buffer: Buffer, format: string): Promise<AudioChunk[]> {
+  const ffmpeg = process.env.FFMPEG_PATH || 'ffmpeg';
+  const ffprobe = process.env.FFPROBE_PATH || 'ffprobe';
+  const dir = mkdtempSync(join(tmpdir(), 'chunks-'));
+
+  try {
+    const input = join(dir, `input.${format}`);
+    writeFileSync(input, buffer);
+
+    const { stdout } = await runCommand(
+      ffprobe,
+      ['-v', 'error', '-show_entries', 'format=duration', '-of', 'default=noprint_wrappers=1:nokey=1', input],
+      FFMPEG_TIMEOUT_MS
+    );
+    const totalSeconds = parseFloat(stdout.trim());
+    if (!Number.isFinite(totalSeconds) || totalSeconds <= 0) {
+      throw new Error('Could not determine audio duration');
+    }
+
+    const chunks: AudioChunk[] = [];
+    const plans = planChunks(totalSeconds);
+    for (const [index, plan] of plans.entries()) {
+      const output = join(dir, `chunk-${index}.mp3`);
+      await runCommand(
+        ffmpeg,
+        [
+          '-v', 'error',
+          '-ss', String(plan.start),
+          '-t', String(plan.duration),
+          '-i', input,
+          '-vn', '-ac', '1', '-ar', '16000', '-b:a', '48k',
+          output,
+        ],
+        FFMPEG_TIMEOUT_MS
+      );
+      chunks.push({
+        buffer: readFileSync(output),
+        format: 'mp3',
+        offsetSeconds: plan.start,
+        durationSeconds: plan.duration,
+      });
+    }
+
+    console.log(`   ✂️  Split ${Math.round(totalSeconds / 60)} min of audio into ${chunks.length} chunks`);
+    return chunks;
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// One transcription request; segment times are relative to the start of `buffer`
+async function transcribeChunk(buffer: Buffer, format: string, userId?: string): Promise<TimedTranscript> {
+  const transcription = await transcribeWithFallback(buffer, format, userId);
+  return {
+    text: transcription.text,
+    segments: transcription.segments.length > 0
+      ? transcription.segments
+      : [{ start: 0, end: transcription.duration, text: transcription.text }],
+  };
+}
+
+// Transcribe audio with the AI provider, chunking anything over the upload limit
+// onChunk is called before each chunk (1-based) so callers can report progress; audio minutes
+// are metered against userId
+export async function transcribeAudio(
+  audioBuffer: Buffer,
+  audioFormat: string,
+  onChunk?: (chunk: number, chunks: number) => void,
+  userId?: string
+): Promise<TimedTranscript> {
+  try {
+    console.log(`🎤 Transcribing audio (${getAIProvider().name})...`);
+    console.log(`   Audio size: ${audioBuffer.length} bytes`);
+    console.log(`   Format: ${audioFormat}`);
+
+    if (audioBuffer.length <= WHISPER_MAX_BYTES) {
+      onChunk?.(1, 1);
+      const transcript = await transcribeChunk(audioBuffer, audioFormat, userId);
+      console.log(`   ✅ Transcription complete: ${transcript.text.length} characters`);
+      return transcript;
+    }
+
+    const chunks = await splitAudio(audioBuffer, audioFormat);
+    const transcribed = [];
+    // Sequential: keeps memory flat and stays under Whisper rate limits
+    for (const [index, chunk] of chunks.entries()) {
+      onChunk?.(index + 1, chunks.length);
+      console.log(`   Chunk ${index + 1}/${chunks.length} (from ${Math.round(chunk.offsetSeconds)}s)`);
+      const transcript = await transcribeChunk(chunk.buffer, chunk.format, userId);
+      transcribed.push({ offsetSeconds: chunk.offsetSeconds, durationSeconds: chunk.durationSeconds, transcript });
+    }
+
+    const transcript = stitchTranscripts(transcribed);
+    console.log(`   ✅ Transcription complete: ${transcript.text.length} characters from ${chunks.length} chunks`);
+    return transcript;
+  } catch (error: any) {
+    console.error(`   ❌ Transcription failed: ${error.message}`);
+    throw new Error(`Failed to transcribe audio: ${error.message}`);
+  }
+}
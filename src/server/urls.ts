@@ -0,0 +1,98 @@
+// URL canonicalization: one form for every URL of the same page
+// Used as the key of shared AI results (see aiCache.ts) and to find items already saved (see
+// duplicates.ts), so the same article saved with different tracking parameters, via the mobile
+// site, or the same video through any of its share links, counts once
+
+// Query parameters that only track where a link was shared from
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'mc_cid', 'mc_eid', 'igshid', 'igsh', 'si', 'ref', 'ref_src',
+  'ref_url', 'feature', 'share_id', 'share_app_id', 'is_from_webapp', 'sender_device', 'spm',
+  '_ga', '_gl', 'yclid', 'twclid', 'ttclid',
+]);
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith('utm_') || TRACKING_PARAMS.has(lower);
+}
+
+const isHost = (host: string, domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+const YOUTUBE_ID = /^[\w-]{11}$/;
+
+// youtu.be/ID, youtube.com/watch?v=ID, /shorts/ID, /embed/ID, /live/ID, /v/ID
+function youtubeVideoId(host: string, url: URL): string | null {
+  const segments = url.pathname.split('/').filter(Boolean);
+  let id: string | null | undefined;
+  if (host === 'youtu.be') {
+    id = segments[0];
+  } else if (isHost(host, 'youtube.com') || isHost(host, 'youtube-nocookie.com')) {
+    id = segments[0] === 'watch'
+      ? url.searchParams.get('v')
+      : ['shorts', 'embed', 'live', 'v'].includes(segments[0]) ? segments[1] : null;
+  }
+  return id && YOUTUBE_ID.test(id) ? id : null;
+}
+
+// tiktok.com/@user/video/ID (also /embed/v2/ID); short vm.tiktok.com links need a redirect and are
+// left as they are
+function tiktokVideoId(host: string, url: URL): string | null {
+  if (!isHost(host, 'tiktok.com')) return null;
+  const match = url.pathname.match(/\/(?:video|embed(?:\/v2)?)\/(\d+)/);
+  return match ? match[1] : null;
+}
+
+// instagram.com/reel/CODE, /reels/CODE, /p/CODE, /tv/CODE (optionally after /<user>); posts and
+// reels share shortcodes
+function instagramShortcode(host: string, url: URL): string | null {
+  if (!isHost(host, 'instagram.com')) return null;
+  const match = url.pathname.match(/\/(?:reels?|p|tv)\/([\w-]+)/);
+  return match ? match[1] : null;
+}
+
+// Platform videos: one URL per video id, whichever share link was saved
+function canonicalVideoUrl(host: string, url: URL): string | null {
+  const youtubeId = youtubeVideoId(host, url);
+  if (youtubeId) return `https://youtube.com/watch?v=${youtubeId}`;
+  const tiktokId = tiktokVideoId(host, url);
+  if (tiktokId) return `https://tiktok.com/video/${tiktokId}`;
+  const shortcode = instagramShortcode(host, url);
+  if (shortcode) return `https://instagram.com/reel/${shortcode}`;
+  return null;
+}
+
+// An item with the same canonical URL is already saved (storage enforces one per user)
+export class DuplicateItemError extends Error {
+  constructor() {
+    super('Item already saved');
+    this.name = 'DuplicateItemError';
+  }
+}
+
+// Video links become the platform's canonical video URL. Other links: https, lowercase host
+// without www./m., no fragment, default port, tracking parameters or trailing slash, remaining
+// parameters sorted. Unparseable input is returned trimmed
+export function canonicalUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return parsed.href;
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^(www|m|mobile)\./, '');
+  const videoUrl = canonicalVideoUrl(host, parsed);
+  if (videoUrl) {
+    return videoUrl;
+  }
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const path = parsed.pathname.length > 1 ? parsed.pathname.replace(/\/+$/, '') : '';
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+  return `https://${host}${parsed.port ? `:${parsed.port}` : ''}${path}${query}`;
+}
@@ -0,0 +1,146 @@
+// AI usage metering and quotas
+// Every OpenAI call made for a user records the tokens (chat, embeddings) or audio seconds
+// (Whisper) its response reports. Quotas are checked before AI-heavy work starts (saves, video
+// jobs, semantic search); work already running is allowed to finish. Limits are per UTC day and
+// month, configured with QUOTA_* variables (0 = unlimited)
+
+import { AIUsageKind } from '../shared/schema';
+import { storage } from './storage';
+
+export interface AIUsageTotals {
+  tokens: number;
+  audioSeconds: number;
+  requests: number;
+}
+
+export interface UsageLimits {
+  dailyTokens: number;
+  monthlyTokens: number;
+  dailyAudioMinutes: number;
+  monthlyAudioMinutes: number;
+}
+
+export type UsagePeriod = 'day' | 'month';
+
+// Token counts as reported by the OpenAI API
+export interface TokenUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+// The user has used up a daily or monthly AI allowance; retrying before `resetAt` will not help
+export class QuotaExceededError extends Error {
+  readonly retryable = false;
+
+  constructor(message: string, readonly period: UsagePeriod, readonly resetAt: Date) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+function limitFromEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function usageLimits(): UsageLimits {
+  return {
+    dailyTokens: limitFromEnv('QUOTA_DAILY_TOKENS', 200000),
+    monthlyTokens: limitFromEnv('QUOTA_MONTHLY_TOKENS', 2000000),
+    dailyAudioMinutes: limitFromEnv('QUOTA_DAILY_AUDIO_MINUTES', 60),
+    monthlyAudioMinutes: limitFromEnv('QUOTA_MONTHLY_AUDIO_MINUTES', 600),
+  };
+}
+
+// Start of the current period and of the next one (UTC)
+function periodBounds(period: UsagePeriod, now = new Date()): { start: Date; resetAt: Date } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  if (period === 'day') {
+    const day = now.getUTCDate();
+    return { start: new Date(Date.UTC(year, month, day)), resetAt: new Date(Date.UTC(year, month, day + 1)) };
+  }
+  return { start: new Date(Date.UTC(year, month, 1)), resetAt: new Date(Date.UTC(year, month + 1, 1)) };
+}
+
+// Record one AI request; metering problems are logged and never fail the request itself
+async function recordUsage(
+  userId: string | undefined,
+  kind: AIUsageKind,
+  model: string,
+  amounts: { tokens?: number; audioSeconds?: number }
+): Promise<void> {
+  if (!userId) return;
+  try {
+    await storage.recordAIUsage({
+      userId,
+      kind,
+      model,
+      tokens: Math.max(0, Math.round(amounts.tokens || 0)),
+      audioSeconds: Math.max(0, amounts.audioSeconds || 0),
+    });
+  } catch (error: any) {
+    console.warn(`⚠️ Failed to record AI usage for user ${userId}: ${error.message}`);
+  }
+}
+
+export function recordChatUsage(userId: string | undefined, model: string, usage: TokenUsage | undefined): Promise<void> {
+  const tokens = usage?.total_tokens ?? (usage?.prompt_tokens || 0) + (usage?.completion_tokens || 0);
+  return recordUsage(userId, 'chat', model, { tokens });
+}
+
+export function recordEmbeddingUsage(userId: string | undefined, model: string, tokens: number): Promise<void> {
+  return recordUsage(userId, 'embedding', model, { tokens });
+}
+
+export function recordTranscriptionUsage(userId: string | undefined, model: string, audioSeconds: number): Promise<void> {
+  return recordUsage(userId, 'transcription', model, { audioSeconds });
+}
+
+function describeReset(resetAt: Date): string {
+  return resetAt.toISOString().replace('T', ' ').replace(/:\d{2}\.\d{3}Z$/, ' UTC');
+}
+
+// Usage so far this day and month, with the limits that apply
+export async function getUsage(userId: string) {
+  const limits = usageLimits();
+  const day = periodBounds('day');
+  const month = periodBounds('month');
+  const [dayTotals, monthTotals] = await Promise.all([
+    storage.getAIUsageTotals(userId, day.start),
+    storage.getAIUsageTotals(userId, month.start),
+  ]);
+
+  const summary = (totals: AIUsageTotals, resetAt: Date, tokenLimit: number, audioLimit: number) => ({
+    tokens: totals.tokens,
+    audioMinutes: Math.round((totals.audioSeconds / 60) * 10) / 10,
+    requests: totals.requests,
+    limits: {
+      tokens: tokenLimit || null,
+      audioMinutes: audioLimit || null,
+    },
+    resetAt,
+  });
+
+  return {
+    day: summary(dayTotals, day.resetAt, limits.dailyTokens, limits.dailyAudioMinutes),
+    month: summary(monthTotals, month.resetAt, limits.monthlyTokens, limits.monthlyAudioMinutes),
+  };
+}
+
+// Refuse new AI work once a daily or monthly allowance is used up
+export async function assertWithinQuota(userId: string, options: { audio?: boolean } = {}): Promise<void> {
+  const usage = await getUsage(userId);
+
+  for (const period of ['day', 'month'] as const) {
+    const { tokens, audioMinutes, limits, resetAt } = usage[period];
+    const label = period === 'day' ? 'Daily' : 'Monthly';
+    if (limits.tokens !== null && tokens >= limits.tokens) {
+      throw new QuotaExceededError(`${label} AI usage limit reached. It resets at ${describeReset(resetAt)}.`, period, resetAt);
+    }
+    if (options.audio && limits.audioMinutes !== null && audioMinutes >= limits.audioMinutes) {
+      throw new QuotaExceededError(`${label} audio transcription limit reached. It resets at ${describeReset(resetAt)}.`, period, resetAt);
+    }
+  }
+}
@@ -1,64 +1,207 @@
 // AI transformation for video transcripts into structured content
 
-import OpenAI from 'openai';
-
-export interface VideoStructuredContent {
-  type: 'recipe' | 'workout' | 'tutorial' | 'general';
-  recipe?: {
-    name: string;
-    ingredients: string[];
-    instructions: string[];
-    servings?: number;
-    prepTime?: string;
-    cookTime?: string;
-  };
-  workout?: {
-    name: string;
-    exercises: Array<{
-      name: string;
-      sets?: number;
-      reps?: string;
-      duration?: string;
-      rest?: string;
-    }>;
-    duration?: string;
-    difficulty?: string;
-  };
-  tutorial?: {
-    title: string;
-    steps: Array<{
-      step: number;
-      description: string;
-      tips?: string;
-    }>;
-    tools?: string[];
-    difficulty?: string;
-  };
-}
+import { normalizeTags, MAX_AI_TAGS } from './tags';
+import { DEFAULT_CATEGORY, matchCategory } from './categories';
+import { chatWithFallback, getAIProvider } from './aiProvider';
+import { chatWithSchema, videoAnalysisSchema } from './aiSchemas';
+import { cachedAIResult, contentCacheKey } from './aiCache';
+import { canonicalUrl } from './urls';
+import { StructuredContent, TranscriptSegment, VideoChapter } from '../shared/schema';
+
+// Same shape is used for link items (schema.org data, see structuredData.ts)
+export type VideoStructuredContent = StructuredContent;
 
 export interface VideoAIAnalysis {
   title: string;
   category: string;
   summary: string;
+  tags: string[];
   structuredContent: VideoStructuredContent;
+  chapters?: VideoChapter[];
+  fallback: boolean; // AI unavailable or its reply unusable: placeholder title, summary and category
+}
+
+export interface TransformVideoOptions {
+  categories?: string[] | null; // User's preferred category list; when set, the category must come from it
+  segments?: TranscriptSegment[]; // Timed transcript; enables chapters and step timestamps
+  source?: 'transcript' | 'page'; // 'page' when structuring the text of a saved web page
+  userId?: string; // Token usage is metered against this user
+}
+
+// Bump when the prompts or the cleanup of their output change: cached structured content from
+// older versions is then ignored (see aiCache.ts)
+const STRUCTURE_PROMPT_VERSION = 1;
+
+// Transcripts longer than this don't fit one structuring prompt and are condensed first
+const MAX_PROMPT_TRANSCRIPT_CHARS = 40000;
+// Size of each transcript part in the map step (~3k tokens)
+const CONDENSE_CHUNK_CHARS = 12000;
+const MAX_CONDENSE_PASSES = 3;
+
+// Minimum span of transcript grouped under one [m:ss] marker in the prompt
+const TIMED_LINE_SECONDS = 10;
+
+// 75 -> "1:15", 3725 -> "1:02:05"
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+// Transcript as "[m:ss] text" lines, grouping short segments so markers stay cheap in tokens
+export function formatTimedTranscript(segments: TranscriptSegment[]): string {
+  const lines: string[] = [];
+  let lineStart = 0;
+  let text: string[] = [];
+
+  for (const segment of segments) {
+    if (text.length > 0 && segment.start - lineStart >= TIMED_LINE_SECONDS) {
+      lines.push(`[${formatTimestamp(lineStart)}] ${text.join(' ')}`);
+      text = [];
+    }
+    if (text.length === 0) lineStart = segment.start;
+    text.push(segment.text);
+  }
+  if (text.length > 0) {
+    lines.push(`[${formatTimestamp(lineStart)}] ${text.join(' ')}`);
+  }
+  return lines.join('\n');
+}
+
+// A model-provided "start" as whole seconds within the video, or undefined if unusable
+function cleanStart(value: unknown, duration: number): number | undefined {
+  const seconds = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof seconds !== 'number' || !Number.isFinite(seconds) || seconds < 0 || seconds > duration + 1) {
+    return undefined;
+  }
+  return Math.floor(seconds);
+}
+
+// Ordered chapters with ends filled in from the next chapter; fewer than two are dropped
+function cleanChapters(value: unknown, duration: number): VideoChapter[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+
+  const chapters = value
+    .map(chapter => ({
+      title: typeof chapter?.title === 'string' ? chapter.title.trim().substring(0, 80) : '',
+      start: cleanStart(chapter?.start, duration),
+    }))
+    .filter((chapter): chapter is { title: string; start: number } => chapter.title.length > 0 && chapter.start !== undefined)
+    .sort((a, b) => a.start - b.start)
+    .filter((chapter, index, list) => index === 0 || chapter.start > list[index - 1].start);
+
+  if (chapters.length < 2) return undefined;
+  return chapters.map((chapter, index) => ({
+    ...chapter,
+    end: index + 1 < chapters.length ? chapters[index + 1].start : Math.ceil(duration),
+  }));
+}
+
+// Split text into parts of at most maxChars, breaking at sentence ends where possible
+export function splitTranscript(text: string, maxChars: number): string[] {
+  const parts: string[] = [];
+  let remaining = text.trim();
+
+  while (remaining.length > maxChars) {
+    const window = remaining.substring(0, maxChars);
+    const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('? '), window.lastIndexOf('! '));
+    const breakAt = sentenceEnd > maxChars * 0.5 ? sentenceEnd + 1 : window.lastIndexOf(' ') > 0 ? window.lastIndexOf(' ') : maxChars;
+    parts.push(remaining.substring(0, breakAt).trim());
+    remaining = remaining.substring(breakAt).trim();
+  }
+  if (remaining.length > 0) {
+    parts.push(remaining);
+  }
+  return parts;
+}
+
+// Map step: condense one part of a long transcript, keeping every concrete detail
+async function condensePart(part: string, index: number, total: number, userId?: string): Promise<string> {
+  const { content } = await chatWithFallback('condense', {
+    system: `You condense parts of long video transcripts into notes that will later be merged and structured.
+Keep EVERY concrete detail: ingredients with quantities, exercises with sets/reps/durations, steps in order with times and temperatures, tools, names, numbers and key points.
+Drop filler, greetings, sponsor reads and repetition. Return plain text bullet points only.
+If the transcript lines start with [m:ss] timestamps, begin each bullet with the timestamp of the line it comes from.`,
+    user: `Part ${index + 1} of ${total} of the transcript:\n"${part}"`,
+    temperature: 0.2,
+    maxTokens: 1500,
+  }, userId);
+  return content.trim();
+}
+
+// Map-reduce: condense each part, join the notes, and repeat until they fit one prompt
+async function condenseTranscript(transcript: string, userId?: string): Promise<string> {
+  let text = transcript;
+
+  for (let pass = 1; pass <= MAX_CONDENSE_PASSES && text.length > MAX_PROMPT_TRANSCRIPT_CHARS; pass++) {
+    const parts = splitTranscript(text, CONDENSE_CHUNK_CHARS);
+    console.log(`   🗜️  Condensing transcript (pass ${pass}): ${text.length} characters in ${parts.length} parts`);
+
+    const notes: string[] = [];
+    for (const [index, part] of parts.entries()) {
+      notes.push(await condensePart(part, index, parts.length, userId));
+    }
+    text = notes.map((note, index) => `[Part ${index + 1}]\n${note}`).join('\n\n');
+  }
+
+  // Still too long after the last pass: keep what fits
+  return text.substring(0, MAX_PROMPT_TRANSCRIPT_CHARS);
 }
 
 // Transform video transcript into structured content
+// Structured content shared between users saving the same video or page with the same category
+// list (fallbacks are not cached)
 export async function transformVideoContent(
   transcript: string,
-  url: string
+  url: string,
+  options?: TransformVideoOptions
 ): Promise<VideoAIAnalysis> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY not set');
-  }
-  
-  const client = new OpenAI({ apiKey });
+  getAIProvider(); // Throws when no AI provider is configured
+
+  const key = contentCacheKey('structure', [
+    transcript,
+    options?.segments?.length ? options.segments : null,
+    canonicalUrl(url),
+    options?.categories?.length ? options.categories : null,
+    options?.source ?? 'transcript',
+  ]);
+  return cachedAIResult(
+    { kind: 'structure', key, version: STRUCTURE_PROMPT_VERSION, shouldCache: analysis => !analysis.fallback },
+    () => structureTranscript(transcript, url, options)
+  );
+}
+
+async function structureTranscript(
+  transcript: string,
+  url: string,
+  options?: TransformVideoOptions
+): Promise<VideoAIAnalysis> {
+  const allowedCategories = options?.categories?.length ? options.categories : null;
+  const segments = options?.segments?.length ? options.segments : null;
+  const duration = segments ? segments[segments.length - 1].end : 0;
 
   console.log('🤖 Transforming video transcript into structured content...');
   console.log(`   Transcript length: ${transcript.length} characters`);
   console.log(`   URL: ${url}`);
 
+  // Timed transcripts are sent as [m:ss] lines so the model can place chapters and steps
+  let promptTranscript = segments ? formatTimedTranscript(segments) : transcript;
+
+  // Long transcripts are condensed (map-reduce) into notes that fit one structuring prompt
+  let isCondensed = false;
+  if (promptTranscript.length > MAX_PROMPT_TRANSCRIPT_CHARS) {
+    try {
+      promptTranscript = await condenseTranscript(promptTranscript, options?.userId);
+      isCondensed = true;
+      console.log(`   ✅ Condensed to ${promptTranscript.length} characters`);
+    } catch (error: any) {
+      console.warn(`   ⚠️ Condensing failed (${error.message}), using the start of the transcript`);
+      promptTranscript = promptTranscript.substring(0, MAX_PROMPT_TRANSCRIPT_CHARS);
+    }
+  }
+
   const systemPrompt = `You are an expert content transformation assistant that converts video transcripts into highly structured, detailed data.
 
 Your task is to analyze the transcript and determine if it contains:
@@ -74,10 +217,14 @@ You MUST return ONLY valid JSON in this exact structure:
   "type": "recipe" | "workout" | "tutorial" | "general",
   "category": "string (e.g., Cooking, Fitness, Programming, etc.)",
   "summary": "1-2 sentence summary, max 200 chars",
+  "tags": ["3 to 6 lowercase tags, words joined with hyphens, e.g. meal-prep, garlic, hiit"],${segments ? `
+  "chapters": [{ "title": "short chapter title", "start": number (seconds) }],` : ''}
   "recipe": {
     "name": "Recipe name (extract the exact recipe name mentioned)",
     "ingredients": ["ingredient with full quantity and unit", ...],
-    "instructions": ["detailed step-by-step instruction", ...],
+    "instructions": ${segments
+      ? '[{ "text": "detailed step-by-step instruction", "start": number (seconds where this step begins) }, ...]'
+      : '["detailed step-by-step instruction", ...]'},
     "servings": number (extract if mentioned, e.g., "serves 4" = 4),
     "prepTime": "string (extract if mentioned, e.g., "10 minutes", "5 min")",
     "cookTime": "string (extract if mentioned, e.g., "30 minutes", "1 hour")"
@@ -90,7 +237,8 @@ You MUST return ONLY valid JSON in this exact structure:
         "sets": number (optional),
         "reps": "string (optional)",
         "duration": "string (optional)",
-        "rest": "string (optional)"
+        "rest": "string (optional)"${segments ? `,
+        "start": number (seconds where this exercise begins, optional)` : ''}
       }
     ],
     "duration": "string (optional)",
@@ -102,7 +250,8 @@ You MUST return ONLY valid JSON in this exact structure:
       {
         "step": number,
         "description": "step description",
-        "tips": "optional tip"
+        "tips": "optional tip"${segments ? `,
+        "start": number (seconds where this step begins, optional)` : ''}
       }
     ],
     "tools": ["tool 1", "tool 2"] (optional),
@@ -156,8 +305,16 @@ TITLE RULES:
 - For workouts: Use the workout name or type (e.g., "Full Body HIIT Workout")
 - For tutorials: Use what is being taught (e.g., "How to Build a React App")
 - For general: Use a descriptive title based on main topic
-
-IMPORTANT:
+${segments ? `
+TIMESTAMP RULES:
+- Transcript lines start with [m:ss] or [h:mm:ss] markers giving the time that line is spoken
+- "start" values are numbers of seconds (e.g. [1:15] = 75), taken from the marker of the line where the step, exercise or chapter begins
+- Omit "start" for a step if you cannot tell where it begins; never invent times beyond the transcript
+- "chapters": 3 to 10 chapters in order covering the whole video (first one at 0), or an empty array for short clips with a single topic
+` : ''}
+IMPORTANT:${allowedCategories ? `
+- The category MUST be exactly one of: ${allowedCategories.join(', ')} (use "${DEFAULT_CATEGORY}" if nothing fits)` : ''}
+- Always include 3 to 6 tags naming specific topics, ingredients, exercises or tools (never the category itself)
 - Only include the block (recipe, workout, or tutorial) that matches the content type
 - If type is "general", omit recipe, workout, and tutorial blocks
 - Extract ALL details from the transcript - be thorough, not minimal
@@ -167,14 +324,18 @@ IMPORTANT:
 
   // Check if transcript is from captions (cleaner) or audio transcription
   const isFromCaptions = !transcript.includes('WEBVTT') && !transcript.includes('-->') && transcript.length > 0;
-  const transcriptSource = isFromCaptions ? 'captions/subtitles (high quality)' : 'audio transcription';
+  const transcriptSource = options?.source === 'page'
+    ? 'the text of a web page (ignore navigation, ads and comments)'
+    : isCondensed
+      ? 'condensed notes covering the whole of a long video, in order'
+      : isFromCaptions ? 'captions/subtitles (high quality)' : 'audio transcription';
   
   const userPrompt = `Analyze this video transcript and extract ALL structured content with maximum detail.
 
 IMPORTANT: This transcript is from ${transcriptSource}, which means it contains the actual text content from the video. Prioritize this content over any assumptions.
 
 Transcript:
-"${transcript}"
+"${promptTranscript}"
 
 URL: ${url}
 
@@ -191,154 +352,129 @@ INSTRUCTIONS:
 
 Return JSON with the appropriate structure based on the content type.`;
 
-  const models = ['gpt-4o-mini', 'gpt-4-turbo', 'gpt-3.5-turbo'];
-  let lastError: any = null;
-
-  for (const model of models) {
-    try {
-      console.log(`   Trying model: ${model}...`);
-
-      const response = await client.chat.completions.create({
-        model: model,
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt,
-          },
-          {
-            role: 'user',
-            content: userPrompt,
-          },
-        ],
-        temperature: 0.3,
-        max_tokens: 3000,
-        response_format: { type: 'json_object' },
-      });
-
-      const aiContent = response.choices[0].message.content || '{}';
-      console.log(`   ✅ Model ${model} responded successfully`);
-
-      // Parse JSON
-      let result: any;
-      try {
-        result = JSON.parse(aiContent);
-      } catch (parseError) {
-        // Try to extract JSON from markdown code blocks
-        const jsonMatch = aiContent.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          result = JSON.parse(jsonMatch[0]);
-        } else {
-          throw new Error('Invalid JSON response');
-        }
-      }
-
-      // Validate and structure response
-      // Ensure recipe data is complete and properly formatted
-      let recipeData = result.recipe;
-      if (recipeData) {
-        // Ensure ingredients is an array
-        if (!Array.isArray(recipeData.ingredients)) {
-          recipeData.ingredients = [];
-        }
-        // Ensure instructions is an array
-        if (!Array.isArray(recipeData.instructions)) {
-          recipeData.instructions = [];
-        }
-        // Ensure name exists
-        if (!recipeData.name || recipeData.name.trim() === '') {
-          recipeData.name = 'Untitled Recipe';
-        }
-        // Clean and validate servings
-        if (recipeData.servings && typeof recipeData.servings === 'string') {
-          const servingsMatch = recipeData.servings.match(/\d+/);
-          if (servingsMatch) {
-            recipeData.servings = parseInt(servingsMatch[0], 10);
-          } else {
-            delete recipeData.servings;
-          }
-        }
-        // Ensure times are strings if present
-        if (recipeData.prepTime && typeof recipeData.prepTime !== 'string') {
-          recipeData.prepTime = String(recipeData.prepTime);
-        }
-        if (recipeData.cookTime && typeof recipeData.cookTime !== 'string') {
-          recipeData.cookTime = String(recipeData.cookTime);
-        }
-      }
-
-      const structuredContent: VideoStructuredContent = {
-        type: result.type || 'general',
-        ...(recipeData && { recipe: recipeData }),
-        ...(result.workout && { workout: result.workout }),
-        ...(result.tutorial && { tutorial: result.tutorial }),
-      };
-
-      // Generate title from content
-      let title = result.title || '';
-      if (!title || title.trim().length === 0) {
-        // Fallback: generate title from structured content
-        if (recipeData?.name) {
-          title = recipeData.name;
-        } else if (result.workout?.name) {
-          title = result.workout.name;
-        } else if (result.tutorial?.title) {
-          title = result.tutorial.title;
-        } else {
-          // Generate from summary or transcript
-          const fallbackTitle = result.summary || transcript.substring(0, 50);
-          title = fallbackTitle.split('.')[0].trim();
-        }
-      }
-      
-      // Clean and format title
-      title = title.trim()
-        .replace(/[#@]/g, '') // Remove hashtags and mentions
-        .replace(/\s+/g, ' ') // Normalize whitespace
-        .substring(0, 60); // Max 60 chars
-      
-      // Ensure proper capitalization (Title Case)
-      title = title.split(' ').map((word: string) => {
-        if (word.length === 0) return word;
-        return word[0].toUpperCase() + word.slice(1).toLowerCase();
-      }).join(' ');
-
-      const category = result.category || 'General';
-      const summary = result.summary || transcript.substring(0, 200);
-
-      console.log(`   ✅ Title: ${title}`);
-      console.log(`   ✅ Content type: ${structuredContent.type}`);
-      console.log(`   ✅ Category: ${category}`);
-      console.log(`   ✅ Summary: ${summary.substring(0, 50)}...`);
-
-      return {
-        title: title || 'Video',
-        category,
-        summary: summary.length > 200 ? summary.substring(0, 197) + '...' : summary,
-        structuredContent,
+  try {
+    // Parsed against videoAnalysisSchema; an invalid reply gets one repair attempt
+    const { data: result } = await chatWithSchema('structure', {
+      system: systemPrompt,
+      user: userPrompt,
+      temperature: 0.3,
+      maxTokens: 3000,
+    }, videoAnalysisSchema, options?.userId);
+
+    // Timestamps are kept only for timed transcripts, and only when they fall within the video
+    const timed = (value: unknown): { start?: number } => {
+      const seconds = segments ? cleanStart(value, duration) : undefined;
+      return seconds !== undefined ? { start: seconds } : {};
+    };
+
+    let recipeData: StructuredContent['recipe'];
+    if (result.recipe) {
+      // Timed instructions come back as { text, start }: keep plain strings in
+      // `instructions` and the timings in `steps`
+      const instructions = result.recipe.instructions.map(instruction =>
+        typeof instruction === 'string' ? { text: instruction, start: undefined } : instruction
+      );
+      recipeData = {
+        ...result.recipe,
+        instructions: instructions.map(instruction => instruction.text),
+        ...(segments && {
+          steps: instructions.map((instruction, index) => ({
+            step: index + 1,
+            description: instruction.text,
+            ...timed(instruction.start),
+          })),
+        }),
       };
-    } catch (error: any) {
-      lastError = error;
-      console.error(`   ❌ Model ${model} failed: ${error.message}`);
+    }
 
-      if (error.message?.includes('model') || error.status === 404 || error.code === 'model_not_found') {
-        console.warn(`   ⚠️ Model ${model} not available, trying next model...`);
-        continue;
+    const workout: StructuredContent['workout'] = result.workout && {
+      ...result.workout,
+      exercises: result.workout.exercises.map(({ start, ...exercise }) => ({ ...exercise, ...timed(start) })),
+    };
+    const tutorial: StructuredContent['tutorial'] = result.tutorial && {
+      ...result.tutorial,
+      steps: result.tutorial.steps.map(({ start, step, ...tutorialStep }, index) => ({
+        ...tutorialStep,
+        step: step ?? index + 1,
+        ...timed(start),
+      })),
+    };
+    const chapters = segments ? cleanChapters(result.chapters, duration) : undefined;
+
+    const structuredContent: VideoStructuredContent = {
+      type: result.type,
+      ...(recipeData && { recipe: recipeData }),
+      ...(workout && { workout }),
+      ...(tutorial && { tutorial }),
+    };
+
+    // Generate title from content
+    let title = result.title || '';
+    if (!title || title.trim().length === 0) {
+      // Fallback: generate title from structured content
+      if (recipeData?.name) {
+        title = recipeData.name;
+      } else if (workout?.name) {
+        title = workout.name;
+      } else if (tutorial?.title) {
+        title = tutorial.title;
+      } else {
+        // Generate from summary or transcript
+        const fallbackTitle = result.summary || transcript.substring(0, 50);
+        title = fallbackTitle.split('.')[0].trim();
       }
-
-      break;
     }
+    
+    // Clean and format title
+    title = title.trim()
+      .replace(/[#@]/g, '') // Remove hashtags and mentions
+      .replace(/\s+/g, ' ') // Normalize whitespace
+      .substring(0, 60); // Max 60 chars
+    
+    // Ensure proper capitalization (Title Case)
+    title = title.split(' ').map((word: string) => {
+      if (word.length === 0) return word;
+      return word[0].toUpperCase() + word.slice(1).toLowerCase();
+    }).join(' ');
+
+    const category = allowedCategories
+      ? matchCategory(result.category || '', allowedCategories) || DEFAULT_CATEGORY
+      : result.category || DEFAULT_CATEGORY;
+    const summary = result.summary || transcript.substring(0, 200);
+    const tags = normalizeTags(result.tags, MAX_AI_TAGS)
+      .filter(tag => tag !== category.toLowerCase());
+
+    console.log(`   ✅ Title: ${title}`);
+    console.log(`   ✅ Content type: ${structuredContent.type}`);
+    console.log(`   ✅ Category: ${category}`);
+    console.log(`   ✅ Summary: ${summary.substring(0, 50)}...`);
+    console.log(`   ✅ Tags: ${tags.join(', ') || '(none)'}`);
+
+    return {
+      title: title || 'Video',
+      category,
+      summary: summary.length > 200 ? summary.substring(0, 197) + '...' : summary,
+      tags,
+      structuredContent,
+      ...(chapters && { chapters }),
+      fallback: false,
+    };
+  } catch (error: any) {
+    console.error(`   ❌ Structuring failed: ${error.message}`);
   }
 
-  // Fallback if all models fail
-  console.error('❌ All AI models failed, using fallback');
+  // Every model failed, or the reply was still invalid after a repair attempt
+  console.error('❌ AI structuring failed, using fallback');
   const fallbackTitle = transcript.substring(0, 50).split('.')[0].trim() || 'Video';
   return {
     title: fallbackTitle.substring(0, 60),
-    category: 'General',
+    category: DEFAULT_CATEGORY,
     summary: transcript.substring(0, 200),
+    tags: [],
     structuredContent: {
       type: 'general',
     },
+    fallback: true,
   };
 }
 
@@ -10,10 +10,140 @@ export interface User {
   updatedAt: Date;
 }
 
+export type IdentityProvider = 'google' | 'apple' | 'email';
+
+// A sign-in provider account linked to a user. Users are found by provider + subject, never by
+// email, so a changed or private-relay address doesn't split an account
+export interface UserIdentity {
+  id: string;
+  userId: string;
+  provider: IdentityProvider;
+  subject: string; // the provider's stable user id ("sub"); the address itself for email
+  email: string | null; // address the provider last reported
+  createdAt: Date;
+  lastUsedAt: Date;
+}
+
+// A timed piece of a video transcript (seconds from the start of the video)
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface VideoChapter {
+  title: string;
+  start: number;
+  end?: number;
+}
+
+// Recipe / workout / tutorial data extracted from a video or a web page
+// Step/exercise `start` fields are seconds into the video (for "jump to step" links)
+export interface StructuredContent {
+  type: 'recipe' | 'workout' | 'tutorial' | 'general';
+  recipe?: {
+    name: string;
+    ingredients: string[];
+    instructions: string[];
+    steps?: Array<{
+      step: number;
+      description: string;
+      start?: number;
+    }>;
+    servings?: number;
+    prepTime?: string;
+    cookTime?: string;
+  };
+  workout?: {
+    name: string;
+    exercises: Array<{
+      name: string;
+      sets?: number;
+      reps?: string;
+      duration?: string;
+      rest?: string;
+      start?: number;
+    }>;
+    duration?: string;
+    difficulty?: string;
+  };
+  tutorial?: {
+    title: string;
+    steps: Array<{
+      step: number;
+      description: string;
+      tips?: string;
+      start?: number;
+    }>;
+    tools?: string[];
+    difficulty?: string;
+  };
+}
+
+// Main article text of a saved web page (readability extraction)
+export interface LinkArticle {
+  content: string; // sanitized HTML (whitelisted tags, absolute http(s) links/images only)
+  text: string; // plain text of the article
+  wordCount: number;
+  readingTimeMinutes: number;
+  author?: string;
+  publishedAt?: string; // ISO 8601
+  siteName?: string;
+}
+
+// Typed data pulled from known sites by the per-domain link extractors (see linkExtractors.ts)
+export type LinkData =
+  | {
+      kind: 'github_repo';
+      owner: string;
+      repo: string;
+      description?: string;
+      stars?: number;
+      forks?: number;
+      language?: string;
+      topics?: string[];
+      readme?: string; // plain text, capped
+    }
+  | {
+      kind: 'product';
+      name: string;
+      price?: number;
+      currency?: string; // ISO 4217 code when known, otherwise the symbol shown on the page
+      availability?: string;
+      brand?: string;
+      rating?: number;
+      reviewCount?: number;
+    }
+  | {
+      kind: 'social_post';
+      platform: 'x' | 'reddit';
+      author?: string;
+      text: string;
+      postedAt?: string; // ISO 8601
+      community?: string; // subreddit, e.g. "r/cooking"
+      score?: number;
+      commentCount?: number;
+      // First replies of the thread, in page order
+      replies?: Array<{ author?: string; text: string }>;
+    }
+  | {
+      kind: 'podcast_episode';
+      title: string;
+      show?: string;
+      audioUrl?: string;
+      durationSeconds?: number;
+      publishedAt?: string; // ISO 8601
+    };
+
+// 'processing' while a background job fills the item in, 'failed' if the job gave up
+export type ItemStatus = 'processing' | 'ready' | 'failed';
+
 export interface Item {
   id: string;
   userId: string;
   type: 'link' | 'note' | 'video';
+  status?: ItemStatus; // always set by storage; defaults to 'ready'
+  aiFallback?: boolean; // always set by storage; true when summary/category are fallback output, not the AI's
   title: string;
   summary: string;
   category: string;
@@ -23,49 +153,111 @@ export interface Item {
   userNotes?: string;
   // Link-specific
   url?: string;
+  canonicalUrl?: string; // url in canonical form, one saved item per canonical URL; unset on duplicates saved with force
   imageUrl?: string;
+  structuredContent?: StructuredContent; // from schema.org Recipe/HowTo/ExercisePlan data on the page
+  article?: LinkArticle;
+  linkData?: LinkData; // from a per-domain extractor (GitHub, product pages, X, Reddit, podcasts)
   // Note-specific
   content?: string;
   // Video-specific
   videoData?: {
     platform: 'tiktok' | 'instagram' | 'youtube';
     transcript?: string;
-    structuredContent?: {
-      type: 'recipe' | 'workout' | 'tutorial' | 'general';
-      recipe?: {
-        name: string;
-        ingredients: string[];
-        instructions: string[];
-        servings?: number;
-        prepTime?: string;
-        cookTime?: string;
-      };
-      workout?: {
-        name: string;
-        exercises: Array<{
-          name: string;
-          sets?: number;
-          reps?: string;
-          duration?: string;
-          rest?: string;
-        }>;
-        duration?: string;
-        difficulty?: string;
-      };
-      tutorial?: {
-        title: string;
-        steps: Array<{
-          step: number;
-          description: string;
-          tips?: string;
-        }>;
-        tools?: string[];
-        difficulty?: string;
-      };
-    };
+    segments?: TranscriptSegment[];
+    chapters?: VideoChapter[];
+    structuredContent?: StructuredContent;
   };
 }
 
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface Job {
+  id: string;
+  userId: string;
+  type: 'video_ingest';
+  status: JobStatus;
+  stage: string | null; // current pipeline step, e.g. 'transcribing'
+  payload: Record<string, any>;
+  itemId: string | null;
+  attempts: number;
+  maxAttempts: number;
+  error: string | null;
+  runAt: Date; // not picked up before this time (retry backoff)
+  lockedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Single-use email sign-in link; only a hash of the token is stored
+export interface MagicLinkToken {
+  id: string;
+  email: string;
+  tokenHash: string;
+  ipAddress: string | null; // requester, for rate limiting
+  createdAt: Date;
+  expiresAt: Date;
+  usedAt: Date | null;
+}
+
+// What an API key may do: read the vault, or save new items (plus polling their jobs)
+export type ApiKeyScope = 'read' | 'save';
+
+// Personal API key for scripts, Shortcuts and extensions; only a hash of the key is stored
+export interface ApiKey {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string; // first characters of the key, to recognise it in the list
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+}
+
+export type AIUsageKind = 'chat' | 'embedding' | 'transcription';
+
+// One metered OpenAI request made for a user
+export interface AIUsage {
+  id: string;
+  userId: string;
+  kind: AIUsageKind;
+  model: string;
+  tokens: number; // chat and embedding requests
+  audioSeconds: number; // transcription requests
+  createdAt: Date;
+}
+
+export type AICacheKind = 'metadata' | 'transcript' | 'analysis' | 'structure';
+
+// AI pipeline result shared by every user who saves the same page or video (see aiCache.ts)
+export interface AICacheEntry {
+  key: string; // "<kind>:<canonical URL>" or "<kind>:<content hash>"
+  kind: AICacheKind;
+  version: number; // extractor or prompt version the value was produced with
+  value: unknown;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export type SessionRevokeReason = 'logout' | 'revoked' | 'reuse_detected';
+
+// A signed-in device: one rotating refresh token chain per session
+export interface AuthSession {
+  id: string;
+  userId: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  refreshTokenHash: string; // SHA-256 of the current refresh token secret
+  createdAt: Date;
+  lastUsedAt: Date; // last refresh
+  expiresAt: Date; // refresh token expiry, extended on every refresh
+  revokedAt: Date | null;
+  revokedReason: SessionRevokeReason | null;
+}
+
 export interface Session {
   sid: string;
   sess: any;
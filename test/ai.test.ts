@@ -0,0 +1,73 @@
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeAIProvider, setAIProvider } from '../src/server/aiProvider';
+import { analyzeContent } from '../src/server/ai';
+import { storage } from '../src/server/storage';
+import { TestServer, api, startServer } from './helpers';
+
+describe('analyzeContent cache', () => {
+  let provider: FakeAIProvider;
+
+  beforeEach(() => {
+    provider = new FakeAIProvider();
+    setAIProvider(provider);
+  });
+
+  after(() => setAIProvider(null));
+
+  it('shares the analysis of a page between users', async () => {
+    const url = 'https://example.com/articles/shared-analysis';
+    const first = await analyzeContent('Shared page', 'Page text', { url, userId: 'user-a' });
+    const second = await analyzeContent('Shared page', 'Page text', { url: `${url}?utm_source=x`, userId: 'user-b' });
+
+    assert.deepEqual(second, first);
+    assert.equal(provider.calls.length, 1);
+  });
+
+  it('analyzes notes every time, without touching the shared cache', async () => {
+    const writes: string[] = [];
+    const setAICacheEntry = storage.setAICacheEntry.bind(storage);
+    storage.setAICacheEntry = async entry => {
+      writes.push(entry.key);
+      return setAICacheEntry(entry);
+    };
+
+    try {
+      await analyzeContent('Private note', 'My bank PIN hint', { userId: 'user-a' });
+      await analyzeContent('Private note', 'My bank PIN hint', { userId: 'user-b' });
+    } finally {
+      storage.setAICacheEntry = setAICacheEntry;
+    }
+
+    assert.equal(provider.calls.length, 2);
+    assert.deepEqual(writes, []);
+  });
+});
+
+describe('POST /save-note', () => {
+  let server: TestServer;
+  let provider: FakeAIProvider;
+
+  beforeEach(async () => {
+    provider = new FakeAIProvider();
+    setAIProvider(provider);
+    server ??= await startServer();
+  });
+
+  after(async () => {
+    await server.close();
+    setAIProvider(null);
+  });
+
+  it('analyzes each note on its own', async () => {
+    const note = { title: 'Meeting notes', content: 'Discussed the Q3 roadmap' };
+    for (let i = 0; i < 2; i++) {
+      const response = await api(server, '/save-note', { method: 'POST', body: JSON.stringify(note) });
+      assert.equal(response.status, 200);
+      const { item }: any = await response.json();
+      assert.equal(item.type, 'note');
+      assert.deepEqual(item.tags, ['fake-ai']);
+    }
+    assert.equal(provider.calls.filter(call => call.method === 'chat').length, 2);
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AIProviderError,
+  FakeAIProvider,
+  OpenAIProvider,
+  chatWithFallback,
+  getAIProvider,
+  isAIProviderConfigured,
+  modelChain,
+  setAIProvider,
+  transcribeWithFallback,
+} from '../src/server/aiProvider';
+import { storage } from '../src/server/storage';
+
+const ENV_KEYS = ['AI_PROVIDER', 'AI_BASE_URL', 'OPENAI_API_KEY', 'AI_MODELS_ANALYZE', 'AI_MODELS_TRANSCRIBE'];
+
+const request = { system: 'Analyze', user: 'Some page', temperature: 0, maxTokens: 100, json: true };
+
+// Each test starts without a provider and with none of the AI settings
+let savedEnv: Record<string, string | undefined>;
+
+beforeEach(() => {
+  savedEnv = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+  ENV_KEYS.forEach(key => delete process.env[key]);
+  setAIProvider(null);
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+  setAIProvider(null);
+});
+
+describe('getAIProvider', () => {
+  it('uses OpenAI when an API key is set', () => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    const provider = getAIProvider();
+    assert.ok(provider instanceof OpenAIProvider);
+    assert.equal(provider.name, 'openai');
+    assert.deepEqual(provider.defaultModels.transcribe, ['whisper-1']);
+    assert.equal(getAIProvider(), provider);
+  });
+
+  it('uses an OpenAI-compatible local server with its own models', () => {
+    process.env.AI_PROVIDER = 'local';
+    const provider = getAIProvider();
+    assert.ok(provider instanceof OpenAIProvider);
+    assert.equal(provider.name, 'local');
+    assert.deepEqual(provider.defaultModels.analyze, ['llama3.1']);
+  });
+
+  it('uses the fake provider when asked to', () => {
+    process.env.AI_PROVIDER = 'fake';
+    assert.ok(getAIProvider() instanceof FakeAIProvider);
+  });
+
+  it('refuses to start without a configuration or with an unknown provider', () => {
+    assert.equal(isAIProviderConfigured(), false);
+    assert.throws(() => getAIProvider(), AIProviderError);
+
+    process.env.AI_PROVIDER = 'mystery';
+    assert.throws(() => getAIProvider(), /Unknown AI_PROVIDER "mystery"/);
+  });
+
+  it('prefers a provider set in code', () => {
+    const fake = new FakeAIProvider();
+    setAIProvider(fake);
+    assert.equal(isAIProviderConfigured(), true);
+    assert.equal(getAIProvider(), fake);
+  });
+});
+
+describe('modelChain', () => {
+  it("uses the provider's defaults unless AI_MODELS_<TASK> is set", () => {
+    const fake = new FakeAIProvider();
+    assert.deepEqual(modelChain('analyze', fake), ['fake-chat']);
+
+    process.env.AI_MODELS_ANALYZE = ' big-model, small-model ,,';
+    assert.deepEqual(modelChain('analyze', fake), ['big-model', 'small-model']);
+    assert.deepEqual(modelChain('condense', fake), ['fake-chat']);
+  });
+});
+
+describe('chatWithFallback', () => {
+  it('falls through unavailable models to the next one in the chain', async () => {
+    process.env.AI_MODELS_ANALYZE = 'missing-a,missing-b,working';
+    const fake = new FakeAIProvider({ unavailableModels: ['missing-a', 'missing-b'] });
+    setAIProvider(fake);
+
+    const { content, model } = await chatWithFallback('analyze', request);
+    assert.equal(model, 'working');
+    assert.equal(JSON.parse(content).title, 'Fake Result');
+    assert.deepEqual(fake.calls.map(call => call.model), ['missing-a', 'missing-b', 'working']);
+  });
+
+  it('stops at the first error that is not about the model', async () => {
+    process.env.AI_MODELS_ANALYZE = 'first,second';
+    const fake = new FakeAIProvider({ error: Object.assign(new Error('Rate limit reached'), { status: 429 }) });
+    setAIProvider(fake);
+
+    await assert.rejects(chatWithFallback('analyze', request), /Rate limit reached/);
+    assert.deepEqual(fake.calls.map(call => call.model), ['first']);
+  });
+
+  it('rethrows the last error when no model is available', async () => {
+    process.env.AI_MODELS_ANALYZE = 'gone-a,gone-b';
+    setAIProvider(new FakeAIProvider({ unavailableModels: ['gone-a', 'gone-b'] }));
+
+    await assert.rejects(chatWithFallback('analyze', request), /The model `gone-b` does not exist/);
+  });
+
+  it('meters the tokens of the model that answered against the user', async () => {
+    setAIProvider(new FakeAIProvider({ reply: () => '{"ok":true}' }));
+    const userId = 'usage-user';
+
+    await chatWithFallback('analyze', request, userId);
+    const totals = await storage.getAIUsageTotals(userId, new Date(0));
+    assert.equal(totals.requests, 1);
+    assert.ok(totals.tokens > 0);
+  });
+});
+
+describe('transcribeWithFallback', () => {
+  it('uses the transcription chain and meters audio seconds', async () => {
+    process.env.AI_MODELS_TRANSCRIBE = 'old-whisper,fake-transcribe';
+    const fake = new FakeAIProvider({
+      unavailableModels: ['old-whisper'],
+      transcription: { text: 'Hello there.', duration: 90, segments: [{ start: 0, end: 90, text: 'Hello there.' }] },
+    });
+    setAIProvider(fake);
+    const userId = 'audio-user';
+
+    const result = await transcribeWithFallback(Buffer.from('audio'), 'mp3', userId);
+    assert.equal(result.text, 'Hello there.');
+    assert.deepEqual(fake.calls, [
+      { method: 'transcribe', model: 'old-whisper' },
+      { method: 'transcribe', model: 'fake-transcribe' },
+    ]);
+    assert.equal((await storage.getAIUsageTotals(userId, new Date(0))).audioSeconds, 90);
+  });
+});
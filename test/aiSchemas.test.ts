@@ -0,0 +1,166 @@
+import { after, afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChatRequest, FakeAIProvider, setAIProvider } from '../src/server/aiProvider';
+import { AIOutputError, aiAnalysisSchema, chatWithSchema, parseAIOutput, videoAnalysisSchema } from '../src/server/aiSchemas';
+import { analyzeContent } from '../src/server/ai';
+import { TestServer, api, startServer } from './helpers';
+
+const VALID_ANALYSIS = JSON.stringify({ summary: 'A starter guide.', category: 'Food', tags: ['sourdough'] });
+
+const request = { system: 'Analyze', user: 'Sourdough basics', temperature: 0, maxTokens: 300 };
+
+// A fake provider answering with `replies` in turn (the last one repeats); prompts are kept
+function scripted(...replies: string[]) {
+  const requests: ChatRequest[] = [];
+  const provider = new FakeAIProvider({
+    reply: chatRequest => {
+      requests.push(chatRequest);
+      return replies[Math.min(requests.length, replies.length) - 1];
+    },
+  });
+  setAIProvider(provider);
+  return { provider, requests };
+}
+
+describe('parseAIOutput', () => {
+  it('parses plain JSON and JSON wrapped in a code block', () => {
+    assert.deepEqual(parseAIOutput(VALID_ANALYSIS, aiAnalysisSchema), {
+      success: true,
+      data: { summary: 'A starter guide.', category: 'Food', tags: ['sourdough'] },
+    });
+
+    const wrapped = parseAIOutput('Here you go:\n```json\n' + VALID_ANALYSIS + '\n```', aiAnalysisSchema);
+    assert.equal(wrapped.success, true);
+  });
+
+  it('reports replies that are not JSON', () => {
+    assert.deepEqual(parseAIOutput('Sorry, I cannot help with that.', aiAnalysisSchema), {
+      success: false,
+      errors: ['The reply is not a valid JSON object'],
+    });
+    assert.equal(parseAIOutput('{ "summary": ', aiAnalysisSchema).success, false);
+  });
+
+  it('reports schema violations by path', () => {
+    const result = parseAIOutput('{"summary": "", "tags": "food"}', aiAnalysisSchema);
+    assert.equal(result.success, false);
+    assert.deepEqual(!result.success && result.errors.map(error => error.split(':')[0]), ['summary', 'category', 'tags']);
+  });
+
+  it('coerces slips with one obvious reading', () => {
+    const result = parseAIOutput(JSON.stringify({
+      title: null,
+      type: 'recipe',
+      summary: '  Pancakes ',
+      recipe: {
+        name: '',
+        ingredients: ['flour', 'milk'],
+        instructions: ['Mix', { text: 'Fry', start: 42 }],
+        servings: 'serves 4',
+        prepTime: 10,
+        cookTime: null,
+      },
+    }), videoAnalysisSchema);
+
+    assert.equal(result.success, true);
+    const data = result.success ? result.data : null;
+    assert.equal(data?.title, undefined);
+    assert.equal(data?.summary, 'Pancakes');
+    assert.deepEqual(data?.tags, []);
+    assert.deepEqual(data?.recipe, {
+      name: 'Untitled Recipe',
+      ingredients: ['flour', 'milk'],
+      instructions: ['Mix', { text: 'Fry', start: 42 }],
+      servings: 4,
+      prepTime: '10',
+      cookTime: undefined,
+    });
+  });
+
+  it('requires the structured content named by the type', () => {
+    const result = parseAIOutput('{"type": "workout", "summary": "Leg day"}', videoAnalysisSchema);
+    assert.deepEqual(result, { success: false, errors: ['workout: Required when type is "workout"'] });
+  });
+
+  it('caps the number of reported issues', () => {
+    const exercises = Array.from({ length: 20 }, () => ({ name: '' }));
+    const result = parseAIOutput(JSON.stringify({ type: 'workout', workout: { exercises } }), videoAnalysisSchema);
+    assert.equal(!result.success && result.errors.length, 10);
+  });
+});
+
+describe('chatWithSchema', () => {
+  afterEach(() => setAIProvider(null));
+
+  it('returns a valid first reply as is', async () => {
+    const { requests } = scripted(VALID_ANALYSIS);
+
+    const result = await chatWithSchema('analyze', request, aiAnalysisSchema);
+    assert.equal(result.repaired, false);
+    assert.equal(result.model, 'fake-chat');
+    assert.equal(result.data.category, 'Food');
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].json, true);
+  });
+
+  it('asks once for a repair, quoting the reply and its errors', async () => {
+    const { requests } = scripted('{"summary": "A starter guide."}', VALID_ANALYSIS);
+
+    const result = await chatWithSchema('analyze', request, aiAnalysisSchema);
+    assert.equal(result.repaired, true);
+    assert.equal(result.data.summary, 'A starter guide.');
+    assert.equal(requests.length, 2);
+    assert.equal(requests[1].system, request.system);
+    assert.ok(requests[1].user.startsWith(request.user));
+    assert.ok(requests[1].user.includes('Your previous reply was:\n{"summary": "A starter guide."}'));
+    assert.ok(requests[1].user.includes('- category: Required'));
+  });
+
+  it('gives up when the repaired reply is still invalid', async () => {
+    const { requests } = scripted('not json', '{"summary": 1}');
+
+    await assert.rejects(
+      chatWithSchema('analyze', request, aiAnalysisSchema),
+      (error: Error) => error instanceof AIOutputError && error.errors.some(message => message.startsWith('summary:'))
+    );
+    assert.equal(requests.length, 2);
+  });
+});
+
+describe('fallback analysis', () => {
+  let server: TestServer | undefined;
+
+  afterEach(() => setAIProvider(null));
+
+  after(async () => {
+    await server?.close();
+  });
+
+  it('marks the analysis as fallback when the reply stays invalid', async () => {
+    scripted('{"tags": []}');
+    const analysis = await analyzeContent('Sourdough basics', 'Feed the starter daily.');
+    assert.equal(analysis.fallback, true);
+    assert.equal(analysis.summary, 'Feed the starter daily.');
+
+    scripted('{"tags": []}', VALID_ANALYSIS);
+    assert.equal((await analyzeContent('Sourdough basics', 'Feed the starter daily.')).fallback, false);
+  });
+
+  it('saves items analyzed by the fallback with aiFallback set', async () => {
+    server = await startServer();
+    const save = async () => {
+      const response = await api(server!, '/save-note', {
+        method: 'POST',
+        body: JSON.stringify({ title: 'Starter schedule', content: 'Feed at 8am and 8pm' }),
+      });
+      assert.equal(response.status, 200);
+      return ((await response.json()) as any).item;
+    };
+
+    scripted('garbage');
+    assert.equal((await save()).aiFallback, true);
+
+    scripted(VALID_ANALYSIS);
+    assert.equal((await save()).aiFallback, false);
+  });
+});
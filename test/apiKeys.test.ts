@@ -0,0 +1,100 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../src/server/storage';
+import { FakeAIProvider, setAIProvider } from '../src/server/aiProvider';
+import { DEV_USER_ID, TestServer, api, startServer } from './helpers';
+
+describe('API key authentication', () => {
+  let server: TestServer;
+
+  before(async () => {
+    setAIProvider(new FakeAIProvider());
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server.close();
+    setAIProvider(null);
+  });
+
+  // Create a key as the development user
+  async function createKey(scopes: string[]): Promise<{ id: string; key: string }> {
+    const response = await api(server, '/api-keys', { method: 'POST', body: JSON.stringify({ name: 'Shortcut', scopes }) });
+    assert.equal(response.status, 200);
+    const { apiKey, key }: any = await response.json();
+    return { id: apiKey.id, key };
+  }
+
+  function withKey(key: string, init: RequestInit = {}) {
+    return { ...init, headers: { 'X-Dev-Token': '', Authorization: `Bearer ${key}` } };
+  }
+
+  it('accepts a key on routes that allow its scope', async () => {
+    const { key } = await createKey(['read']);
+
+    const bearer = await api(server, '/items', withKey(key));
+    assert.equal(bearer.status, 200);
+
+    const header = await api(server, '/items', { headers: { 'X-Dev-Token': '', 'X-API-Key': key } });
+    assert.equal(header.status, 200);
+
+    const keys = await api(server, '/api-keys');
+    const listed: any = await keys.json();
+    assert.ok(listed.apiKeys.every((apiKey: any) => apiKey.keyHash === undefined));
+  });
+
+  it('answers 403 when the key lacks the scope the route needs', async () => {
+    const { key } = await createKey(['read']);
+    const response = await api(server, '/save-note', withKey(key, {
+      method: 'POST',
+      body: JSON.stringify({ title: 'Note', content: 'From a script' }),
+    }));
+    assert.equal(response.status, 403);
+    assert.deepEqual(await response.json(), { error: 'API key lacks the required scope (save)' });
+  });
+
+  it('answers 403 on routes that do not accept keys', async () => {
+    const { key } = await createKey(['read', 'save']);
+    for (const [path, method] of [['/api-keys', 'GET'], ['/sessions', 'GET'], ['/items/some-id', 'DELETE']]) {
+      const response = await api(server, path, withKey(key, { method }));
+      assert.equal(response.status, 403, `${method} ${path}`);
+      assert.deepEqual(await response.json(), { error: 'API keys cannot access this endpoint' });
+    }
+  });
+
+  it('answers 401 for unknown and revoked keys', async () => {
+    const unknown = await api(server, '/items', withKey('sv_not-a-real-key'));
+    assert.equal(unknown.status, 401);
+    assert.deepEqual(await unknown.json(), { error: 'Invalid API key' });
+
+    const { id, key } = await createKey(['read']);
+    assert.equal((await api(server, `/api-keys/${id}`, { method: 'DELETE' })).status, 200);
+    assert.equal((await api(server, '/items', withKey(key))).status, 401);
+  });
+
+  it('answers 503 when the key cannot be looked up', async () => {
+    const { key } = await createKey(['read']);
+    const getApiKeyByHash = storage.getApiKeyByHash;
+    storage.getApiKeyByHash = async () => {
+      throw new Error('connection terminated unexpectedly');
+    };
+
+    try {
+      const response = await api(server, '/items', withKey(key));
+      assert.equal(response.status, 503);
+    } finally {
+      storage.getApiKeyByHash = getApiKeyByHash;
+    }
+    assert.equal((await api(server, '/items', withKey(key))).status, 200);
+  });
+
+  it('keeps keys owned by the user who created them', async () => {
+    const { key } = await createKey(['save']);
+    const response = await api(server, '/save-note', withKey(key, {
+      method: 'POST',
+      body: JSON.stringify({ title: 'Scripted note', content: 'Saved with an API key' }),
+    }));
+    assert.equal(response.status, 200);
+    assert.equal(((await response.json()) as any).item.userId, DEV_USER_ID);
+  });
+});
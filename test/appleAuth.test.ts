@@ -0,0 +1,169 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { Jwk, JwksCache } from '../src/server/jwks';
+import { AppleAuthError, setAppleKeys, verifyAppleToken } from '../src/server/mobileAuth';
+import { LocalJwks } from './localJwks';
+
+const BUNDLE_ID = 'com.example.smartvault';
+const ISSUER = 'https://appleid.apple.com';
+
+function claims(overrides: Record<string, unknown> = {}) {
+  return { iss: ISSUER, aud: BUNDLE_ID, sub: '001234.abcdef', email: 'Cook@Example.com', email_verified: 'true', ...overrides };
+}
+
+async function rejects(token: string, message: RegExp, options: { nonce?: string } = {}) {
+  await assert.rejects(verifyAppleToken(token, options), (error: any) => {
+    assert.ok(error instanceof AppleAuthError, `expected an AppleAuthError, got ${error}`);
+    assert.match(error.message, message);
+    return true;
+  });
+}
+
+describe('verifyAppleToken', () => {
+  const apple = new LocalJwks();
+  const previousBundleId = process.env.APPLE_BUNDLE_ID;
+
+  before(() => {
+    process.env.APPLE_BUNDLE_ID = `${BUNDLE_ID}, com.example.smartvault.web`;
+  });
+
+  beforeEach(() => {
+    setAppleKeys(new JwksCache(apple.fetcher));
+  });
+
+  after(() => {
+    setAppleKeys(null);
+    if (previousBundleId === undefined) delete process.env.APPLE_BUNDLE_ID;
+    else process.env.APPLE_BUNDLE_ID = previousBundleId;
+  });
+
+  it('accepts a valid token and normalizes its claims', async () => {
+    const user = await verifyAppleToken(apple.sign(claims({ is_private_email: true }), { expiresIn: '10m' }));
+    assert.deepEqual(user, { sub: '001234.abcdef', email: 'cook@example.com', emailVerified: true, isPrivateEmail: true });
+  });
+
+  it('accepts any configured audience', async () => {
+    const user = await verifyAppleToken(apple.sign(claims({ aud: 'com.example.smartvault.web' }), { expiresIn: '10m' }));
+    assert.equal(user.sub, '001234.abcdef');
+  });
+
+  it('rejects a token signed with a different key under a known key id', async () => {
+    const impostor = new LocalJwks(apple.kid);
+    await rejects(impostor.sign(claims(), { expiresIn: '10m' }), /invalid signature/);
+  });
+
+  it('rejects a token from another issuer', async () => {
+    await rejects(apple.sign(claims({ iss: 'https://accounts.google.com' }), { expiresIn: '10m' }), /jwt issuer invalid/);
+  });
+
+  it('rejects a token for another app', async () => {
+    await rejects(apple.sign(claims({ aud: 'com.example.other' }), { expiresIn: '10m' }), /audience mismatch/);
+  });
+
+  it('rejects an expired token beyond the clock tolerance', async () => {
+    const issuedAt = Math.floor(Date.now() / 1000) - 600;
+    await rejects(apple.sign(claims({ iat: issuedAt, exp: issuedAt + 300 })), /expired/);
+  });
+
+  it('tolerates a token that expired within the clock skew', async () => {
+    const issuedAt = Math.floor(Date.now() / 1000) - 330;
+    const user = await verifyAppleToken(apple.sign(claims({ iat: issuedAt, exp: issuedAt + 300 })));
+    assert.equal(user.sub, '001234.abcdef');
+  });
+
+  it('checks the nonce against the raw value or its SHA-256', async () => {
+    const nonce = 'raw-nonce-123';
+    const hashed = createHash('sha256').update(nonce).digest('hex');
+    assert.equal((await verifyAppleToken(apple.sign(claims({ nonce }), { expiresIn: '10m' }), { nonce })).sub, '001234.abcdef');
+    assert.equal((await verifyAppleToken(apple.sign(claims({ nonce: hashed }), { expiresIn: '10m' }), { nonce })).sub, '001234.abcdef');
+
+    await rejects(apple.sign(claims({ nonce: hashed }), { expiresIn: '10m' }), /Nonce mismatch/, { nonce: 'another-nonce' });
+    // A token with a nonce is useless without it, and a nonce the token doesn't carry is a mismatch
+    await rejects(apple.sign(claims({ nonce: hashed }), { expiresIn: '10m' }), /Nonce mismatch/);
+    await rejects(apple.sign(claims(), { expiresIn: '10m' }), /Nonce mismatch/, { nonce });
+  });
+
+  it('rejects a token signed with a key that is not in the key set', async () => {
+    const unknown = new LocalJwks('unknown-kid');
+    await rejects(unknown.sign(claims(), { expiresIn: '10m' }), /unknown key/);
+  });
+
+  it('rejects tokens that are not RS256', async () => {
+    const header = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify(claims())).toString('base64url');
+    await rejects(`${header}.${payload}.`, /Unsupported identity token signature/);
+    await rejects('not-a-token', /Malformed identity token/);
+  });
+});
+
+describe('JwksCache', () => {
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  // Key set that can be rotated and counts its fetches
+  function rotatingKeySet(initial: LocalJwks) {
+    let current: Jwk[] = [initial.publicJwk];
+    const keySet = {
+      fetches: 0,
+      fetcher: async () => {
+        keySet.fetches++;
+        return current;
+      },
+      rotate: (...keys: LocalJwks[]) => {
+        current = keys.map(key => key.publicJwk);
+      },
+    };
+    return keySet;
+  }
+
+  it('refetches the key set for an unknown key id after a rotation', async () => {
+    const oldKey = new LocalJwks();
+    const newKey = new LocalJwks();
+    const keySet = rotatingKeySet(oldKey);
+    const cache = new JwksCache(keySet.fetcher, 60 * 60 * 1000, 1);
+
+    assert.ok(await cache.getKey(oldKey.kid));
+    keySet.rotate(oldKey, newKey);
+    await sleep(5); // past the refresh cooldown
+    assert.ok(await cache.getKey(newKey.kid));
+    assert.equal(keySet.fetches, 2);
+
+    // Keys Apple retired are dropped with the next fetch
+    keySet.rotate(newKey);
+    await sleep(5);
+    assert.equal(await cache.getKey('retired-kid'), null);
+    assert.equal(await cache.getKey(oldKey.kid), null);
+  });
+
+  it('refetches unknown key ids at most once per cooldown', async () => {
+    const key = new LocalJwks();
+    const keySet = rotatingKeySet(key);
+    const cache = new JwksCache(keySet.fetcher);
+
+    assert.ok(await cache.getKey(key.kid));
+    assert.equal(await cache.getKey('made-up-1'), null);
+    assert.equal(await cache.getKey('made-up-2'), null);
+    assert.equal(keySet.fetches, 1);
+  });
+
+  it('keeps the cached keys while the key endpoint fails', async () => {
+    const key = new LocalJwks();
+    let failing = false;
+    const cache = new JwksCache(async () => {
+      if (failing) throw new Error('HTTP 503');
+      return [key.publicJwk];
+    }, 1);
+
+    assert.ok(await cache.getKey(key.kid));
+    failing = true;
+    await sleep(5); // past the TTL
+    assert.ok(await cache.getKey(key.kid));
+  });
+
+  it('fails when no keys could ever be fetched', async () => {
+    const cache = new JwksCache(async () => {
+      throw new Error('HTTP 503');
+    });
+    await assert.rejects(cache.getKey('any'), /HTTP 503/);
+  });
+});
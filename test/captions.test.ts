@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCaptionSegments, parseTimestamp } from '../src/server/video';
+
+describe('parseTimestamp', () => {
+  it('reads VTT and SRT timestamps with and without hours', () => {
+    assert.equal(parseTimestamp('00:01:02.500'), 62.5);
+    assert.equal(parseTimestamp('01:00:00,250'), 3600.25);
+    assert.equal(parseTimestamp('02:03.5'), 123.5);
+    assert.equal(parseTimestamp(' 12:34 '), 754);
+  });
+
+  it('returns null for anything else', () => {
+    assert.equal(parseTimestamp('1:2'), null);
+    assert.equal(parseTimestamp('00:01:02.5000'), null);
+    assert.equal(parseTimestamp('soon'), null);
+  });
+});
+
+describe('parseCaptionSegments', () => {
+  it('parses VTT cues, dropping markup, header and NOTE blocks', () => {
+    const content = [
+      'WEBVTT',
+      'Kind: captions',
+      '',
+      'NOTE generated by a test',
+      '',
+      '1',
+      '00:00:00.000 --> 00:00:02.500 align:start position:0%',
+      'Preheat the <c.colorE5E5E5>oven</c> to 200&nbsp;degrees',
+      '',
+      '00:00:02.500 --> 00:00:05.000',
+      '<v Chef>Salt &amp; pepper</v>',
+      'to taste',
+    ].join('\r\n');
+
+    assert.deepEqual(parseCaptionSegments({ format: 'vtt', content }), [
+      { start: 0, end: 2.5, text: 'Preheat the oven to 200 degrees' },
+      { start: 2.5, end: 5, text: 'Salt & pepper to taste' },
+    ]);
+  });
+
+  it('keeps each line of rolling auto-generated captions once', () => {
+    const content = [
+      'WEBVTT',
+      '',
+      '00:00:00.000 --> 00:00:02.000',
+      'first line',
+      '',
+      '00:00:02.000 --> 00:00:04.000',
+      'first line',
+      'second<00:00:02.500><c> line</c>',
+      '',
+      '00:00:04.000 --> 00:00:04.010',
+      'second line',
+      '',
+      '00:00:04.010 --> 00:00:06.000',
+      'second line',
+      'third line',
+    ].join('\n');
+
+    assert.deepEqual(parseCaptionSegments({ format: 'vtt', content }), [
+      { start: 0, end: 2, text: 'first line' },
+      { start: 2, end: 4, text: 'second line' },
+      { start: 4.01, end: 6, text: 'third line' },
+    ]);
+  });
+
+  it('parses SRT cues', () => {
+    const content = [
+      '1',
+      '00:00:01,000 --> 00:00:03,200',
+      '<i>Hello</i> there',
+      '',
+      '2',
+      '00:00:03,200 --> 00:00:04,000',
+      'General Kenobi',
+      '',
+      '3',
+      'not a timing --> at all',
+      'skipped',
+      '',
+    ].join('\n');
+
+    assert.deepEqual(parseCaptionSegments({ format: 'srt', content }), [
+      { start: 1, end: 3.2, text: 'Hello there' },
+      { start: 3.2, end: 4, text: 'General Kenobi' },
+    ]);
+  });
+
+  it('parses YouTube json3 events, skipping empty ones', () => {
+    const content = JSON.stringify({
+      events: [
+        { tStartMs: 0, dDurationMs: 5000, id: 1 }, // window setup, no segs
+        { tStartMs: 1000, dDurationMs: 2000, segs: [{ utf8: 'Whisk ' }, { utf8: 'the eggs' }] },
+        { tStartMs: 3000, dDurationMs: 100, segs: [{ utf8: '\n' }] },
+        { tStartMs: 4500, segs: [{ utf8: 'Done' }] },
+      ],
+    });
+
+    assert.deepEqual(parseCaptionSegments({ format: 'json3', content }), [
+      { start: 1, end: 3, text: 'Whisk the eggs' },
+      { start: 4.5, end: 4.5, text: 'Done' },
+    ]);
+  });
+
+  it('returns no segments for TTML', () => {
+    assert.deepEqual(parseCaptionSegments({ format: 'ttml', content: '<tt><body><p>Hi</p></body></tt>' }), []);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkVideoLimits, FakeVideoDownloader, runCommand, VideoLimitError } from '../src/server/downloader';
+
+// Node itself stands in for yt-dlp
+function runScript(script: string) {
+  return runCommand(process.execPath, ['-e', script], 10 * 1000);
+}
+
+describe('runCommand', () => {
+  it('returns the output of a successful command', async () => {
+    const { stdout, stderr } = await runScript('console.log("out"); console.error("err")');
+    assert.equal(stdout, 'out\n');
+    assert.equal(stderr, 'err\n');
+  });
+
+  it('keeps multi-byte characters that are split across chunks', async () => {
+    // Far more than one pipe chunk, with every character two bytes long
+    const { stdout } = await runScript('process.stdout.write("é".repeat(200000))');
+    assert.equal(stdout, 'é'.repeat(200000));
+  });
+
+  it('fails with the end of stderr on a non-zero exit', async () => {
+    await assert.rejects(
+      runScript('console.error("line 1\\nline 2\\nline 3\\nERROR: Unsupported URL"); process.exit(2)'),
+      /exited with code 2: line 2 line 3 ERROR: Unsupported URL$/
+    );
+  });
+
+  it('fails on output over the limit instead of returning it cut off', async () => {
+    await assert.rejects(
+      runScript('const chunk = "x".repeat(1024 * 1024); for (let i = 0; i < 6; i++) process.stdout.write(chunk)'),
+      /output too large \(over 5 MB\)/
+    );
+  });
+
+  it('kills a command that runs past its timeout', async () => {
+    await assert.rejects(runCommand(process.execPath, ['-e', 'setTimeout(() => {}, 10000)'], 200), /timed out after 0.2s/);
+  });
+});
+
+describe('checkVideoLimits', () => {
+  const limits = { maxDurationSeconds: 600, maxAudioBytes: 10 * 1024 * 1024 };
+
+  it('accepts videos within the limits or of unknown length', () => {
+    checkVideoLimits({ durationSeconds: 600, audioBytes: 10 * 1024 * 1024 }, limits);
+    checkVideoLimits({ durationSeconds: null, audioBytes: null }, limits);
+  });
+
+  it('refuses videos that are too long or too large, without retries', () => {
+    assert.throws(
+      () => checkVideoLimits({ durationSeconds: 1800, audioBytes: null }, limits),
+      (error: any) => error instanceof VideoLimitError && error.retryable === false && /too long \(30 min, limit 10 min\)/.test(error.message)
+    );
+    assert.throws(
+      () => checkVideoLimits({ durationSeconds: 60, audioBytes: 50 * 1024 * 1024 }, limits),
+      /too large \(50 MB, limit 10 MB\)/
+    );
+  });
+
+  it('applies to FakeVideoDownloader audio downloads', async () => {
+    const downloader = new FakeVideoDownloader({ info: { durationSeconds: 1800 } }, limits);
+    await assert.rejects(downloader.downloadAudio('https://youtube.com/watch?v=aaaaaaaaaaa'), VideoLimitError);
+    assert.deepEqual(downloader.calls.map(call => call.method), ['probe']);
+  });
+});
@@ -0,0 +1,99 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../src/server/storage';
+import { FakeAIProvider, setAIProvider } from '../src/server/aiProvider';
+import { METADATA_VERSION } from '../src/server/metadata';
+import { urlCacheKey } from '../src/server/aiCache';
+import { DuplicateItemError } from '../src/server/urls';
+import { findSavedItem } from '../src/server/duplicates';
+import { DEV_USER_ID, TestServer, api, startServer } from './helpers';
+
+// Public addresses, so the URLs pass the save checks without a DNS lookup
+let articleCount = 0;
+async function articleUrl(): Promise<string> {
+  articleCount++;
+  const url = `http://93.184.216.34/articles/${articleCount}`;
+  // Metadata from the AI cache, so nothing is fetched
+  await storage.setAICacheEntry({
+    key: urlCacheKey('metadata', url),
+    kind: 'metadata',
+    version: METADATA_VERSION,
+    value: { title: `Article ${articleCount}`, description: null, imageUrl: null, structuredContent: null, text: '', article: null, linkData: null },
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  });
+  return url;
+}
+
+const saveLink = (server: TestServer, body: object) => api(server, '/save-link', { method: 'POST', body: JSON.stringify(body) });
+
+describe('saving a URL twice', () => {
+  let server: TestServer;
+
+  before(async () => {
+    setAIProvider(new FakeAIProvider());
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server.close();
+    setAIProvider(null);
+  });
+
+  it('refuses a second save of the same page unless forced', async () => {
+    const url = await articleUrl();
+    const first = await saveLink(server, { url });
+    assert.equal(first.status, 200);
+    const { item }: any = await first.json();
+    assert.equal(item.canonicalUrl, 'https://93.184.216.34/articles/1');
+
+    const again = await saveLink(server, { url: `${url}/?utm_source=newsletter` });
+    assert.equal(again.status, 409);
+    assert.equal(((await again.json()) as any).item.id, item.id);
+
+    const forced = await saveLink(server, { url, force: true });
+    assert.equal(forced.status, 200);
+    const copy = ((await forced.json()) as any).item;
+    assert.notEqual(copy.id, item.id);
+    assert.equal(copy.canonicalUrl, undefined);
+    assert.equal((await findSavedItem(DEV_USER_ID, url))?.id, item.id);
+  });
+
+  it('lets only one of two concurrent saves through', async () => {
+    const url = await articleUrl();
+    const responses = await Promise.all([saveLink(server, { url }), saveLink(server, { url })]);
+    assert.deepEqual(responses.map(response => response.status).sort(), [200, 409]);
+
+    const [saved, refused]: any[] = await Promise.all(
+      responses.sort((a, b) => a.status - b.status).map(response => response.json())
+    );
+    assert.equal(refused.error, 'Link already saved');
+    assert.equal(refused.item.id, saved.item.id);
+  });
+});
+
+describe('MemStorage canonical URLs', () => {
+  const item = (canonicalUrl: string | undefined, status: 'ready' | 'failed' = 'ready') => ({
+    userId: 'duplicates-user',
+    type: 'video' as const,
+    status,
+    title: 'Video',
+    summary: '',
+    category: 'General',
+    tags: [],
+    url: 'https://youtu.be/bbbbbbbbbbb',
+    canonicalUrl,
+  });
+  const canonical = 'https://youtube.com/watch?v=bbbbbbbbbbb';
+
+  it('allows one active item per canonical URL', async () => {
+    const failed = await storage.createItem(item(canonical, 'failed'));
+    const saved = await storage.createItem(item(canonical));
+    await assert.rejects(storage.createItem(item(canonical)), DuplicateItemError);
+    await storage.createItem(item(undefined));
+    assert.equal((await storage.getItemByCanonicalUrl('duplicates-user', canonical))?.id, saved.id);
+
+    // A failed video retried while the same video was saved again
+    await assert.rejects(storage.updateItem(failed.id, 'duplicates-user', { status: 'processing' }), DuplicateItemError);
+    assert.equal((await storage.getItemById(failed.id, 'duplicates-user'))?.status, 'failed');
+  });
+});
@@ -0,0 +1,51 @@
+// Shared test setup: the API on a random local port, authenticated with the development token
+
+import express from 'express';
+import { AddressInfo } from 'net';
+import routes from '../src/server/routes';
+
+export interface TestServer {
+  url: string; // base URL of the API, e.g. http://127.0.0.1:1234/api
+  close(): Promise<void>;
+}
+
+export async function startServer(): Promise<TestServer> {
+  const app = express();
+  app.use(express.json());
+  app.use('/api', routes);
+
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/api`,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => (error ? reject(error) : resolve()));
+    }),
+  };
+}
+
+// Signed in as the development user (see jwtMiddleware.ts)
+export const DEV_USER_ID = 'dev-user-123';
+
+export function api(server: TestServer, path: string, init: RequestInit = {}): Promise<globalThis.Response> {
+  return fetch(`${server.url}${path}`, {
+    ...init,
+    headers: { 'X-Dev-Token': 'dev', 'Content-Type': 'application/json', ...init.headers },
+    signal: init.signal ?? AbortSignal.timeout(10000),
+  });
+}
+
+// Events of a Server-Sent Events body, in order
+export function parseEventStream(body: string): Array<{ event: string; data: any }> {
+  return body
+    .split('\n\n')
+    .map(block => {
+      const event = block.match(/^event: (.*)$/m)?.[1];
+      const data = block.match(/^data: (.*)$/m)?.[1];
+      return event && data !== undefined ? { event, data: JSON.parse(data) } : null;
+    })
+    .filter((entry): entry is { event: string; data: any } => entry !== null);
+}
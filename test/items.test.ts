@@ -0,0 +1,84 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../src/server/storage';
+import { FakeAIProvider, setAIProvider } from '../src/server/aiProvider';
+import { DEV_USER_ID, TestServer, api, startServer } from './helpers';
+
+describe('PATCH /items/:id', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  async function newItem() {
+    return storage.createItem({
+      userId: DEV_USER_ID, type: 'note', status: 'ready', title: 'Groceries', summary: '', category: 'Food', tags: [], content: 'Eggs',
+    });
+  }
+
+  function patch(id: string, body: object) {
+    return api(server, `/items/${id}`, { method: 'PATCH', body: JSON.stringify(body) });
+  }
+
+  it('cleans the category like the category routes do', async () => {
+    const item = await newItem();
+    const response = await patch(item.id, { category: '   Meal    prep  ' });
+    assert.equal(response.status, 200);
+    assert.equal(((await response.json()) as any).item.category, 'Meal prep');
+  });
+
+  it('moves the item to the default category when the category is cleared', async () => {
+    for (const category of ['', '   ', null, 42]) {
+      const item = await newItem();
+      const response = await patch(item.id, { category });
+      assert.equal(response.status, 200);
+      assert.equal(((await response.json()) as any).item.category, 'General', JSON.stringify(category));
+    }
+  });
+});
+
+describe('item tag routes', () => {
+  let server: TestServer;
+  let embedded: string[];
+  const setItemEmbedding = storage.setItemEmbedding;
+
+  before(async () => {
+    setAIProvider(new FakeAIProvider());
+    storage.setItemEmbedding = async (itemId, embedding) => {
+      embedded.push(itemId);
+      return setItemEmbedding.call(storage, itemId, embedding);
+    };
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server.close();
+    storage.setItemEmbedding = setItemEmbedding;
+    setAIProvider(null);
+  });
+
+  it('re-embeds the item when tags are added or removed', async () => {
+    const item = await storage.createItem({
+      userId: DEV_USER_ID, type: 'note', status: 'ready', title: 'Bread', summary: '', category: 'Food', tags: ['baking'], content: 'Flour',
+    });
+    embedded = [];
+
+    const added = await api(server, `/items/${item.id}/tags`, { method: 'POST', body: JSON.stringify({ tags: ['Sourdough'] }) });
+    assert.equal(added.status, 200);
+    assert.deepEqual(((await added.json()) as any).item.tags, ['baking', 'sourdough']);
+    assert.deepEqual(embedded, [item.id]);
+
+    const removed = await api(server, `/items/${item.id}/tags/baking`, { method: 'DELETE' });
+    assert.equal(removed.status, 200);
+    assert.deepEqual(embedded, [item.id, item.id]);
+
+    // Removing a tag the item doesn't have changes nothing
+    await api(server, `/items/${item.id}/tags/unknown`, { method: 'DELETE' });
+    assert.deepEqual(embedded, [item.id, item.id]);
+  });
+});
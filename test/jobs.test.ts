@@ -0,0 +1,99 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Job } from '../src/shared/schema';
+import { JobQueue } from '../src/server/jobs';
+import { storage } from '../src/server/storage';
+
+const USER_ID = 'jobs-user';
+const HOUR = 60 * 60 * 1000;
+
+// A job left running by a worker that died an hour ago
+async function staleJob(attempts: number, maxAttempts: number): Promise<Job> {
+  const job = await storage.createJob({ userId: USER_ID, type: 'video_ingest', payload: {}, itemId: null, maxAttempts });
+  return (await storage.updateJob(job.id, { status: 'running', attempts, lockedAt: new Date(Date.now() - HOUR) }))!;
+}
+
+async function waitFor(condition: () => Promise<boolean>, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the job queue');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+async function statusOf(job: Job) {
+  return (await storage.getJob(job.id, USER_ID))?.status;
+}
+
+describe('JobQueue stale job recovery', () => {
+  let queue: JobQueue;
+
+  afterEach(() => queue.stop());
+
+  it('requeues interrupted jobs on start and fails those that were on their last attempt', async () => {
+    const retried = await staleJob(1, 3);
+    const exhausted = await staleJob(3, 3);
+    const ran: string[] = [];
+    const failures: Array<[string, string]> = [];
+
+    queue = new JobQueue();
+    queue.register(
+      'video_ingest',
+      async ({ job }) => {
+        ran.push(job.id);
+      },
+      async (job, error) => {
+        failures.push([job.id, error.message]);
+      }
+    );
+    await queue.start();
+
+    await waitFor(async () => (await statusOf(retried)) === 'completed');
+    assert.deepEqual(ran, [retried.id]);
+    assert.equal((await storage.getJob(retried.id, USER_ID))?.attempts, 2);
+
+    const failed = await storage.getJob(exhausted.id, USER_ID);
+    assert.equal(failed?.status, 'failed');
+    assert.equal(failed?.error, 'The server stopped while processing this job');
+    assert.deepEqual(failures, [[exhausted.id, 'The server stopped while processing this job']]);
+  });
+
+  it('keeps checking for stale jobs while running', async () => {
+    const failures: string[] = [];
+    queue = new JobQueue({ staleCheckIntervalMs: 20 });
+    queue.register('video_ingest', async () => {}, async job => {
+      failures.push(job.id);
+    });
+    await queue.start();
+
+    // A worker on another instance dies after this one started
+    const orphan = await staleJob(1, 1);
+    await waitFor(async () => failures.includes(orphan.id));
+    assert.equal(await statusOf(orphan), 'failed');
+  });
+
+  it("renews the locks of its own running jobs so they aren't taken for stale", async () => {
+    let finish: () => void = () => {};
+    const finished = new Promise<void>(resolve => (finish = resolve));
+    let runs = 0;
+
+    queue = new JobQueue({ staleCheckIntervalMs: 20 });
+    queue.register('video_ingest', async () => {
+      runs++;
+      await finished;
+    });
+    await queue.start();
+
+    const job = await queue.enqueue({ userId: USER_ID, type: 'video_ingest', payload: {}, itemId: null });
+    await waitFor(async () => (await statusOf(job)) === 'running');
+
+    // Looks stale, but its worker is alive: the next check renews the lock instead
+    await storage.updateJob(job.id, { lockedAt: new Date(Date.now() - HOUR) });
+    await waitFor(async () => (await storage.getJob(job.id, USER_ID))!.lockedAt!.getTime() > Date.now() - HOUR / 2);
+    assert.equal(await statusOf(job), 'running');
+
+    finish();
+    await waitFor(async () => (await statusOf(job)) === 'completed');
+    assert.equal(runs, 1);
+  });
+});
@@ -0,0 +1,52 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../src/server/storage';
+import { startSession } from '../src/server/sessions';
+import { TestServer, api, startServer } from './helpers';
+
+// Replace one storage method with a failing one for the duration of `run`
+async function withFailing<K extends keyof typeof storage>(method: K, run: () => Promise<void>) {
+  const original = storage[method];
+  (storage as any)[method] = async () => {
+    throw new Error('connection terminated unexpectedly');
+  };
+  try {
+    await run();
+  } finally {
+    storage[method] = original;
+  }
+}
+
+describe('jwtAuthMiddleware', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('answers 503 when the development user cannot be loaded', async () => {
+    await withFailing('upsertUser', async () => {
+      const response = await api(server, '/items');
+      assert.equal(response.status, 503);
+      assert.deepEqual(await response.json(), { error: 'Authentication is unavailable right now' });
+    });
+
+    // The server is still up
+    assert.equal((await api(server, '/items')).status, 200);
+  });
+
+  it('answers 503 when the signed-in user cannot be loaded', async () => {
+    const user = await storage.upsertUser({ email: 'storage-failure@example.com' });
+    const { token } = await startSession(user);
+    const headers = { 'X-Dev-Token': '', Authorization: `Bearer ${token}` };
+
+    await withFailing('getUserById', async () => {
+      assert.equal((await api(server, '/items', { headers })).status, 503);
+    });
+    assert.equal((await api(server, '/items', { headers })).status, 200);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import * as cheerio from 'cheerio';
+import { extractLinkData, parseCount, parsePrice, registerLinkExtractor } from '../src/server/linkExtractors';
+
+function extract(url: string, fixture: string) {
+  const html = readFileSync(join(__dirname, 'fixtures', 'links', fixture), 'utf-8');
+  return extractLinkData(url, cheerio.load(html));
+}
+
+describe('parseCount', () => {
+  it('reads plain, grouped and abbreviated counts', () => {
+    assert.equal(parseCount('12,345'), 12345);
+    assert.equal(parseCount('12.3k'), 12300);
+    assert.equal(parseCount('1.2M stars'), 1200000);
+    assert.equal(parseCount('87'), 87);
+  });
+
+  it('returns undefined without a number', () => {
+    assert.equal(parseCount(''), undefined);
+    assert.equal(parseCount(null), undefined);
+    assert.equal(parseCount('no ratings'), undefined);
+  });
+});
+
+describe('parsePrice', () => {
+  it('reads dot and comma decimal separators', () => {
+    assert.deepEqual(parsePrice('$1,299.99'), { price: 1299.99, currency: '$' });
+    assert.deepEqual(parsePrice('12,99 €'), { price: 12.99, currency: 'EUR' });
+    assert.deepEqual(parsePrice('1.299,99 €'), { price: 1299.99, currency: 'EUR' });
+  });
+
+  it('treats a comma before three digits as a thousands separator', () => {
+    assert.deepEqual(parsePrice('£1,299'), { price: 1299, currency: 'GBP' });
+  });
+
+  it('prefers an ISO currency code to a symbol', () => {
+    assert.deepEqual(parsePrice('CAD $25.00'), { price: 25, currency: 'CAD' });
+    assert.deepEqual(parsePrice('EUR 12.99'), { price: 12.99, currency: 'EUR' });
+  });
+
+  it('returns nothing without an amount', () => {
+    assert.deepEqual(parsePrice('Currently unavailable'), {});
+    assert.deepEqual(parsePrice(undefined), {});
+  });
+});
+
+describe('github extractor', () => {
+  it('extracts repository details and the README', () => {
+    const data = extract('https://github.com/socketio/socket.io', 'github.html');
+    assert.deepEqual(data, {
+      kind: 'github_repo',
+      owner: 'socketio',
+      repo: 'socket.io',
+      description: 'Realtime application framework (Node.JS server)',
+      stars: 61234,
+      forks: 10120,
+      language: 'TypeScript',
+      topics: ['websocket', 'realtime'],
+      readme: 'socket.io Socket.IO enables real-time bidirectional communication. Installation npm install socket.io',
+    });
+  });
+
+  it('strips the repository suffix from og:description literally', () => {
+    const html = '<meta property="og:description" content="Realtime framework - socketio/socket-io">';
+    const data = extractLinkData('https://github.com/socketio/socket.io', cheerio.load(html));
+    // "." in the repo name must not match "-" in the description
+    assert.equal(data?.kind === 'github_repo' && data.description, 'Realtime framework - socketio/socket-io');
+
+    const own = '<meta property="og:description" content="Realtime framework - socketio/socket.io">';
+    const ownData = extractLinkData('https://github.com/socketio/socket.io.git', cheerio.load(own));
+    assert.equal(ownData?.kind === 'github_repo' && ownData.description, 'Realtime framework');
+  });
+
+  it('ignores GitHub pages that are not repositories', () => {
+    assert.equal(extract('https://github.com/topics/websocket', 'plain.html'), null);
+  });
+});
+
+describe('x extractor', () => {
+  it('extracts the post and its replies', () => {
+    const data = extract('https://x.com/jack/status/1234567890', 'x.html');
+    assert.deepEqual(data, {
+      kind: 'social_post',
+      platform: 'x',
+      author: 'jack',
+      text: 'Shipping the new release today. Changelog in the thread',
+      postedAt: '2024-03-01T12:00:00.000Z',
+      replies: [{ author: 'alice', text: 'Congrats!' }],
+    });
+  });
+
+  it('falls back to the Open Graph preview', () => {
+    const html = '<meta property="og:description" content="“Hello from the preview”">';
+    const data = extractLinkData('https://twitter.com/jack/status/1', cheerio.load(html));
+    assert.deepEqual(data, { kind: 'social_post', platform: 'x', author: 'jack', text: 'Hello from the preview' });
+  });
+});
+
+describe('reddit extractor', () => {
+  it('extracts a thread from the current site markup', () => {
+    const data = extract('https://www.reddit.com/r/MealPrepSunday/comments/abc123/favourite_recipe/', 'reddit.html');
+    assert.deepEqual(data, {
+      kind: 'social_post',
+      platform: 'reddit',
+      text: 'What is your favourite meal prep recipe?\n\nLooking for ideas that keep for five days.',
+      community: 'r/MealPrepSunday',
+      author: 'cook123',
+      postedAt: '2024-02-10T08:30:00.000Z',
+      score: 1200,
+      commentCount: 345,
+      replies: [
+        { author: 'chef_a', text: 'Chicken burrito bowls.' },
+        { author: 'chef_c', text: 'Overnight oats' },
+      ],
+    });
+  });
+
+  it('extracts a thread from old.reddit.com markup', () => {
+    const data = extract('https://old.reddit.com/r/MealPrepSunday/comments/abc123/budget/', 'reddit-old.html');
+    assert.deepEqual(data, {
+      kind: 'social_post',
+      platform: 'reddit',
+      text: 'Budget meal prep\n\nRice, beans and a lot of salsa.',
+      community: 'r/MealPrepSunday',
+      author: 'cook123',
+      postedAt: '2024-02-10T08:30:00.000Z',
+      score: 87,
+      commentCount: 12,
+      replies: [{ author: 'chef_a', text: 'Add eggs' }],
+    });
+  });
+});
+
+describe('podcast extractor', () => {
+  it('extracts a PodcastEpisode from JSON-LD', () => {
+    const data = extract('https://podcasts.apple.com/us/podcast/the-health-show/id1?i=42', 'podcast.html');
+    assert.deepEqual(data, {
+      kind: 'podcast_episode',
+      title: 'Episode 42: Sleep and Performance',
+      show: 'The Health Show',
+      audioUrl: 'https://podcasts.apple.com/audio/ep42.mp3',
+      durationSeconds: 3750,
+      publishedAt: '2024-01-15T00:00:00.000Z',
+    });
+  });
+});
+
+describe('product extractor', () => {
+  it('extracts an Amazon product page', () => {
+    const data = extract('https://www.amazon.com/dp/B00006JSUA', 'product-amazon.html');
+    assert.deepEqual(data, {
+      kind: 'product',
+      name: 'Cast Iron Skillet, 12 inch',
+      price: 34.9,
+      currency: '$',
+      availability: 'in stock',
+      brand: 'Lodge',
+      rating: 4.7,
+      reviewCount: 12345,
+    });
+  });
+
+  it('extracts a schema.org Product', () => {
+    const data = extract('https://shoes.example.com/trail-runner-3', 'product-jsonld.html');
+    assert.deepEqual(data, {
+      kind: 'product',
+      name: 'Trail Runner 3',
+      price: 129.95,
+      currency: 'EUR',
+      availability: 'in stock',
+      brand: 'Stride',
+      rating: 4.5,
+      reviewCount: 210,
+    });
+  });
+});
+
+describe('extractLinkData', () => {
+  it('returns null for pages no extractor recognizes', () => {
+    assert.equal(extract('https://example.com/article', 'plain.html'), null);
+  });
+
+  it('skips an extractor that throws', () => {
+    registerLinkExtractor({
+      name: 'broken',
+      matches: () => true,
+      extract: () => {
+        throw new Error('boom');
+      },
+    });
+    const data = extract('https://x.com/jack/status/1234567890', 'x.html');
+    assert.equal(data?.kind, 'social_post');
+  });
+});
@@ -0,0 +1,24 @@
+// Local JWKS stand-in: an RSA key pair whose key set verifies the tokens it signs
+
+import { generateKeyPairSync, KeyObject, randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Jwk, JwksFetcher } from '../src/server/jwks';
+
+export class LocalJwks {
+  readonly kid: string;
+  readonly publicJwk: Jwk;
+  private privateKey: KeyObject;
+
+  constructor(kid: string = randomUUID()) {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    this.kid = kid;
+    this.privateKey = privateKey;
+    this.publicJwk = { ...(publicKey.export({ format: 'jwk' }) as Jwk), kid, alg: 'RS256', use: 'sig' };
+  }
+
+  fetcher: JwksFetcher = async () => [this.publicJwk];
+
+  sign(claims: Record<string, unknown>, options: jwt.SignOptions = {}): string {
+    return jwt.sign(claims, this.privateKey, { algorithm: 'RS256', keyid: this.kid, ...options });
+  }
+}
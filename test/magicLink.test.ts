@@ -0,0 +1,125 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import net, { AddressInfo } from 'net';
+import { ConsoleMailer, MailMessage, MailerError, SmtpMailer, setMailer } from '../src/server/mailer';
+import { TestServer, api, startServer } from './helpers';
+
+// The token of the sign-in link in a mailed message
+function linkToken(message: MailMessage): string {
+  const link = message.text.match(/https?:\/\/\S+/)?.[0];
+  assert.ok(link, 'message contains a link');
+  return new URL(link).searchParams.get('token') || '';
+}
+
+describe('magic-link sign-in', () => {
+  let server: TestServer;
+  let mailer: ConsoleMailer;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server.close();
+    setMailer(null);
+  });
+
+  afterEach(() => setMailer(null));
+
+  function requestLink(email: unknown) {
+    return api(server, '/login/email', { method: 'POST', body: JSON.stringify({ email }) });
+  }
+
+  function verify(token: string) {
+    return api(server, '/login/email/verify', { method: 'POST', body: JSON.stringify({ token }) });
+  }
+
+  it('mails a link whose token signs the user in once', async () => {
+    mailer = new ConsoleMailer();
+    setMailer(mailer);
+
+    const response = await requestLink('  Reader@Example.com ');
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { success: true });
+
+    assert.equal(mailer.sent.length, 1);
+    const [message] = mailer.sent;
+    assert.equal(message.to, 'reader@example.com');
+    assert.equal(message.subject, 'Your SmartVault sign-in link');
+    const token = linkToken(message);
+    assert.ok(message.html?.includes(token));
+
+    const signedIn = await verify(token);
+    assert.equal(signedIn.status, 200);
+    const body: any = await signedIn.json();
+    assert.equal(body.user.email, 'reader@example.com');
+    assert.ok(body.token);
+    assert.ok(body.refreshToken);
+
+    const again = await verify(token);
+    assert.equal(again.status, 401);
+  });
+
+  it('signs the same address in as the same user', async () => {
+    mailer = new ConsoleMailer();
+    setMailer(mailer);
+
+    await requestLink('returning@example.com');
+    await requestLink('Returning@example.com');
+    const [first, second] = await Promise.all(mailer.sent.map(message => verify(linkToken(message)).then(r => r.json() as Promise<any>)));
+    assert.equal(first.user.id, second.user.id);
+  });
+
+  it('rejects malformed addresses and unknown tokens without mailing', async () => {
+    mailer = new ConsoleMailer();
+    setMailer(mailer);
+
+    for (const email of ['not-an-address', 'a@b', '', 42]) {
+      assert.equal((await requestLink(email)).status, 400);
+    }
+    assert.equal(mailer.sent.length, 0);
+
+    assert.equal((await verify('made-up-token')).status, 401);
+    assert.equal((await api(server, '/login/email/verify', { method: 'POST', body: '{}' })).status, 400);
+  });
+
+  it('rate limits links per address', async () => {
+    mailer = new ConsoleMailer();
+    setMailer(mailer);
+
+    const statuses: number[] = [];
+    for (let i = 0; i < 6; i++) {
+      statuses.push((await requestLink('busy@example.com')).status);
+    }
+    assert.deepEqual(statuses, [200, 200, 200, 200, 200, 429]);
+    assert.equal(mailer.sent.length, 5);
+  });
+
+  it('answers 503 when mail cannot be delivered', async () => {
+    setMailer({
+      send: async () => {
+        throw new MailerError('SMTP delivery failed: connection refused');
+      },
+    });
+
+    const response = await requestLink('offline@example.com');
+    assert.equal(response.status, 503);
+    assert.deepEqual(await response.json(), { error: 'Email sign-in is unavailable right now' });
+  });
+});
+
+describe('SmtpMailer', () => {
+  it('reports an unreachable server as a MailerError', async () => {
+    // A port that was just free, so the connection is refused
+    const probe = net.createServer().listen(0, '127.0.0.1');
+    await new Promise(resolve => probe.once('listening', resolve));
+    const { port } = probe.address() as AddressInfo;
+    await new Promise(resolve => probe.close(resolve));
+
+    const mailer = new SmtpMailer({ host: '127.0.0.1', port, secure: false, from: 'test@example.com', timeoutMs: 2000 });
+    await assert.rejects(
+      mailer.send({ to: 'reader@example.com', subject: 'Hello', text: 'Hi' }),
+      (error: Error) => error instanceof MailerError && /SMTP delivery failed/.test(error.message)
+    );
+  });
+});
@@ -0,0 +1,348 @@
+// PgStorage against a real PostgreSQL server; skipped unless TEST_DATABASE_URL is set (e.g. the
+// docker-compose database). Each run creates and drops its own database, so existing data is
+// left alone
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from 'pg';
+import { PgStorage } from '../src/server/pgStorage';
+import { DEFAULT_MAX_ATTEMPTS } from '../src/server/jobs';
+import { DuplicateItemError } from '../src/server/urls';
+
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+// Run queries on a connection of its own
+async function withClient<T>(connectionString: string, run: (client: Client) => Promise<T>): Promise<T> {
+  const client = new Client({ connectionString });
+  await client.connect();
+  try {
+    return await run(client);
+  } finally {
+    await client.end();
+  }
+}
+
+describe('PgStorage', { skip: !TEST_DATABASE_URL && 'TEST_DATABASE_URL is not set' }, () => {
+  const database = `smartvault_test_${Date.now()}`;
+  let databaseUrl: string;
+  let storage: PgStorage;
+  let userId: string;
+  let otherUserId: string;
+
+  const query = (text: string, values: unknown[] = []) => withClient(databaseUrl, client => client.query(text, values));
+
+  before(async () => {
+    await withClient(TEST_DATABASE_URL!, client => client.query(`CREATE DATABASE ${database}`));
+    const url = new URL(TEST_DATABASE_URL!);
+    url.pathname = `/${database}`;
+    databaseUrl = url.toString();
+
+    storage = new PgStorage(databaseUrl);
+    await storage.migrate();
+    userId = (await storage.upsertUser({ email: 'cook@example.com' })).id;
+    otherUserId = (await storage.upsertUser({ email: 'other@example.com' })).id;
+  });
+
+  after(async () => {
+    await storage?.close();
+    await withClient(TEST_DATABASE_URL!, client => client.query(`DROP DATABASE IF EXISTS ${database}`));
+  });
+
+  describe('migrate', () => {
+    it('creates the schema on an empty database', async () => {
+      const { rows } = await query(`SELECT table_name FROM information_schema.tables WHERE table_schema = 'public'`);
+      const tables = rows.map(row => row.table_name);
+      for (const table of ['users', 'items', 'video_data', 'link_articles', 'item_embeddings', 'jobs', 'ai_cache']) {
+        assert.ok(tables.includes(table), `missing table ${table}`);
+      }
+    });
+
+    it('does nothing when the schema is up to date', async () => {
+      const applied = async () => (await query('SELECT count(*)::int AS count FROM drizzle.__drizzle_migrations')).rows[0].count;
+      const before = await applied();
+      assert.ok(before > 0);
+      await storage.migrate();
+      assert.equal(await applied(), before);
+    });
+  });
+
+  describe('items', () => {
+    it('creates an item with its video data and article', async () => {
+      const created = await storage.createItem({
+        userId,
+        type: 'video',
+        status: 'ready',
+        title: 'Knife skills',
+        summary: 'Three cuts every cook needs',
+        category: 'Cooking',
+        tags: ['knives', 'basics'],
+        url: 'https://youtube.com/watch?v=aaaaaaaaaaa',
+        videoData: {
+          platform: 'youtube',
+          transcript: 'Hold the knife like this.',
+          segments: [{ start: 0, end: 4, text: 'Hold the knife like this.' }],
+        },
+        article: {
+          content: '<p>Claw grip</p>',
+          text: 'Claw grip',
+          wordCount: 2,
+          readingTimeMinutes: 1,
+          publishedAt: '2024-01-15T00:00:00.000Z',
+        },
+      });
+
+      assert.match(created.id, /^item-/);
+      assert.equal(created.aiFallback, false);
+      assert.deepEqual(await storage.getItemById(created.id, userId), created);
+      assert.equal(created.article?.publishedAt, '2024-01-15T00:00:00.000Z');
+      assert.equal(created.videoData?.segments?.length, 1);
+      // Optional columns that were not set are left out, as in MemStorage
+      assert.equal('userNotes' in created, false);
+    });
+
+    it('updates, clears and replaces columns and related rows', async () => {
+      const item = await storage.createItem({
+        userId, type: 'link', title: 'Draft', summary: '', category: 'General', tags: [], userNotes: 'old note',
+        url: 'https://example.com/draft',
+      });
+
+      const updated = await storage.updateItem(item.id, userId, {
+        title: 'Final',
+        tags: ['done'],
+        userNotes: undefined,
+        article: { content: '<p>Body</p>', text: 'Body', wordCount: 1, readingTimeMinutes: 1 },
+      });
+      assert.equal(updated?.title, 'Final');
+      assert.deepEqual(updated?.tags, ['done']);
+      assert.equal(updated?.userNotes, undefined);
+      assert.equal(updated?.article?.text, 'Body');
+
+      const withoutArticle = await storage.updateItem(item.id, userId, { article: undefined });
+      assert.equal(withoutArticle?.article, undefined);
+      assert.equal((await query('SELECT count(*)::int AS count FROM link_articles WHERE item_id = $1', [item.id])).rows[0].count, 0);
+    });
+
+    it("doesn't let other users read, update or delete an item", async () => {
+      const item = await storage.createItem({ userId, type: 'note', title: 'Mine', summary: '', category: 'General', tags: [], content: 'x' });
+
+      assert.equal(await storage.getItemById(item.id, otherUserId), null);
+      assert.equal(await storage.updateItem(item.id, otherUserId, { title: 'Theirs' }), null);
+      assert.equal(await storage.deleteItem(item.id, otherUserId), false);
+      assert.equal((await storage.getItemById(item.id, userId))?.title, 'Mine');
+    });
+
+    it('deletes an item with its related rows', async () => {
+      const item = await storage.createItem({
+        userId, type: 'video', title: 'Short', summary: '', category: 'General', tags: [],
+        videoData: { platform: 'tiktok', transcript: 'hello' },
+      });
+
+      assert.equal(await storage.deleteItem(item.id, userId), true);
+      assert.equal(await storage.getItemById(item.id, userId), null);
+      assert.equal(await storage.deleteItem(item.id, userId), false);
+      assert.equal((await query('SELECT count(*)::int AS count FROM video_data WHERE item_id = $1', [item.id])).rows[0].count, 0);
+    });
+  });
+
+  describe('canonical URLs', () => {
+    const canonical = 'https://example.com/articles/unique';
+    const link = (owner: string, status: 'ready' | 'failed' = 'ready', canonicalUrl: string | null = canonical) => ({
+      userId: owner, type: 'link' as const, status, title: 'Unique article', summary: '', category: 'General', tags: [],
+      url: `${canonical}?utm_source=test`, canonicalUrl: canonicalUrl ?? undefined,
+    });
+
+    it('allows one active item per user and canonical URL', async () => {
+      const failed = await storage.createItem(link(userId, 'failed'));
+      const saved = await storage.createItem(link(userId));
+      await assert.rejects(storage.createItem(link(userId)), DuplicateItemError);
+      // Other users and forced copies (no canonical URL) are not affected
+      await storage.createItem(link(otherUserId));
+      await storage.createItem(link(userId, 'ready', null));
+
+      assert.equal((await storage.getItemByCanonicalUrl(userId, canonical))?.id, saved.id);
+      assert.equal(saved.canonicalUrl, canonical);
+      await assert.rejects(storage.updateItem(failed.id, userId, { status: 'processing' }), DuplicateItemError);
+    });
+
+    it('settles concurrent saves in the database', async () => {
+      const url = 'https://example.com/articles/race';
+      const results = await Promise.allSettled([1, 2, 3].map(() => storage.createItem(link(userId, 'ready', url))));
+      assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+      for (const result of results.filter(result => result.status === 'rejected')) {
+        assert.ok((result as PromiseRejectedResult).reason instanceof DuplicateItemError);
+      }
+    });
+
+    it('fills in canonical URLs of older items on migrate, keeping the newest of duplicates', async () => {
+      const owner = (await storage.upsertUser({ email: 'backfill@example.com' })).id;
+      const insert = (id: string, url: string | null, createdAt: string, type = 'link') => query(
+        `INSERT INTO items (id, user_id, type, title, summary, category, url, created_at) VALUES ($1, $2, $3, 'Old', '', 'General', $4, $5)`,
+        [id, owner, type, url, createdAt]
+      );
+      await insert('backfill-older', 'http://www.example.com/recipe/?utm_source=x', '2024-01-01T00:00:00Z');
+      await insert('backfill-newer', 'https://example.com/recipe', '2024-02-01T00:00:00Z');
+      await insert('backfill-video', 'https://youtu.be/ccccccccccc', '2024-01-15T00:00:00Z', 'video');
+      await insert('backfill-note', null, '2024-01-15T00:00:00Z', 'note');
+
+      await storage.migrate();
+
+      const { rows } = await query(`SELECT id, canonical_url FROM items WHERE user_id = $1 ORDER BY id`, [owner]);
+      assert.deepEqual(Object.fromEntries(rows.map(row => [row.id, row.canonical_url])), {
+        'backfill-newer': 'https://example.com/recipe',
+        'backfill-note': null,
+        'backfill-older': null,
+        'backfill-video': 'https://youtube.com/watch?v=ccccccccccc',
+      });
+
+      // The older copy takes over the URL once the newer one is gone
+      await storage.deleteItem('backfill-newer', owner);
+      await storage.migrate();
+      assert.equal((await storage.getItemByCanonicalUrl(owner, 'https://example.com/recipe'))?.id, 'backfill-older');
+    });
+  });
+
+  describe('searchItems', () => {
+    before(async () => {
+      await storage.createItem({
+        userId, type: 'link', title: 'Sourdough starter guide', summary: 'Feeding schedule', category: 'Cooking', tags: [],
+      });
+      await storage.createItem({
+        userId, type: 'note', title: 'Bakery list', summary: 'Places to try', category: 'Food', tags: [],
+        content: 'The sourdough at the corner bakery is worth the queue',
+      });
+      await storage.createItem({
+        userId, type: 'video', title: 'Pizza night', summary: '', category: 'Cooking', tags: [],
+        videoData: { platform: 'youtube', transcript: 'A sourdough base needs a long proof' },
+      });
+      await storage.createItem({
+        userId: otherUserId, type: 'link', title: 'Sourdough for beginners', summary: '', category: 'Cooking', tags: [],
+      });
+    });
+
+    const search = (text: string, filters = {}) => storage.searchItems(userId, { text, filters, limit: 20, offset: 0 });
+
+    it('ranks title matches above content and transcript matches', async () => {
+      const results = await search('sourdough');
+      assert.deepEqual(results.map(result => result.item.title), ['Sourdough starter guide', 'Bakery list', 'Pizza night']);
+      assert.ok(results[0].score > results[2].score);
+    });
+
+    it('highlights the match in the snippet', async () => {
+      const [result] = await search('queue');
+      assert.equal(result.item.title, 'Bakery list');
+      assert.match(result.snippet, /<mark>queue<\/mark>/);
+    });
+
+    it('applies the item filters', async () => {
+      const results = await search('sourdough', { type: 'video' });
+      assert.deepEqual(results.map(result => result.item.title), ['Pizza night']);
+      assert.deepEqual(await search('sourdough', { platform: 'tiktok' }), []);
+    });
+
+    it('stems words and finds updated text', async () => {
+      const [note] = (await search('bakery')).filter(result => result.item.type === 'note');
+      await storage.updateItem(note.item.id, userId, { userNotes: 'Closed on Mondays' });
+      assert.deepEqual((await search('monday')).map(result => result.item.id), [note.item.id]);
+    });
+  });
+
+  describe('findSimilarItems', () => {
+    const embedded: Record<string, string> = {};
+
+    before(async () => {
+      const vectors: Array<[string, 'link' | 'note', number[]]> = [
+        ['North', 'link', [1, 0, 0]],
+        ['North by north-east', 'note', [0.9, 0.1, 0]],
+        ['East', 'link', [0.1, 1, 0]],
+        ['Up', 'link', [0, 0, 1]],
+      ];
+      for (const [title, type, vector] of vectors) {
+        const item = await storage.createItem({ userId, type, title, summary: '', category: 'General', tags: [], content: title });
+        await storage.setItemEmbedding(item.id, { model: 'test-embed', vector });
+        embedded[title] = item.id;
+      }
+      const theirs = await storage.createItem({ userId: otherUserId, type: 'link', title: 'Their north', summary: '', category: 'General', tags: [] });
+      await storage.setItemEmbedding(theirs.id, { model: 'test-embed', vector: [1, 0, 0] });
+    });
+
+    const similar = (vector: number[], options: { limit: number; filters?: object; excludeItemId?: string; model?: string }) =>
+      storage.findSimilarItems(userId, { model: options.model || 'test-embed', vector }, { limit: options.limit, filters: options.filters, excludeItemId: options.excludeItemId });
+
+    it("returns the user's top-k items by similarity, in order, with full rows", async () => {
+      const results = await similar([1, 0, 0], { limit: 2 });
+      assert.deepEqual(results.map(result => result.item.title), ['North', 'North by north-east']);
+      assert.ok(Math.abs(results[0].score - 1) < 1e-6);
+      assert.ok(results[0].score > results[1].score);
+      assert.equal(results[1].item.content, 'North by north-east');
+    });
+
+    it('applies filters, the excluded item and the embedding model', async () => {
+      const excluded = await similar([1, 0, 0], { limit: 2, excludeItemId: embedded.North });
+      assert.deepEqual(excluded.map(result => result.item.title), ['North by north-east', 'East']);
+
+      const links = await similar([1, 0, 0], { limit: 2, filters: { type: 'link' } });
+      assert.deepEqual(links.map(result => result.item.title), ['North', 'East']);
+
+      assert.deepEqual(await similar([1, 0, 0], { limit: 2, model: 'other-model' }), []);
+    });
+  });
+
+  describe('jobs', () => {
+    const newJob = async (runAt: Date) => {
+      const job = await storage.createJob({
+        userId, type: 'video_ingest', payload: { url: 'https://youtube.com/watch?v=aaaaaaaaaaa' }, itemId: null, maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      });
+      return (await storage.updateJob(job.id, { runAt }))!;
+    };
+
+    it('claims due jobs in run order, each only once', async () => {
+      const now = Date.now();
+      const later = await newJob(new Date(now - 1000));
+      const first = await newJob(new Date(now - 60 * 1000));
+      const future = await newJob(new Date(now + 60 * 60 * 1000));
+
+      // Concurrent workers: SKIP LOCKED hands each job to one of them
+      const claimed = await Promise.all([storage.claimNextJob(), storage.claimNextJob(), storage.claimNextJob()]);
+      const ids = claimed.filter(job => job !== null).map(job => job!.id);
+      assert.deepEqual([...ids].sort(), [first.id, later.id].sort());
+      assert.equal(claimed.filter(job => job === null).length, 1);
+
+      const job = (await storage.getJob(first.id, userId))!;
+      assert.equal(job.status, 'running');
+      assert.equal(job.attempts, 1);
+      assert.ok(job.lockedAt);
+      assert.equal((await storage.getJob(future.id, userId))?.status, 'queued');
+      assert.equal(await storage.claimNextJob(), null);
+
+      for (const id of ids) {
+        await storage.updateJob(id, { status: 'completed', lockedAt: null });
+      }
+    });
+
+    it('requeues jobs whose worker died', async () => {
+      const job = await newJob(new Date(Date.now() - 1000));
+      const claimed = await storage.claimNextJob();
+      assert.equal(claimed?.id, job.id);
+
+      const interrupted = 'Worker stopped';
+      assert.deepEqual(await storage.recoverStaleJobs(new Date(Date.now() - 60 * 1000), interrupted), { requeued: 0, failed: [] });
+      assert.deepEqual(await storage.recoverStaleJobs(new Date(Date.now() + 1000), interrupted), { requeued: 1, failed: [] });
+      const again = await storage.claimNextJob();
+      assert.equal(again?.id, job.id);
+      assert.equal(again?.attempts, 2);
+      await storage.updateJob(job.id, { status: 'completed', lockedAt: null });
+    });
+
+    it('fails stale jobs that were on their last attempt', async () => {
+      const job = await newJob(new Date(Date.now() - 1000));
+      await storage.updateJob(job.id, { maxAttempts: 1 });
+      assert.equal((await storage.claimNextJob())?.id, job.id);
+
+      const { requeued, failed } = await storage.recoverStaleJobs(new Date(Date.now() + 1000), 'Worker stopped');
+      assert.equal(requeued, 0);
+      assert.deepEqual(failed.map(entry => [entry.id, entry.status, entry.error, entry.lockedAt]), [[job.id, 'failed', 'Worker stopped', null]]);
+      assert.equal((await storage.getJob(job.id, userId))?.status, 'failed');
+      assert.equal(await storage.claimNextJob(), null);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { storage } from '../src/server/storage';
+import { FakeAIProvider, setAIProvider } from '../src/server/aiProvider';
+import { METADATA_VERSION } from '../src/server/metadata';
+import { urlCacheKey } from '../src/server/aiCache';
+import { openEventStream } from '../src/server/progress';
+import { TestServer, api, parseEventStream, startServer } from './helpers';
+
+// A public address, so the URL passes the save checks without a DNS lookup; its metadata is
+// served from the AI cache, so nothing is fetched
+const ARTICLE_URL = 'http://93.184.216.34/articles/sourdough';
+
+describe('streamed saves', () => {
+  let server: TestServer;
+
+  before(async () => {
+    setAIProvider(new FakeAIProvider());
+    await storage.setAICacheEntry({
+      key: urlCacheKey('metadata', ARTICLE_URL),
+      kind: 'metadata',
+      version: METADATA_VERSION,
+      value: {
+        title: 'Sourdough basics',
+        description: 'How to keep a starter alive',
+        imageUrl: null,
+        structuredContent: null,
+        text: 'Feed the starter daily.',
+        article: null,
+        linkData: null,
+      },
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server.close();
+    setAIProvider(null);
+  });
+
+  it('streams every stage of a POST /save-link and ends with the item', async () => {
+    const response = await api(server, '/save-link', {
+      method: 'POST',
+      headers: { Accept: 'text/event-stream' },
+      body: JSON.stringify({ url: ARTICLE_URL }),
+    });
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('content-type') || '', /^text\/event-stream/);
+
+    // Resolves only once the server ends the response
+    const events = parseEventStream(await response.text());
+    assert.deepEqual(
+      events.map(entry => entry.data.stage ?? entry.event),
+      ['fetching_metadata', 'analyzing', 'saving', 'completed']
+    );
+
+    const completed = events[events.length - 1].data;
+    assert.equal(completed.success, true);
+    assert.equal(completed.item.title, 'Sourdough basics');
+    assert.equal(completed.item.url, ARTICLE_URL);
+    assert.deepEqual(completed.item.tags, ['fake-ai']);
+  });
+});
+
+describe('openEventStream', () => {
+  it('keeps a stream opened right after the request body was read', async () => {
+    const app = express();
+    app.use(express.json());
+    app.post('/stream', (req, res) => {
+      const stream = openEventStream(req, res);
+      setTimeout(() => {
+        stream.send('stage', { stage: 'analyzing' });
+        stream.send('completed', { received: req.body });
+        stream.close();
+      }, 50);
+    });
+    const server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const response = await fetch(`http://127.0.0.1:${port}/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+        body: JSON.stringify({ url: 'https://example.com' }),
+        signal: AbortSignal.timeout(5000),
+      });
+      assert.deepEqual(parseEventStream(await response.text()), [
+        { event: 'stage', data: { stage: 'analyzing' } },
+        { event: 'completed', data: { received: { url: 'https://example.com' } } },
+      ]);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('runs close callbacks when the client disconnects', async () => {
+    let closed: () => void = () => {};
+    const closedPromise = new Promise<void>(resolve => (closed = resolve));
+    const app = express();
+    app.get('/stream', (req, res) => {
+      const stream = openEventStream(req, res);
+      stream.onClose(closed);
+      stream.send('stage', { stage: 'queued' });
+    });
+    const server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const controller = new AbortController();
+      const response = await fetch(`http://127.0.0.1:${port}/stream`, { signal: controller.signal });
+      const reader = response.body!.getReader();
+      await reader.read(); // first event
+      controller.abort();
+      await closedPromise;
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+});
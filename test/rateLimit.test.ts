@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { rateLimit } from '../src/server/rateLimit';
+
+// An app with an IP limiter allowing `ipMax` requests and a second one allowing `routeMax`
+async function withStackedLimits(ipMax: number, routeMax: number, run: (url: string) => Promise<void>) {
+  const app = express();
+  app.use(rateLimit({ name: 'ip', max: ipMax, windowMs: 60 * 1000, by: 'ip' }));
+  app.post('/save', rateLimit({ name: 'route', max: routeMax, windowMs: 60 * 60 * 1000, by: 'ip' }), (req, res) => {
+    res.json({ success: true });
+  });
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+
+  try {
+    const { port } = server.address() as AddressInfo;
+    await run(`http://127.0.0.1:${port}/save`);
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+}
+
+async function post(url: string) {
+  const response = await fetch(url, { method: 'POST', signal: AbortSignal.timeout(5000) });
+  return {
+    status: response.status,
+    limit: response.headers.get('ratelimit-limit'),
+    remaining: response.headers.get('ratelimit-remaining'),
+    reset: Number(response.headers.get('ratelimit-reset')),
+    retryAfter: response.headers.get('retry-after'),
+  };
+}
+
+describe('stacked rate limits', () => {
+  it('reports the limiter with the least capacity left', async () => {
+    await withStackedLimits(10, 2, async url => {
+      const first = await post(url);
+      assert.equal(first.status, 200);
+      assert.equal(first.limit, '2');
+      assert.equal(first.remaining, '1');
+      assert.ok(first.reset > 60, 'reset of the hourly route limit');
+
+      const refused = [await post(url), await post(url)][1];
+      assert.equal(refused.status, 429);
+      assert.equal(refused.limit, '2');
+      assert.equal(refused.remaining, '0');
+      assert.equal(refused.retryAfter, String(refused.reset));
+    });
+  });
+
+  it('reports the outer limiter once it is closer to running out', async () => {
+    await withStackedLimits(2, 5, async url => {
+      const first = await post(url);
+      assert.equal(first.limit, '2');
+      assert.equal(first.remaining, '1');
+
+      await post(url);
+      const refused = await post(url);
+      assert.equal(refused.status, 429);
+      assert.equal(refused.limit, '2');
+      assert.equal(refused.remaining, '0');
+      assert.ok(refused.reset <= 60);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../src/server/storage';
+import { SessionError, endSession, isSessionActive, refreshSession, startSession } from '../src/server/sessions';
+import { assertJwtSecretConfigured, verifyToken } from '../src/server/jwt';
+import { TestServer, api, startServer } from './helpers';
+
+function sessionIdOf(refreshToken: string): string {
+  return refreshToken.substring(0, refreshToken.lastIndexOf('.'));
+}
+
+async function newUser(email: string) {
+  return storage.upsertUser({ email });
+}
+
+describe('refreshSession', () => {
+  it('rotates the refresh token and keeps the session', async () => {
+    const user = await newUser('rotate@example.com');
+    const first = await startSession(user, { deviceName: 'iPhone' });
+
+    const second = await refreshSession(first.refreshToken);
+    assert.notEqual(second.refreshToken, first.refreshToken);
+    assert.equal(sessionIdOf(second.refreshToken), sessionIdOf(first.refreshToken));
+    assert.equal(verifyToken(second.token)?.userId, user.id);
+    assert.ok(second.expiresIn > 0);
+
+    const third = await refreshSession(second.refreshToken);
+    assert.equal(sessionIdOf(third.refreshToken), sessionIdOf(first.refreshToken));
+  });
+
+  it('revokes the whole session when a rotated refresh token is replayed', async () => {
+    const user = await newUser('replay@example.com');
+    const stolen = await startSession(user);
+    const current = await refreshSession(stolen.refreshToken);
+    const sessionId = sessionIdOf(stolen.refreshToken);
+
+    await assert.rejects(refreshSession(stolen.refreshToken), { name: 'SessionError', message: 'Refresh token has already been used' });
+
+    const session = await storage.getAuthSession(sessionId);
+    assert.equal(session?.revokedReason, 'reuse_detected');
+    assert.equal(await isSessionActive(sessionId, user.id), false);
+    // The legitimate device is signed out too
+    await assert.rejects(refreshSession(current.refreshToken), { message: 'Session has been revoked' });
+  });
+
+  it('lets only one of two concurrent refreshes with the same token through', async () => {
+    const user = await newUser('race@example.com');
+    const { refreshToken } = await startSession(user);
+
+    const results = await Promise.allSettled([refreshSession(refreshToken), refreshSession(refreshToken)]);
+    assert.deepEqual(results.map(result => result.status).sort(), ['fulfilled', 'rejected']);
+    assert.equal((await storage.getAuthSession(sessionIdOf(refreshToken)))?.revokedReason, 'reuse_detected');
+  });
+
+  it('rejects malformed, unknown, expired and logged-out tokens', async () => {
+    await assert.rejects(refreshSession('no-separator'), { message: 'Malformed refresh token' });
+    await assert.rejects(refreshSession('session-unknown.secret'), { message: 'Invalid refresh token' });
+
+    const user = await newUser('expired@example.com');
+    const expired = await startSession(user);
+    const session = await storage.getAuthSession(sessionIdOf(expired.refreshToken));
+    session!.expiresAt = new Date(Date.now() - 1000);
+    await assert.rejects(refreshSession(expired.refreshToken), { message: 'Session has expired' });
+
+    const loggedOut = await startSession(user);
+    assert.equal(await endSession(sessionIdOf(loggedOut.refreshToken), user.id, 'logout'), true);
+    await assert.rejects(refreshSession(loggedOut.refreshToken), (error: Error) => error instanceof SessionError);
+    assert.equal(await endSession(sessionIdOf(loggedOut.refreshToken), user.id, 'logout'), false);
+  });
+});
+
+describe('session checks on requests', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  function withToken(token: string) {
+    return { headers: { 'X-Dev-Token': '', Authorization: `Bearer ${token}` } };
+  }
+
+  it('refuses access tokens of ended sessions', async () => {
+    const user = await newUser('signed-out@example.com');
+    const { token, refreshToken } = await startSession(user);
+    assert.equal((await api(server, '/items', withToken(token))).status, 200);
+
+    const logout = await api(server, '/logout', { method: 'POST', ...withToken(token) });
+    assert.equal(logout.status, 200);
+
+    const response = await api(server, '/items', withToken(token));
+    assert.equal(response.status, 401);
+    assert.deepEqual(await response.json(), { error: 'Session has ended' });
+
+    const refresh = await api(server, '/auth/refresh', { method: 'POST', body: JSON.stringify({ refreshToken }) });
+    assert.equal(refresh.status, 401);
+  });
+
+  it('answers 503 when the session cannot be checked', async () => {
+    const user = await newUser('session-store-down@example.com');
+    const { token } = await startSession(user);
+    const getAuthSession = storage.getAuthSession;
+    storage.getAuthSession = async () => {
+      throw new Error('connection terminated unexpectedly');
+    };
+
+    try {
+      assert.equal((await api(server, '/items', withToken(token))).status, 503);
+    } finally {
+      storage.getAuthSession = getAuthSession;
+    }
+  });
+});
+
+describe('assertJwtSecretConfigured', () => {
+  const env = { NODE_ENV: process.env.NODE_ENV, JWT_SECRET: process.env.JWT_SECRET };
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(env)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  it('requires a strong secret in production only', () => {
+    process.env.NODE_ENV = 'production';
+    delete process.env.JWT_SECRET;
+    assert.throws(() => assertJwtSecretConfigured(), /JWT_SECRET must be set in production/);
+
+    process.env.JWT_SECRET = 'dev-secret-change-in-production';
+    assert.throws(() => assertJwtSecretConfigured(), /JWT_SECRET must be set in production/);
+
+    process.env.JWT_SECRET = 'too-short';
+    assert.throws(() => assertJwtSecretConfigured(), /at least 32 characters/);
+
+    process.env.JWT_SECRET = 'a'.repeat(32);
+    assert.doesNotThrow(() => assertJwtSecretConfigured());
+
+    process.env.NODE_ENV = 'development';
+    delete process.env.JWT_SECRET;
+    assert.doesNotThrow(() => assertJwtSecretConfigured());
+  });
+});
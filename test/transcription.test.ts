@@ -0,0 +1,88 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeAIProvider, setAIProvider } from '../src/server/aiProvider';
+import { TimedTranscript, planChunks, segmentsToText, stitchTranscripts, transcribeAudio } from '../src/server/transcription';
+
+function transcript(...segments: Array<[number, number, string]>): TimedTranscript {
+  const timed = segments.map(([start, end, text]) => ({ start, end, text }));
+  return { text: segmentsToText(timed), segments: timed };
+}
+
+describe('planChunks', () => {
+  it('keeps short audio in one chunk', () => {
+    assert.deepEqual(planChunks(90), [{ start: 0, duration: 90 }]);
+    assert.deepEqual(planChunks(600), [{ start: 0, duration: 600 }]);
+  });
+
+  it('overlaps each chunk with the previous one', () => {
+    assert.deepEqual(planChunks(1500), [
+      { start: 0, duration: 600 },
+      { start: 595, duration: 600 },
+      { start: 1190, duration: 310 },
+    ]);
+  });
+
+  it('adds no chunk that would lie entirely inside the previous one', () => {
+    assert.deepEqual(planChunks(1195), [
+      { start: 0, duration: 600 },
+      { start: 595, duration: 600 },
+    ]);
+    assert.deepEqual(planChunks(100, 40, 10), [
+      { start: 0, duration: 40 },
+      { start: 30, duration: 40 },
+      { start: 60, duration: 40 },
+    ]);
+  });
+});
+
+describe('stitchTranscripts', () => {
+  it('shifts segments by their chunk offset and keeps overlapping speech once', () => {
+    // Chunks 0-40s and 30-70s overlap from 30s to 40s; the cut is at 35s
+    const stitched = stitchTranscripts([
+      {
+        offsetSeconds: 30,
+        durationSeconds: 40,
+        transcript: transcript([0, 4, 'the overlap repeated'], [6, 9, ' knead the dough '], [20, 30, 'bake it']),
+      },
+      {
+        offsetSeconds: 0,
+        durationSeconds: 40,
+        transcript: transcript([0, 10, 'Mix the flour.'], [30, 34, 'the overlap repeated'], [36, 39, 'knead the dough']),
+      },
+    ]);
+
+    assert.deepEqual(stitched.segments, [
+      { start: 0, end: 10, text: 'Mix the flour.' },
+      { start: 30, end: 34, text: 'the overlap repeated' },
+      { start: 36, end: 39, text: 'knead the dough' },
+      { start: 50, end: 60, text: 'bake it' },
+    ]);
+    assert.equal(stitched.text, 'Mix the flour. the overlap repeated knead the dough bake it');
+  });
+
+  it('takes every segment of a single chunk', () => {
+    const single = transcript([0, 5, 'Hello'], [5, 9, ''], [9, 12, 'world']);
+    const stitched = stitchTranscripts([{ offsetSeconds: 0, durationSeconds: 12, transcript: single }]);
+    assert.equal(stitched.segments.length, 3);
+    assert.equal(stitched.text, 'Hello world');
+  });
+});
+
+describe('transcribeAudio', () => {
+  after(() => setAIProvider(null));
+
+  it('transcribes audio under the upload limit in one request', async () => {
+    const provider = new FakeAIProvider({
+      transcription: { text: 'Short clip.', duration: 12, segments: [] },
+    });
+    setAIProvider(provider);
+
+    const chunks: Array<[number, number]> = [];
+    const result = await transcribeAudio(Buffer.from('audio'), 'mp3', (chunk, total) => chunks.push([chunk, total]));
+
+    assert.deepEqual(chunks, [[1, 1]]);
+    assert.equal(provider.calls.length, 1);
+    // Without segments the whole text becomes one segment
+    assert.deepEqual(result, { text: 'Short clip.', segments: [{ start: 0, end: 12, text: 'Short clip.' }] });
+  });
+});
@@ -0,0 +1,219 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../src/server/storage';
+import { FakeAIProvider, setAIProvider } from '../src/server/aiProvider';
+import { urlCacheKey } from '../src/server/aiCache';
+import { FakeVideoDownloader, setVideoDownloader, VideoLimitError } from '../src/server/downloader';
+import { processVideo } from '../src/server/video';
+import { SafeFetchError } from '../src/server/safeFetch';
+import { METADATA_VERSION } from '../src/server/metadata';
+import { jobQueue } from '../src/server/jobs';
+import { markVideoIngestFailed, runVideoIngest } from '../src/server/ingest';
+import { TestServer, api, parseEventStream, startServer } from './helpers';
+
+const CAPTIONS = {
+  format: 'vtt' as const,
+  content: [
+    'WEBVTT',
+    '',
+    '00:00:00.000 --> 00:00:04.000',
+    'Preheat the oven to two hundred degrees.',
+    '',
+    '00:00:04.000 --> 00:00:09.500',
+    'Roast the vegetables for twenty five minutes.',
+  ].join('\n'),
+};
+
+// Every test gets its own video, since transcripts are cached by URL
+let videoCount = 0;
+function videoUrl(): string {
+  videoCount++;
+  return `https://www.youtube.com/watch?v=testvideo${String(videoCount).padStart(2, '0')}`;
+}
+
+// Stages reported by processVideo, in order
+function recordStages() {
+  const stages: string[] = [];
+  return { stages, report: (stage: string) => stages.push(stage) };
+}
+
+describe('processVideo', () => {
+  before(() => setAIProvider(new FakeAIProvider()));
+
+  afterEach(() => setVideoDownloader(null));
+
+  after(() => setAIProvider(null));
+
+  it('uses captions when the video has them', async () => {
+    const downloader = new FakeVideoDownloader({ captions: CAPTIONS });
+    setVideoDownloader(downloader);
+    const { stages, report } = recordStages();
+
+    const transcript = await processVideo(videoUrl(), report);
+
+    assert.equal(transcript.text, 'Preheat the oven to two hundred degrees. Roast the vegetables for twenty five minutes.');
+    assert.deepEqual(transcript.segments.map(segment => [segment.start, segment.end]), [[0, 4], [4, 9.5]]);
+    assert.deepEqual(stages, ['fetching_captions', 'captions_found']);
+    assert.deepEqual(downloader.calls.map(call => call.method), ['fetchCaptions']);
+  });
+
+  it('transcribes the audio when there are no captions', async () => {
+    const downloader = new FakeVideoDownloader({ captions: null });
+    setVideoDownloader(downloader);
+    const { stages, report } = recordStages();
+
+    const transcript = await processVideo(videoUrl(), report);
+
+    assert.equal(transcript.text, 'Fake transcript.');
+    assert.deepEqual(stages, ['fetching_captions', 'no_captions', 'downloading_audio', 'audio_downloaded', 'transcribing']);
+    assert.deepEqual(downloader.calls.map(call => call.method), ['fetchCaptions', 'probe', 'downloadAudio']);
+  });
+
+  it('refuses videos over the limits', async () => {
+    setVideoDownloader(new FakeVideoDownloader({ info: { durationSeconds: 7200 } }, { maxDurationSeconds: 3600, maxAudioBytes: 1024 * 1024 }));
+    await assert.rejects(processVideo(videoUrl()), VideoLimitError);
+  });
+
+  it('keeps fetch refusals from the audio download as they are', async () => {
+    const refusal = new SafeFetchError('Host cdn.example resolves to private or reserved address 10.0.0.8', 'blocked_address');
+    setVideoDownloader(new FakeVideoDownloader({ captions: null, error: refusal }));
+    await assert.rejects(processVideo(videoUrl()), error => error === refusal);
+  });
+
+  it('reuses the transcript of a video processed before', async () => {
+    const url = videoUrl();
+    setVideoDownloader(new FakeVideoDownloader({ captions: CAPTIONS }));
+    await processVideo(url);
+
+    const downloader = new FakeVideoDownloader({ captions: CAPTIONS });
+    setVideoDownloader(downloader);
+    const { stages, report } = recordStages();
+    // Another share link of the same video
+    const transcript = await processVideo(url.replace('https://www.youtube.com/watch?v=', 'https://youtu.be/'), report);
+
+    assert.match(transcript.text, /^Preheat the oven/);
+    assert.deepEqual(stages, ['transcript_cached']);
+    assert.deepEqual(downloader.calls, []);
+  });
+
+  it('rejects unsupported platforms', async () => {
+    await assert.rejects(processVideo('https://vimeo.com/12345'), /Unsupported video platform/);
+  });
+});
+
+describe('POST /save-video', () => {
+  let server: TestServer;
+
+  before(async () => {
+    setAIProvider(new FakeAIProvider());
+    jobQueue.register('video_ingest', runVideoIngest, markVideoIngestFailed);
+    await jobQueue.start();
+    server = await startServer();
+  });
+
+  afterEach(() => setVideoDownloader(null));
+
+  after(async () => {
+    jobQueue.stop();
+    await server.close();
+    setAIProvider(null);
+  });
+
+  // Page metadata from the AI cache, so nothing is fetched
+  async function seedMetadata(url: string): Promise<void> {
+    await storage.setAICacheEntry({
+      key: urlCacheKey('metadata', url),
+      kind: 'metadata',
+      version: METADATA_VERSION,
+      value: {
+        title: 'Roast vegetables #dinner',
+        description: null,
+        imageUrl: 'https://i.ytimg.com/vi/thumbnail.jpg',
+        structuredContent: null,
+        text: '',
+        article: null,
+        linkData: null,
+      },
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+  }
+
+  // Final event of the job's progress stream
+  async function waitForJob(jobId: string) {
+    const response = await api(server, `/jobs/${jobId}/events`, { headers: { Accept: 'text/event-stream' } });
+    const events = parseEventStream(await response.text());
+    return events[events.length - 1];
+  }
+
+  it('queues a job that fills in the video item', async () => {
+    const url = videoUrl();
+    await seedMetadata(url);
+    setVideoDownloader(new FakeVideoDownloader({ captions: CAPTIONS }));
+
+    const response = await api(server, '/save-video', { method: 'POST', body: JSON.stringify({ url }) });
+    assert.equal(response.status, 202);
+    const body: any = await response.json();
+    assert.equal(body.item.status, 'processing');
+    assert.equal(body.item.videoData.platform, 'youtube');
+    assert.equal(body.job.type, 'video_ingest');
+    assert.equal(body.jobId, body.job.id);
+
+    const final = await waitForJob(body.jobId);
+    assert.equal(final.event, 'completed');
+    assert.equal(final.data.job.status, 'completed');
+    const item = final.data.item;
+    assert.equal(item.id, body.item.id);
+    assert.equal(item.status, 'ready');
+    assert.equal(item.title, 'Fake Result');
+    assert.equal(item.imageUrl, 'https://i.ytimg.com/vi/thumbnail.jpg');
+    assert.match(item.videoData.transcript, /^Preheat the oven/);
+    assert.equal(item.videoData.segments.length, 2);
+
+    // The same video again
+    const again = await api(server, '/save-video', { method: 'POST', body: JSON.stringify({ url: url.replace('www.', 'm.') }) });
+    assert.equal(again.status, 409);
+  });
+
+  it('marks the item failed when the video is over the limits', async () => {
+    const url = videoUrl();
+    await seedMetadata(url);
+    setVideoDownloader(new FakeVideoDownloader({ info: { durationSeconds: 7200 } }, { maxDurationSeconds: 3600, maxAudioBytes: 1024 * 1024 }));
+
+    const response = await api(server, '/save-video', { method: 'POST', body: JSON.stringify({ url }) });
+    assert.equal(response.status, 202);
+    const { jobId }: any = await response.json();
+
+    const final = await waitForJob(jobId);
+    assert.equal(final.event, 'failed');
+    // Not retried: a limit error fails the job on its first attempt
+    assert.equal(final.data.job.attempts, 1);
+    assert.equal(final.data.item.status, 'failed');
+    assert.equal(final.data.item.summary, 'Video is too long (120 min, limit 60 min)');
+  });
+
+  it('fails the job without retrying when the download is refused', async () => {
+    const url = videoUrl();
+    await seedMetadata(url);
+    setVideoDownloader(new FakeVideoDownloader({
+      captions: null,
+      error: new SafeFetchError('Response is too large (limit 5 MB)', 'too_large'),
+    }));
+
+    const response = await api(server, '/save-video', { method: 'POST', body: JSON.stringify({ url }) });
+    const { jobId }: any = await response.json();
+
+    const final = await waitForJob(jobId);
+    assert.equal(final.event, 'failed');
+    assert.equal(final.data.job.attempts, 1);
+    assert.equal(final.data.item.summary, 'Response is too large (limit 5 MB)');
+  });
+
+  it('refuses unsupported platforms and invalid input', async () => {
+    const unsupported = await api(server, '/save-video', { method: 'POST', body: JSON.stringify({ url: 'https://vimeo.com/12345' }) });
+    assert.equal(unsupported.status, 400);
+    const missing = await api(server, '/save-video', { method: 'POST', body: JSON.stringify({}) });
+    assert.equal(missing.status, 400);
+    const force = await api(server, '/save-video', { method: 'POST', body: JSON.stringify({ url: videoUrl(), force: 'yes' }) });
+    assert.equal(force.status, 400);
+  });
+});